@@ -0,0 +1,169 @@
+/* =========================================
+ * Serwer pokoi do gry sieciowej – uruchamiany lokalnie: `npm run server`
+ * =========================================
+ * Nie liczy gry: przydziela kody pokoi, przekazuje skręty gości do hosta,
+ * stan rundy od hosta do gości i rozsyła listę graczy z opóźnieniami.
+ * Format wiadomości opisuje `src/net/protocol.ts`.
+ */
+const {WebSocketServer} = require("ws");
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ"; // bez I i O, żeby nie myliły się z 1 i 0
+const ROOM_CODE_LENGTH = 4;
+const MAX_MEMBERS = 6;
+
+/**
+ * Pokoje po kodzie. Członek pokoju trzyma swój socket, zgłoszone opóźnienie i obiekt połączenia.
+ * @type {Map<string, {code: string, hostId: string, inMatch: boolean, members: Map<string, object>}>}
+ */
+const rooms = new Map();
+let nextClientId = 1;
+
+function createRoomCode() {
+    let code;
+    do {
+        code = "";
+        for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+            code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+        }
+    } while (rooms.has(code));
+    return code;
+}
+
+function send(socket, message) {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function broadcast(room, message, exceptClientId) {
+    for (const member of room.members.values()) {
+        if (member.clientId !== exceptClientId) send(member.socket, message);
+    }
+}
+
+function broadcastRoomState(room) {
+    const members = [...room.members.values()].map(({clientId, name, latencyMs}) => ({
+        clientId,
+        name,
+        latencyMs,
+        isHost: clientId === room.hostId,
+    }));
+    broadcast(room, {type: "roomState", roomCode: room.code, members});
+}
+
+function leaveRoom(client) {
+    const room = client.roomCode && rooms.get(client.roomCode);
+    client.roomCode = null;
+    if (!room) return;
+
+    const member = room.members.get(client.clientId);
+    room.members.delete(client.clientId);
+
+    if (client.clientId === room.hostId) {
+        // bez hosta nie ma symulacji – zamykamy pokój dla wszystkich
+        broadcast(room, {type: "roomClosed", reason: "The host left the room"});
+        for (const other of room.members.values()) other.client.roomCode = null;
+        rooms.delete(room.code);
+        return;
+    }
+
+    if (member) broadcast(room, {type: "memberLeft", clientId: client.clientId, name: member.name});
+    broadcastRoomState(room);
+}
+
+function joinRoom(client, room, name) {
+    room.members.set(client.clientId, {clientId: client.clientId, name, socket: client.socket, latencyMs: null, client});
+    client.roomCode = room.code;
+    send(client.socket, {
+        type: "roomJoined",
+        roomCode: room.code,
+        clientId: client.clientId,
+        isHost: client.clientId === room.hostId,
+    });
+    broadcastRoomState(room);
+}
+
+function handleMessage(client, message) {
+    const room = client.roomCode ? rooms.get(client.roomCode) : undefined;
+
+    switch (message.type) {
+        case "createRoom": {
+            leaveRoom(client);
+            const newRoom = {code: createRoomCode(), hostId: client.clientId, inMatch: false, members: new Map()};
+            rooms.set(newRoom.code, newRoom);
+            joinRoom(client, newRoom, String(message.name || "Host").slice(0, 24));
+            return;
+        }
+        case "joinRoom": {
+            const target = rooms.get(String(message.roomCode || "").toUpperCase());
+            if (!target) return send(client.socket, {type: "error", message: "Room not found"});
+            if (target.inMatch) return send(client.socket, {type: "error", message: "Match already in progress"});
+            if (target.members.size >= MAX_MEMBERS) return send(client.socket, {type: "error", message: "Room is full"});
+            leaveRoom(client);
+            joinRoom(client, target, String(message.name || "Guest").slice(0, 24));
+            return;
+        }
+        case "leaveRoom":
+            leaveRoom(client);
+            return;
+        case "ping":
+            send(client.socket, {type: "pong", sentAtMs: message.sentAtMs});
+            return;
+        case "latency": {
+            const member = room && room.members.get(client.clientId);
+            if (!member) return;
+            member.latencyMs = Math.round(Number(message.latencyMs));
+            broadcastRoomState(room);
+            return;
+        }
+        case "input": {
+            const host = room && room.members.get(room.hostId);
+            if (host && client.clientId !== room.hostId) {
+                send(host.socket, {type: "input", clientId: client.clientId, input: message.input});
+            }
+            return;
+        }
+        case "startMatch":
+            if (!room || client.clientId !== room.hostId) return;
+            room.inMatch = true;
+            broadcast(room, {type: "matchStarted", playerOrder: message.playerOrder});
+            return;
+        case "endMatch":
+            // mecz rozstrzygnięty albo host wrócił do lobby – do pokoju znów można dołączyć
+            if (!room || client.clientId !== room.hostId) return;
+            room.inMatch = false;
+            return;
+        case "snapshot":
+            if (!room || client.clientId !== room.hostId) return;
+            broadcast(room, {type: "snapshot", snapshot: message.snapshot}, client.clientId);
+            return;
+        default:
+            send(client.socket, {type: "error", message: `Unknown message type: ${message.type}`});
+    }
+}
+
+const server = new WebSocketServer({port: PORT});
+
+server.on("connection", (socket) => {
+    const client = {clientId: `c${nextClientId++}`, socket, roomCode: null};
+
+    socket.on("message", (data) => {
+        let message;
+        try {
+            message = JSON.parse(String(data));
+        } catch {
+            message = null;
+        }
+        // poprawny JSON to jeszcze nie wiadomość – `null` czy liczba wywróciłyby cały serwer
+        if (!message || typeof message !== "object" || typeof message.type !== "string") {
+            send(socket, {type: "error", message: "Malformed message"});
+            return;
+        }
+        handleMessage(client, message);
+    });
+
+    socket.on("close", () => leaveRoom(client));
+});
+
+server.on("listening", () => {
+    console.log(`Kurve room server listening on ws://localhost:${PORT}`);
+});
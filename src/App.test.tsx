@@ -2,8 +2,9 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+test('renders the start prompt and player HUD', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(screen.getByText(/press space to start/i)).toBeInTheDocument();
+  expect(screen.getByText('Player 1')).toBeInTheDocument();
+  expect(screen.getByText('Player 2')).toBeInTheDocument();
 });
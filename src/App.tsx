@@ -1,278 +1,365 @@
 // Moving.tsx
-import React, {useEffect, useRef, useState} from "react";
-
-/* =========================================
- * 1) Konfiguracja i stałe
- * ========================================= */
-const CONFIG = {
-    COLORS: {
-        backgroundHex: "#0b1020",
-        playerOneHex: "#66e3ff",
-        playerTwoHex: "#ffd166",
-        hudTextHex: "#d7e0f2",
-        hudDimHex: "#9aa7bf",
-        borderHex: "#75D4E6", // kolor ramki
-    },
-    DOT: {
-        radiusPixels: 2,
-    },
-    PHYSICS: {
-        forwardSpeedPixelsPerSecond: 80,
-        turnSpeedRadiansPerSecond: Math.PI / 2,
-    },
-    INPUT: {
-        toggleMovementKey: " ", // SPACE
-        playerOneTurnLeftKey: "a",
-        playerOneTurnRightKey: "d",
-        playerTwoTurnLeftKey: "j",
-        playerTwoTurnRightKey: "k",
-        restartKey: "r",
-    },
-    TRAIL: {
-        recentIgnoreFrameCount: 10,
-        extraIgnoreMarginPixels: 0.75, // promień „świeżego” ogona ignorowanego przy kolizji
-    },
-    SCORING: {
-        hudRefreshIntervalMs: 100,
-    },
-    GAPS: {
-        enabled: true,
-        minIntervalSeconds: 1.2,
-        maxIntervalSeconds: 3.0,
-        minDurationSeconds: 0.18,
-        maxDurationSeconds: 0.35,
-        corridorExtraMarginPixels: 0.6,
-        corridorMaxPoints: 600,
-    },
-    BORDER: {
-        thicknessPixels: 4, // grubość ramki
-        insetPixels: 4,     // odsunięcie ramki od krawędzi canvasa (żeby była w pełni widoczna)
-    },
-} as const;
-
-/* =========================
- * 2) Typy
- * ========================= */
-type Vector2D = { x: number; y: number };
-
-type TrailMask = {
-    widthPixels: number;
-    heightPixels: number;
-    occupancy: Uint8Array; // 1 = zajęty piksel śladu, 0 = wolny
+import React, {useCallback, useEffect, useRef, useState} from "react";
+import {AudioSystem, createAudioSystem} from "./audio/audio";
+import {AudioSettings, loadAudioSettings, saveAudioSettings} from "./audio/audioSettings";
+import {soundsForEvents} from "./audio/sounds";
+import {CONFIG, GameConfig, PlayerSetup} from "./game/config";
+import {effectiveColors} from "./game/accessibility";
+import {describeMatchWinner, describeRoundWinner} from "./game/announcements";
+import {createBotState, BotState, updateBot} from "./game/bot";
+import {createMatch, isMatchOver, MatchState, recordRound, RoundResult} from "./game/match";
+import {createSeed} from "./game/random";
+import {loadProfiles, loadSeats, PlayerProfile, saveProfiles, saveSeats, SeatAssignment, setupsForSeats} from "./game/profiles";
+import {POWER_UP_SYMBOLS} from "./game/powerUps";
+import {getArenaSize} from "./game/border";
+import {createStepClock, takeFixedSteps} from "./game/stepClock";
+import {advanceCountdown, Countdown, countdownNumber, createCountdown} from "./game/countdown";
+import {createDebugState, drawDebugBoard, drawDebugPanel, recordCrashPixels, recordFrameTime, takeFrameSteps} from "./game/debugOverlay";
+import {teamName} from "./game/teams";
+import {fitLetterbox} from "./game/letterbox";
+import {createMatchId, createMatchRecord, createRoundRecord} from "./game/history";
+import {DeathReport, deathsFromEvents, describeDeath} from "./game/killFeed";
+import {applyMap, createEmptyMap, loadActiveMap, saveActiveMap} from "./game/maps";
+import {BoardView, drawOverlay, paintRoundStart, renderFrame, TrailCursor} from "./game/render";
+import {
+    createReplayPlayback,
+    createReplayRecorder,
+    frameAtTime,
+    getPlaybackTime,
+    isPlaybackFinished,
+    parseReplay,
+    recordFrame,
+    recordToggle,
+    Replay,
+    ReplayPlayback,
+    rewindPlayback,
+    seekPlayback,
+    serializeReplay,
+    stepPlayback,
+} from "./game/replay";
+import {
+    createSimulation,
+    eliminatePlayer,
+    isRunning,
+    resetRound,
+    SimulationEvent,
+    stepSimulation,
+    toggleMovement,
+} from "./game/simulation";
+import {
+    applySettings,
+    GameSettings,
+    loadSettings,
+    saveSettings,
+    settingsFromConfig,
+    settingsToQuery,
+} from "./game/settings";
+import {ArenaMap, ArenaMode, ArenaSize, GameModeId, PlayerController, PlayerInput, PlayerState} from "./game/types";
+import {connectNetClient, NetClient} from "./net/client";
+import {NetMember, NetPlayerView, NetSnapshot, ServerMessage} from "./net/protocol";
+import {applySnapshot, buildSnapshot, createGuestView, describeGuestStatus, GuestView} from "./net/snapshot";
+import {loadBindings, PlayerBindings, readPlayerInput, saveBindings, describeBinding} from "./input/bindings";
+import {readGamepads} from "./input/gamepads";
+import {withTouchInput} from "./input/touch";
+import {saveMatchRecord, saveRoundRecord} from "./storage/historyDb";
+import AudioControls from "./ui/AudioControls";
+import ControlsScreen from "./ui/ControlsScreen";
+import CountdownOverlay from "./ui/CountdownOverlay";
+import KillFeed, {KillFeedEntry} from "./ui/KillFeed";
+import {downloadTextFile} from "./ui/download";
+import Lobby, {LobbyStatus} from "./ui/Lobby";
+import MapEditor from "./ui/MapEditor";
+import MatchResults from "./ui/MatchResults";
+import PauseOverlay from "./ui/PauseOverlay";
+import ReplayControls, {ReplayStatus} from "./ui/ReplayControls";
+import SettingsScreen from "./ui/SettingsScreen";
+import StatsScreen from "./ui/StatsScreen";
+import TouchControls from "./ui/TouchControls";
+
+type HudPlayerRow = {
+    name: string;
+    colorHex: string;
+    scoreSeconds: number;
+    isAlive: boolean;
+    matchPoints: number;
+    effects: string[];
+    teamIndex: number | null;
 };
 
-type GapState = {
-    isActive: boolean;
-    timeUntilNextGap: number; // s
-    remainingGapTime: number; // s
-};
+const START_STATUS_TEXT = "Press SPACE to start";
 
-type PlayerState = {
-    label: "Player 1" | "Player 2";
-    colorHex: string;
-    angleRadians: number;
-    positionPixels: Vector2D;
-    recentPositions: Vector2D[]; // świeży ogon (dla ignorowania kolizji)
-    gapCorridor: Vector2D[];     // punkty korytarza w trakcie dziury (dla wszystkich)
-    isAlive: boolean;
-    scoreSeconds: number;
-    gap: GapState;
-    lastRenderedPosition?: Vector2D;
+/** Ustawienia wynikające z `CONFIG` – punkt odniesienia dla zestawów i linku. */
+const DEFAULT_SETTINGS = settingsFromConfig(CONFIG);
+
+/** Tekst tylko dla czytnika ekranu – niewidoczny, ale nie `display: none`. */
+const VISUALLY_HIDDEN_STYLE: React.CSSProperties = {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    overflow: "hidden",
+    clip: "rect(0 0 0 0)",
+    whiteSpace: "nowrap",
 };
 
-/* ==================================
- * 3) Utilsy: ślad, kolizje, losowanie, rysowanie
- * ================================== */
-function createTrailMask(widthPixels: number, heightPixels: number): TrailMask {
-    return {widthPixels, heightPixels, occupancy: new Uint8Array(widthPixels * heightPixels)};
+/** Tło paneli HUD-u przy wysokim kontraście – tekst nie ginie na śladach. */
+const HIGH_CONTRAST_PANEL_BACKGROUND = "rgba(0, 0, 0, 0.85)";
+
+/** Na ekranie dotykowym podpowiedzi klawiszy zamieniamy na stuknięcia. */
+const TOUCH_STATUS_REPLACEMENTS: [string, string][] = [
+    [START_STATUS_TEXT, "Tap to start"],
+    ["Paused (SPACE)", "Paused • Tap to resume"],
+    ["Press R for a new match", "Tap for a new match"],
+];
+
+function toTouchStatusText(text: string): string {
+    return TOUCH_STATUS_REPLACEMENTS.reduce((result, [keyboard, touch]) => result.replace(keyboard, touch), text);
 }
 
-function markVisitedCircle(
-    trailMask: TrailMask,
-    centerX: number,
-    centerY: number,
-    radiusPixels: number
-): void {
-    const minX = Math.max(0, Math.floor(centerX - radiusPixels));
-    const maxX = Math.min(trailMask.widthPixels - 1, Math.ceil(centerX + radiusPixels));
-    const minY = Math.max(0, Math.floor(centerY - radiusPixels));
-    const maxY = Math.min(trailMask.heightPixels - 1, Math.ceil(centerY + radiusPixels));
-    const radiusSquared = radiusPixels * radiusPixels;
-
-    for (let pixelY = minY; pixelY <= maxY; pixelY++) {
-        const deltaY = pixelY - centerY;
-        const deltaYSquared = deltaY * deltaY;
-        const rowOffset = pixelY * trailMask.widthPixels;
-
-        for (let pixelX = minX; pixelX <= maxX; pixelX++) {
-            const deltaX = pixelX - centerX;
-            const distanceSquared = deltaX * deltaX + deltaYSquared;
-            if (distanceSquared <= radiusSquared) {
-                trailMask.occupancy[rowOffset + pixelX] = 1;
-            }
-        }
-    }
+/** Urządzenie z dotykiem jako głównym wskaźnikiem (telefon, tablet). */
+function hasCoarsePointer(): boolean {
+    return typeof window.matchMedia === "function" && window.matchMedia("(pointer: coarse)").matches;
 }
 
-/**
- * Sprawdza kolizję okręgu z maską śladu, ignorując punkty z `ignoredPoints`
- * w promieniu `extraIgnoreMarginPixels`.
- */
-function collidesWithTrailExcludingPoints(
-    trailMask: TrailMask,
-    center: Vector2D,
-    radiusPixels: number,
-    ignoredPoints: Vector2D[],
-    extraIgnoreMarginPixels: number
-): boolean {
-    const minX = Math.max(0, Math.floor(center.x - radiusPixels));
-    const maxX = Math.min(trailMask.widthPixels - 1, Math.ceil(center.x + radiusPixels));
-    const minY = Math.max(0, Math.floor(center.y - radiusPixels));
-    const maxY = Math.min(trailMask.heightPixels - 1, Math.ceil(center.y + radiusPixels));
-
-    const radiusSquared = radiusPixels * radiusPixels;
-    const ignoreRadius = radiusPixels + extraIgnoreMarginPixels;
-    const ignoreRadiusSquared = ignoreRadius * ignoreRadius;
-
-    for (let pixelY = minY; pixelY <= maxY; pixelY++) {
-        const deltaY = pixelY - center.y;
-        const deltaYSquared = deltaY * deltaY;
-        const rowOffset = pixelY * trailMask.widthPixels;
-
-        for (let pixelX = minX; pixelX <= maxX; pixelX++) {
-            const deltaX = pixelX - center.x;
-            const distanceSquared = deltaX * deltaX + deltaYSquared;
-            if (distanceSquared > radiusSquared) continue;
-
-            if (trailMask.occupancy[rowOffset + pixelX] === 1) {
-                // Czy piksel należy do jednego z ignorowanych punktów?
-                let belongsToIgnored = false;
-                for (let i = 0; i < ignoredPoints.length; i++) {
-                    const p = ignoredPoints[i];
-                    const dx = pixelX - p.x;
-                    const dy = pixelY - p.y;
-                    if (dx * dx + dy * dy <= ignoreRadiusSquared) {
-                        belongsToIgnored = true;
-                        break;
-                    }
-                }
-                if (!belongsToIgnored) return true;
-            }
-        }
-    }
-    return false;
+/** Kolejność przełączania sterowania po kliknięciu w wiersz gracza. */
+const CONTROLLER_CYCLE: PlayerController[] = [
+    {kind: "human"},
+    {kind: "bot", difficulty: "easy"},
+    {kind: "bot", difficulty: "medium"},
+    {kind: "bot", difficulty: "hard"},
+];
+
+function describeController(controller: PlayerController): string {
+    if (controller.kind === "remote") return "online";
+    return controller.kind === "human" ? "human" : `bot ${controller.difficulty}`;
 }
 
-function drawDot(
-    ctx: CanvasRenderingContext2D,
-    center: Vector2D,
-    radiusPixels: number,
-    colorHex: string
-): void {
-    ctx.beginPath();
-    ctx.arc(center.x, center.y, radiusPixels, 0, Math.PI * 2);
-    ctx.fillStyle = colorHex;
-    ctx.fill();
+function nextController(current: PlayerController): PlayerController {
+    if (current.kind === "remote") return current; // gościa w sieci nie da się podmienić
+    const index = CONTROLLER_CYCLE.findIndex(
+        (candidate) => describeController(candidate) === describeController(current)
+    );
+    return CONTROLLER_CYCLE[(index + 1) % CONTROLLER_CYCLE.length];
 }
 
-function drawHeadWithGap(
-    ctx: CanvasRenderingContext2D,
-    player: PlayerState,
-    radiusPixels: number
-): void {
-    if (CONFIG.GAPS.enabled && player.gap.isActive && player.lastRenderedPosition) {
-        ctx.beginPath();
-        ctx.arc(
-            player.lastRenderedPosition.x,
-            player.lastRenderedPosition.y,
-            radiusPixels,
-            0,
-            Math.PI * 2
-        );
-        ctx.fillStyle = CONFIG.COLORS.backgroundHex;
-        ctx.fill();
-    }
-    drawDot(ctx, player.positionPixels, radiusPixels, player.colorHex);
-    player.lastRenderedPosition = {x: player.positionPixels.x, y: player.positionPixels.y};
+function toHudRows(players: readonly (PlayerState | NetPlayerView)[], matchTotals: readonly number[]): HudPlayerRow[] {
+    return players.map(({name, colorHex, scoreSeconds, isAlive, effects, teamIndex}, index) => ({
+        name,
+        colorHex,
+        scoreSeconds,
+        isAlive,
+        matchPoints: matchTotals[index] ?? 0,
+        effects: effects.map(({effect, remainingSeconds}) => `${POWER_UP_SYMBOLS[effect]} ${remainingSeconds.toFixed(1)}s`),
+        teamIndex,
+    }));
 }
 
-function randomInRange(min: number, max: number) {
-    return min + Math.random() * (max - min);
+/** Wiersze HUD-u pogrupowane w drużyny (bez drużyn – jedna grupa z `teamIndex: null`). */
+function groupHudRowsByTeam(rows: readonly HudPlayerRow[]): { teamIndex: number | null; playerIndexes: number[] }[] {
+    const groups: { teamIndex: number | null; playerIndexes: number[] }[] = [];
+    rows.forEach((row, index) => {
+        const group = groups.find((candidate) => candidate.teamIndex === row.teamIndex);
+        if (group) group.playerIndexes.push(index);
+        else groups.push({teamIndex: row.teamIndex, playerIndexes: [index]});
+    });
+    return groups.sort((a, b) => (a.teamIndex ?? 0) - (b.teamIndex ?? 0));
 }
 
-function initGapState(): GapState {
-    return {
-        isActive: false,
-        timeUntilNextGap: randomInRange(CONFIG.GAPS.minIntervalSeconds, CONFIG.GAPS.maxIntervalSeconds),
-        remainingGapTime: 0,
-    };
+/** Wiersze HUD-u przed pierwszą klatką (jeszcze bez symulacji). */
+function toInitialHudRows(setups: readonly PlayerSetup[]): HudPlayerRow[] {
+    return setups.map(({name, colorHex}) => ({name, colorHex, scoreSeconds: 0, isAlive: true, matchPoints: 0, effects: [], teamIndex: null}));
 }
 
-function updateGap(gap: GapState, deltaTimeSeconds: number) {
-    if (!CONFIG.GAPS.enabled) return;
-    if (gap.isActive) {
-        gap.remainingGapTime -= deltaTimeSeconds;
-        if (gap.remainingGapTime <= 0) {
-            gap.isActive = false;
-            gap.timeUntilNextGap = randomInRange(
-                CONFIG.GAPS.minIntervalSeconds,
-                CONFIG.GAPS.maxIntervalSeconds
-            );
-        }
-    } else {
-        gap.timeUntilNextGap -= deltaTimeSeconds;
-        if (gap.timeUntilNextGap <= 0) {
-            gap.isActive = true;
-            gap.remainingGapTime = randomInRange(
-                CONFIG.GAPS.minDurationSeconds,
-                CONFIG.GAPS.maxDurationSeconds
-            );
-        }
-    }
+/** Liczba graczy z klawisza cyfry (`Digit3`, `Numpad3`) albo `null`. */
+function playerCountFromKeyCode(code: string): number | null {
+    const match = /^(Digit|Numpad)(\d)$/.exec(code);
+    return match ? Number(match[2]) : null;
 }
 
-/** Rysuje ramkę na krawędziach pola gry. */
-function drawBorder(ctx: CanvasRenderingContext2D, width: number, height: number) {
-    const t = CONFIG.BORDER.thicknessPixels;
-    const inset = CONFIG.BORDER.insetPixels;
-    ctx.fillStyle = CONFIG.COLORS.borderHex;
-    // top
-    ctx.fillRect(inset, inset, width - 2 * inset, t);
-    // bottom
-    ctx.fillRect(inset, height - inset - t, width - 2 * inset, t);
-    // left
-    ctx.fillRect(inset, inset, t, height - 2 * inset);
-    // right
-    ctx.fillRect(width - inset - t, inset, t, height - 2 * inset);
+function describeRoundEnd(match: MatchState, result: RoundResult): string {
+    // w drużynie wszyscy dostają te same punkty – pokazujemy je raz, przy nazwie drużyny
+    const gains = match.playerNames
+        .map((name, index) => {
+            const teamIndex = match.teamByPlayer[index];
+            const isTeamRepeat = teamIndex !== null && match.teamByPlayer.indexOf(teamIndex) !== index;
+            return {name: teamIndex === null ? name : teamName(CONFIG, teamIndex), points: isTeamRepeat ? 0 : result.pointsByPlayer[index]};
+        })
+        .filter(({points}) => points > 0)
+        .map(({name, points}) => `${name} +${points}`);
+    const summary = gains.length > 0 ? gains.join(", ") : "No points";
+    return `Round ${result.roundNumber}: ${summary} • Next round starting…`;
 }
 
-/** Sprawdza, czy okrąg o środku (x,y) i promieniu r uderza w ramkę. */
-function hitsBorder(x: number, y: number, width: number, height: number, radius: number): boolean {
-    const t = CONFIG.BORDER.thicknessPixels;
-    const inset = CONFIG.BORDER.insetPixels;
+/** Gracz, jakiego potrzebuje kill feed – `PlayerState` albo widok gościa w sieci. */
+type FeedPlayer = Pick<PlayerState, "name" | "colorHex" | "deathCause">;
+
+/** Kill feed w HUD-zie; `title` ma podsumowanie zakończonej rundy. */
+type KillFeedState = {
+    title: string | null;
+    entries: KillFeedEntry[];
+};
+
+/** Akcje powtórki wywoływane z paska sterowania (implementuje je pętla gry). */
+type ReplayActions = {
+    load: (replay: Replay) => void;
+    togglePause: () => void;
+    setSpeed: (speed: number) => void;
+    seek: (timeSeconds: number) => void;
+    close: () => void;
+};
+
+/** Stuknięcia z warstwy dotyku – odpowiedniki SPACE i R. */
+type TouchActions = {
+    tap: () => void;
+    pause: () => void;
+    restart: () => void;
+    openSettings: () => void;
+};
+
+/** Przyciski menu pauzy. */
+type PauseActions = {
+    resume: () => void;
+    restart: () => void;
+    openSettings: () => void;
+    quit: () => void;
+};
+
+/** Ustawienia z ekranu ustawień – zastosowanie zaczyna nowy mecz. */
+type SettingsActions = {
+    apply: (settings: GameSettings) => void;
+};
+
+/** Mapa wybrana w edytorze map (`null` – puste pole) – zaczyna nowy mecz. */
+type MapActions = {
+    play: (map: ArenaMap | null) => void;
+};
+
+/** Zmiany profili i miejsc z ekranu statystyk. */
+type ProfileActions = {
+    update: (profiles: PlayerProfile[], seats: SeatAssignment) => void;
+};
+
+/** Dane dla ekranu profili i statystyk (kopia z pętli gry). */
+type StatsScreenState = {
+    profiles: PlayerProfile[];
+    seats: SeatAssignment;
+    seatCount: number;
+};
 
-    // Wewnętrzny „bezpieczny” prostokąt, w którym może poruszać się środek kropki
-    const minX = inset + t + radius;
-    const maxX = width - inset - t - radius;
-    const minY = inset + t + radius;
-    const maxY = height - inset - t - radius;
+/** Akcje lobby gry sieciowej (implementuje je pętla gry, która trzyma połączenie). */
+type OnlineActions = {
+    open: () => void;
+    connect: (url: string) => void;
+    createRoom: (name: string) => void;
+    joinRoom: (roomCode: string, name: string) => void;
+    startMatch: () => void;
+    selectGameMode: (gameMode: GameModeId) => void;
+    leave: () => void;
+    close: () => void;
+};
 
-    return x < minX || x > maxX || y < minY || y > maxY;
+/** Kopia meczu do stanu Reacta – `MatchState` jest mutowany w pętli gry. */
+function snapshotMatch(match: MatchState): MatchState {
+    return {...match, totals: [...match.totals], rounds: [...match.rounds]};
 }
 
 /* =========================
- * 4) Komponent + HUD + restart
- * ========================= */
+ * Komponent + HUD + restart
+ * =========================
+ * Cała logika rundy siedzi w `game/simulation`; tutaj zostaje tylko
+ * klawiatura → `PlayerInput`, pętla `requestAnimationFrame`, canvas i HUD.
+ */
 export default function Moving() {
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const animationFrameRef = useRef<number | null>(null);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+    const replayActionsRef = useRef<ReplayActions | null>(null);
+    const onlineActionsRef = useRef<OnlineActions | null>(null);
+    const settingsActionsRef = useRef<SettingsActions | null>(null);
+    const [lobby, setLobby] = useState<LobbyStatus | null>(null); // null = lobby zamknięte
+    const [settingsScreen, setSettingsScreen] = useState<GameSettings | null>(null); // null = ekran zamknięty
+    const closeSettings = useCallback(() => setSettingsScreen(null), []);
+    const mapActionsRef = useRef<MapActions | null>(null);
+    const [mapEditor, setMapEditor] = useState<ArenaMap | null>(null); // null = edytor zamknięty
+    const closeMapEditor = useCallback(() => setMapEditor(null), []);
+    const profileActionsRef = useRef<ProfileActions | null>(null);
+    const [statsScreen, setStatsScreen] = useState<StatsScreenState | null>(null); // null = ekran zamknięty
+    const closeStats = useCallback(() => setStatsScreen(null), []);
+
+    // Sterowanie per miejsce w składzie – ref dla pętli gry, state dla HUD-u
+    const initialControllers = CONFIG.PLAYERS.roster.map((): PlayerController => ({kind: "human"}));
+    const controllersRef = useRef<PlayerController[]>(initialControllers);
+    const [controllers, setControllers] = useState<PlayerController[]>(initialControllers);
+
+    // Przypisania klawiszy i padów – ref dla pętli gry, state dla ekranu sterowania i podpowiedzi
+    const bindingsRef = useRef<PlayerBindings[]>([]);
+    const [bindings, setBindings] = useState<PlayerBindings[]>(() => (bindingsRef.current = loadBindings(CONFIG)));
+    const [isControlsOpen, setControlsOpen] = useState(false);
+
+    const updateBindings = (updated: PlayerBindings[]) => {
+        bindingsRef.current = updated;
+        setBindings(updated);
+        saveBindings(updated);
+    };
+
+    // Dźwięk – system audio żyje w pętli gry, ustawienia zmienia też HUD
+    const audioRef = useRef<AudioSystem | null>(null);
+    const audioSettingsRef = useRef<AudioSettings>(loadAudioSettings(CONFIG));
+    const [audioSettings, setAudioSettings] = useState<AudioSettings>(audioSettingsRef.current);
+
+    const updateAudioSettings = useCallback((updated: AudioSettings) => {
+        audioSettingsRef.current = updated;
+        setAudioSettings(updated);
+        saveAudioSettings(updated);
+        audioRef.current?.apply(updated);
+    }, []);
+
+    // Dotyk: warstwa stref pojawia się na urządzeniach dotykowych albo po pierwszym dotknięciu ekranu
+    const [isTouchMode, setTouchMode] = useState(hasCoarsePointer);
+    const touchInputsRef = useRef<PlayerInput[]>([]);
+    const touchActionsRef = useRef<TouchActions | null>(null);
+    const pauseActionsRef = useRef<PauseActions | null>(null);
+    const updateTouchInputs = useCallback((inputs: PlayerInput[]) => {
+        touchInputsRef.current = inputs;
+    }, []);
+
+    useEffect(() => {
+        if (isTouchMode) return;
+        const handleTouchStart = () => setTouchMode(true);
+        window.addEventListener("touchstart", handleTouchStart, {once: true});
+        return () => window.removeEventListener("touchstart", handleTouchStart);
+    }, [isTouchMode]);
+
+    const cycleController = (playerIndex: number) => {
+        const updated = controllersRef.current.map((controller, index) =>
+            index === playerIndex ? nextController(controller) : controller
+        );
+        controllersRef.current = updated;
+        setControllers(updated);
+    };
 
     const [hud, setHud] = useState<{
-        playerOneScore: number;
-        playerTwoScore: number;
+        players: HudPlayerRow[];
         statusText: string;
         isRunning: boolean;
-    }>({playerOneScore: 0, playerTwoScore: 0, statusText: "Press SPACE to start", isRunning: false});
+        finishedMatch: MatchState | null;
+        replay: ReplayStatus | null;
+        countdown: number | null; // 3-2-1 przed startem albo wznowieniem rundy
+        isPaused: boolean;        // runda zatrzymana w trakcie – menu pauzy
+    }>({
+        players: toInitialHudRows(CONFIG.PLAYERS.roster.slice(0, CONFIG.PLAYERS.defaultCount)),
+        statusText: START_STATUS_TEXT,
+        isRunning: false,
+        finishedMatch: null,
+        replay: null,
+        countdown: null,
+        isPaused: false,
+    });
+    const [killFeed, setKillFeed] = useState<KillFeedState>({title: null, entries: []});
+    // opcje dostępności z ustawień – HUD czyta je poza efektem gry
+    const [accessibility, setAccessibility] = useState<GameConfig["ACCESSIBILITY"]>(CONFIG.ACCESSIBILITY);
+    const hudColors = effectiveColors({...CONFIG, ACCESSIBILITY: accessibility});
+    // region ARIA live – nowe `id` sprawia, że czytnik ekranu powtórzy nawet ten sam tekst
+    const [announcement, setAnnouncement] = useState({id: 0, text: ""});
 
     useEffect(() => {
         const canvasElement = canvasRef.current;
@@ -280,60 +367,52 @@ export default function Moving() {
         const canvasContext = canvasElement.getContext("2d");
         if (!canvasContext) return;
 
-        // --- Stan globalny rundy ---
-        let isMoving = false;
-        let hasRoundEnded = false;
-        let trailMask: TrailMask = createTrailMask(1, 1);
-
-        // --- Gracze ---
-        const playerOne: PlayerState = {
-            label: "Player 1",
-            colorHex: CONFIG.COLORS.playerOneHex,
-            angleRadians: 0,
-            positionPixels: {x: 0, y: 0},
-            recentPositions: [],
-            gapCorridor: [],
-            isAlive: true,
-            scoreSeconds: 0,
-            gap: initGapState(),
-            lastRenderedPosition: undefined,
-        };
-        const playerTwo: PlayerState = {
-            label: "Player 2",
-            colorHex: CONFIG.COLORS.playerTwoHex,
-            angleRadians: 0,
-            positionPixels: {x: 0, y: 0},
-            recentPositions: [],
-            gapCorridor: [],
-            isAlive: true,
-            scoreSeconds: 0,
-            gap: initGapState(),
-            lastRenderedPosition: undefined,
+        // Plansza jest rysowana przyrostowo do bufora w pikselach logicznych,
+        // a na ekran trafia przeskalowana – zmiana rozmiaru okna tylko ją odrysowuje
+        const boardCanvas = document.createElement("canvas");
+        const boardContext = boardCanvas.getContext("2d");
+        if (!boardContext) return;
+        let boardArena: ArenaSize = {widthPixels: 0, heightPixels: 0};
+        const debug = createDebugState(); // podgląd dla programisty (klawisz `), także krok po kroku
+
+        const announce = (text: string) => setAnnouncement((previous) => ({id: previous.id + 1, text}));
+
+        // --- Kill feed: wpisy znikają po `KILL_FEED.entrySeconds`, podsumowanie rundy zostaje do następnej ---
+        let nextKillFeedId = 1;
+        const killFeedTimers = new Set<number>();
+        const clearKillFeed = () => {
+            killFeedTimers.forEach((timer) => window.clearTimeout(timer));
+            killFeedTimers.clear();
+            setKillFeed({title: null, entries: []});
         };
-
-        const pushRecent = (player: PlayerState, point: Vector2D) => {
-            player.recentPositions.push(point);
-            if (player.recentPositions.length > CONFIG.TRAIL.recentIgnoreFrameCount) {
-                player.recentPositions.shift();
-            }
+        const toKillFeedEntries = (reports: readonly DeathReport[], players: readonly FeedPlayer[], isPersistent: boolean) => {
+            const names = players.map((player) => player.name);
+            return reports.map((report): KillFeedEntry => ({
+                id: nextKillFeedId++,
+                text: describeDeath(names, report),
+                colorHex: players[report.playerIndex]?.colorHex ?? CONFIG.COLORS.hudTextHex,
+                isPersistent,
+            }));
         };
-
-        const pushGapCorridor = (player: PlayerState, point: Vector2D) => {
-            player.gapCorridor.push(point);
-            if (player.gapCorridor.length > CONFIG.GAPS.corridorMaxPoints) {
-                player.gapCorridor.splice(0, player.gapCorridor.length - CONFIG.GAPS.corridorMaxPoints);
-            }
+        const showDeaths = (events: readonly SimulationEvent[], players: readonly FeedPlayer[]) => {
+            const entries = toKillFeedEntries(deathsFromEvents(events, players), players, false);
+            if (entries.length === 0) return;
+            announce(entries.map((entry) => entry.text).join(". "));
+            setKillFeed((feed) => ({...feed, entries: [...feed.entries, ...entries].slice(-CONFIG.KILL_FEED.maxEntries)}));
+            const timer = window.setTimeout(() => {
+                killFeedTimers.delete(timer);
+                setKillFeed((feed) => ({...feed, entries: feed.entries.filter((entry) => !entries.includes(entry))}));
+            }, CONFIG.KILL_FEED.entrySeconds * 1000);
+            killFeedTimers.add(timer);
         };
-
-        // --- Tło + ramka ---
-        const paintBackground = (widthCssPixels: number, heightCssPixels: number) => {
-            canvasContext.fillStyle = CONFIG.COLORS.backgroundHex;
-            canvasContext.fillRect(0, 0, widthCssPixels, heightCssPixels);
-            drawBorder(canvasContext, widthCssPixels, heightCssPixels);
+        const showRoundSummary = (result: RoundResult, players: readonly FeedPlayer[]) => {
+            killFeedTimers.forEach((timer) => window.clearTimeout(timer));
+            killFeedTimers.clear();
+            setKillFeed({title: `Round ${result.roundNumber}`, entries: toKillFeedEntries(result.deaths, players, true)});
         };
 
-        // --- Reset rundy (również na start i resize) ---
-        const resetRound = () => {
+        // --- Dopasowanie canvasa do okna ---
+        const fitCanvasToWindow = () => {
             const devicePixelRatioSafe = Math.max(1, window.devicePixelRatio || 1);
             const widthCssPixels = window.innerWidth;
             const heightCssPixels = window.innerHeight;
@@ -343,97 +422,733 @@ export default function Moving() {
             canvasElement.style.width = `${widthCssPixels}px`;
             canvasElement.style.height = `${heightCssPixels}px`;
             canvasContext.setTransform(devicePixelRatioSafe, 0, 0, devicePixelRatioSafe, 0, 0);
+        };
+
+        /** Czysta plansza na start rundy; bufor dostaje rozmiar pola (powtórka albo host mogą mieć inny). */
+        const paintBoardStart = (view: BoardView) => {
+            const {widthPixels, heightPixels} = view.arena;
+            if (widthPixels !== boardArena.widthPixels || heightPixels !== boardArena.heightPixels) {
+                const ratio = CONFIG.ARENA.boardPixelRatio;
+                boardCanvas.width = Math.ceil(widthPixels * ratio);
+                boardCanvas.height = Math.ceil(heightPixels * ratio);
+                boardContext.setTransform(ratio, 0, 0, ratio, 0, 0);
+                boardArena = {widthPixels, heightPixels};
+            }
+            paintRoundStart(boardContext, view);
+            lastRenderedPositions = [];
+            debug.crashes = [];
+            clearKillFeed();
+        };
+
+        /**
+         * Warstwa śladu → ekran (skala z zachowaniem proporcji i pasy po bokach), a na niej świeża nakładka
+         * i – gdy włączony – podgląd maski (gość nie ma maski, widzi tylko panel z czasami klatek).
+         */
+        const presentBoard = () => {
+            const view: BoardView | null = playback ? playback.simulation : isOnlineGuest() ? guestView : simulation;
+            const debugSource = playback ? playback.simulation : isOnlineGuest() ? null : simulation;
+            const {scale, offsetX, offsetY} = fitLetterbox(boardArena, window.innerWidth, window.innerHeight);
+            canvasContext.fillStyle = effectiveColors(view?.config ?? gameConfig).letterboxHex;
+            canvasContext.fillRect(0, 0, window.innerWidth, window.innerHeight);
+            // ślad z pikseli maski zostaje ostry przy skalowaniu
+            canvasContext.imageSmoothingEnabled = view?.config.RENDER.smoothLines ?? true;
+            canvasContext.drawImage(boardCanvas, offsetX, offsetY, boardArena.widthPixels * scale, boardArena.heightPixels * scale);
+
+            if (view) {
+                canvasContext.save();
+                canvasContext.translate(offsetX, offsetY);
+                canvasContext.scale(scale, scale);
+                drawOverlay(canvasContext, view);
+                if (debug.isVisible && debugSource) drawDebugBoard(canvasContext, debugSource, debug);
+                canvasContext.restore();
+            }
+            if (debug.isVisible) drawDebugPanel(canvasContext, debugSource, debug, window.innerHeight);
+        };
+
+        const audio = createAudioSystem(CONFIG, audioSettingsRef.current);
+        audioRef.current = audio;
+
+        let profiles = loadProfiles();
+        let seats = loadSeats(CONFIG, profiles);
+        const rosterFor = (count: number) => setupsForSeats(CONFIG, count, profiles, seats);
+        let setups: readonly PlayerSetup[] = rosterFor(CONFIG.PLAYERS.defaultCount);
+        let settings = loadSettings(DEFAULT_SETTINGS, window.location.search);
+        let arenaMap = loadActiveMap();
+        let gameConfig: GameConfig = applyMap(applySettings(CONFIG, settings), arenaMap); // CONFIG z ustawieniami i mapą
+        setAccessibility(gameConfig.ACCESSIBILITY);
+        fitCanvasToWindow();
+        let simulation = createSimulation(gameConfig, getArenaSize(gameConfig), createSeed(), setups);
+        let lastRenderedPositions: (TrailCursor | undefined)[] = [];
+
+        // --- Mecz ---
+        let matchStartedAt = new Date();
+        let matchId = "";
+        const newMatchFor = () => {
+            matchStartedAt = new Date();
+            matchId = createMatchId(matchStartedAt);
+            return createMatch(
+                CONFIG,
+                simulation.players.map((player) => player.name),
+                simulation.players.map((player) => player.teamIndex)
+            );
+        };
+        let match = newMatchFor();
+        let intermissionSecondsLeft: number | null = null; // przerwa między rundami
+        let countdown: Countdown | null = null; // odliczanie – runda jeszcze stoi, ale już „trwa”
+        const isRoundActive = () => simulation.isMoving || countdown !== null;
+
+        // --- Powtórki: nagrywanie bieżącej rundy i odtwarzanie ---
+        let recorder = createReplayRecorder(simulation, setups);
+        let lastReplay: Replay | null = null;
+        let playback: ReplayPlayback | null = null;
+        let playbackClockSeconds = 0;
+        let playbackSpeed = 1;
+        let isPlaybackPaused = false;
+
+        // --- Gra sieciowa ---
+        let net: {
+            client: NetClient;
+            isOpen: boolean;
+            clientId: string | null;
+            roomCode: string | null;
+            isHost: boolean;
+            members: NetMember[];
+            playerOrder: string[] | null; // clientId na kolejnych miejscach, gdy trwa mecz
+            errorText: string;
+        } | null = null;
+        let roundId = 0;
+        let lastSettingsRoundId = -1; // runda, w której goście dostali już ustawienia hosta
+        const remoteInputs = new Map<string, PlayerInput>();
+        const disconnectedSlots = new Set<number>();
+        let guestView: GuestView | null = null;
+        let pendingSnapshots: NetSnapshot[] = [];
+        let lastSentInput: PlayerInput | null = null;
+        let lastGuestStatusText = ""; // czytnik ekranu dostaje tylko zmiany statusu od hosta
+
+        const isOnlineHost = () => net !== null && net.isHost && net.playerOrder !== null;
+        const isOnlineGuest = () => net !== null && !net.isHost && net.playerOrder !== null;
+
+        // --- Reset rundy (również na start) ---
+        const restartRound = () => {
+            resetRound(simulation, getArenaSize(gameConfig), createSeed());
+            roundId++;
+            recorder = createReplayRecorder(simulation, setups);
+            lastRenderedPositions = [];
+            intermissionSecondsLeft = null;
+            // rozłączeni goście odpadają od razu na starcie rundy
+            disconnectedSlots.forEach((slot) => eliminatePlayer(simulation, slot));
+            countdown = null;
+            paintBoardStart(simulation);
+            setHud({
+                players: toHudRows(simulation.players, match.totals),
+                statusText: roundStartStatusText(),
+                isRunning: false,
+                finishedMatch: null,
+                replay: null,
+                countdown: null,
+                isPaused: false,
+            });
+        };
 
-            paintBackground(widthCssPixels, heightCssPixels);
-            trailMask = createTrailMask(widthCssPixels, heightCssPixels);
+        const roundStartStatusText = () =>
+            match.rounds.length > 0 ? `Round ${match.rounds.length + 1} • ${START_STATUS_TEXT}` : START_STATUS_TEXT;
 
-            const radius = CONFIG.DOT.radiusPixels;
+        const toggleLiveMovement = () => {
+            toggleMovement(simulation);
+            recordToggle(recorder);
+            if (simulation.isMoving && simulation.tick === 0) {
+                audio.play("roundStart");
+                announce(`Round ${match.rounds.length + 1} started`);
+            }
+        };
 
-            // Losowe starty w bezpiecznym obszarze (nie na ramce)
-            const t = CONFIG.BORDER.thicknessPixels;
-            const inset = CONFIG.BORDER.insetPixels;
-            const minX = inset + t + radius;
-            const maxX = widthCssPixels - inset - t - radius;
-            const minY = inset + t + radius;
-            const maxY = heightCssPixels - inset - t - radius;
+        const restartMatch = () => {
+            match = newMatchFor();
+            restartRound();
+            // serwer (znów) zamyka pokój dla nowych graczy
+            if (isOnlineHost() && net?.playerOrder) net.client.send({type: "startMatch", playerOrder: net.playerOrder});
+        };
 
-            playerOne.positionPixels = {
-                x: minX + Math.random() * (maxX - minX),
-                y: minY + Math.random() * (maxY - minY),
-            };
-            playerTwo.positionPixels = {
-                x: minX + Math.random() * (maxX - minX),
-                y: minY + Math.random() * (maxY - minY),
-            };
+        // --- Historia gier (IndexedDB) – profil liczy się tylko dla człowieka przy tej klawiaturze ---
+        const historyProfileIds = () => setups.map((_, index) =>
+            net?.playerOrder || controllersRef.current[index].kind !== "human" ? null : seats[index] ?? null
+        );
 
-            // Reset stanów
-            playerOne.angleRadians = 0;
-            playerTwo.angleRadians = 0;
-            playerOne.recentPositions.length = 0;
-            playerTwo.recentPositions.length = 0;
-            playerOne.gapCorridor.length = 0;
-            playerTwo.gapCorridor.length = 0;
-            playerOne.isAlive = true;
-            playerTwo.isAlive = true;
-            playerOne.scoreSeconds = 0;
-            playerTwo.scoreSeconds = 0;
-            playerOne.gap = initGapState();
-            playerTwo.gap = initGapState();
-            playerOne.lastRenderedPosition = undefined;
-            playerTwo.lastRenderedPosition = undefined;
-
-            isMoving = false;
-            hasRoundEnded = false;
-
-            // Zaznacz startowe punkty i narysuj głowy
-            drawDot(canvasContext, playerOne.positionPixels, radius, playerOne.colorHex);
-            drawDot(canvasContext, playerTwo.positionPixels, radius, playerTwo.colorHex);
-            markVisitedCircle(
-                trailMask,
-                Math.round(playerOne.positionPixels.x),
-                Math.round(playerOne.positionPixels.y),
-                radius
-            );
-            markVisitedCircle(
-                trailMask,
-                Math.round(playerTwo.positionPixels.x),
-                Math.round(playerTwo.positionPixels.y),
-                radius
-            );
-            pushRecent(playerOne, {
-                x: Math.round(playerOne.positionPixels.x),
-                y: Math.round(playerOne.positionPixels.y),
+        const finishRound = () => {
+            lastReplay = recorder.replay;
+            const result = recordRound(match, simulation);
+            showRoundSummary(result, simulation.players);
+            announce(describeMatchWinner(CONFIG, match) ?? describeRoundWinner(CONFIG, match, result));
+            const profileIds = historyProfileIds();
+            void saveRoundRecord(createRoundRecord(matchId, result, simulation, profileIds, new Date()));
+            if (isMatchOver(match)) {
+                if (isOnlineHost()) net?.client.send({type: "endMatch"});
+                const colors = simulation.players.map((player) => player.colorHex);
+                void saveMatchRecord(createMatchRecord(matchId, matchStartedAt, match, colors, profileIds, new Date()));
+                audio.play("matchWin");
+                const finishedMatch = snapshotMatch(match);
+                setHud((h) => ({...h, isRunning: false, statusText: "Match over • Press R for a new match", finishedMatch}));
+                return;
+            }
+            intermissionSecondsLeft = CONFIG.MATCH.roundIntermissionSeconds;
+            const statusText = describeRoundEnd(match, result);
+            setHud((h) => ({...h, isRunning: false, statusText}));
+        };
+
+        // --- Zmiana liczby graczy (klawisze 2–6, tylko gdy runda stoi) – zaczyna nowy mecz ---
+        const startNewLineup = (newSetups: readonly PlayerSetup[]) => {
+            setups = newSetups;
+            simulation = createSimulation(gameConfig, getArenaSize(gameConfig), createSeed(), setups);
+            restartMatch();
+        };
+        const changePlayerCount = (count: number) => startNewLineup(rosterFor(count));
+
+        // --- Ustawienia (ekran S, tylko gdy runda stoi) – zapis, link w pasku adresu i nowy mecz ---
+        const applyGameSettings = (updated: GameSettings) => {
+            settings = updated;
+            gameConfig = applyMap(applySettings(CONFIG, settings), arenaMap);
+            setAccessibility(gameConfig.ACCESSIBILITY);
+            saveSettings(settings);
+            const query = settingsToQuery(settings, DEFAULT_SETTINGS);
+            window.history.replaceState(null, "", query ? `?${query}` : window.location.pathname);
+            startNewLineup(setups);
+        };
+        settingsActionsRef.current = {
+            apply: (updated) => {
+                setSettingsScreen(null);
+                if (!isRoundActive() && !playback && !isOnlineGuest()) applyGameSettings(updated);
+            },
+        };
+        const openSettings = () => setSettingsScreen(settings);
+
+        // --- Mapy (edytor L, tylko gdy runda stoi) – wybrana mapa zostaje zapamiętana i zaczyna nowy mecz ---
+        mapActionsRef.current = {
+            play: (map) => {
+                setMapEditor(null);
+                if (isRoundActive() || playback || isOnlineGuest()) return;
+                arenaMap = map;
+                saveActiveMap(map);
+                gameConfig = applyMap(applySettings(CONFIG, settings), arenaMap);
+                startNewLineup(setups);
+                const mapText = map ? `Map: ${map.name}` : "No map";
+                setHud((h) => ({...h, statusText: `${mapText} • ${START_STATUS_TEXT}`}));
+            },
+        };
+        // --- Profile i statystyki (ekran H, tylko gdy runda stoi) – nowe nazwy i kolory zaczynają nowy mecz ---
+        profileActionsRef.current = {
+            update: (updatedProfiles, updatedSeats) => {
+                profiles = updatedProfiles;
+                seats = updatedSeats;
+                saveProfiles(profiles);
+                saveSeats(seats);
+                setStatsScreen((current) => current && {...current, profiles, seats});
+                if (isRoundActive() || playback || net?.playerOrder) return;
+                const lineup = rosterFor(setups.length);
+                if (JSON.stringify(lineup) !== JSON.stringify(setups)) startNewLineup(lineup);
+            },
+        };
+        const openStats = () => setStatsScreen({profiles, seats, seatCount: setups.length});
+
+        const openMapEditor = () => {
+            const defaultSize = {widthPixels: CONFIG.ARENA.widthPixels, heightPixels: CONFIG.ARENA.heightPixels};
+            setMapEditor(arenaMap ?? createEmptyMap("Untitled", defaultSize));
+        };
+
+        // --- Tryb planszy (klawisz M, tylko gdy runda stoi) – skrót do jednego z ustawień ---
+        const toggleArenaMode = () => {
+            const mode: ArenaMode = settings.arenaMode === "wrap" ? "walled" : "wrap";
+            applyGameSettings({...settings, arenaMode: mode});
+            const modeText = mode === "wrap" ? "Wrap-around arena" : "Walled arena";
+            setHud((h) => ({...h, statusText: `${modeText} • ${START_STATUS_TEXT}`}));
+        };
+
+        // --- Odtwarzanie powtórki (runda na żywo stoi w tym czasie) ---
+        const replayStatus = (current: ReplayPlayback): ReplayStatus => ({
+            timeSeconds: getPlaybackTime(current),
+            durationSeconds: current.durationSeconds,
+            isPaused: isPlaybackPaused,
+            speed: playbackSpeed,
+        });
+
+        const startReplay = (replay: Replay) => {
+            playback = createReplayPlayback(replay);
+            playbackClockSeconds = 0;
+            isPlaybackPaused = false;
+            paintBoardStart(playback.simulation);
+            const status = replayStatus(playback);
+            setHud((h) => ({...h, statusText: "", isRunning: false, finishedMatch: null, replay: status}));
+        };
+
+        const seekReplay = (timeSeconds: number) => {
+            const current = playback;
+            if (!current) return;
+            const targetFrame = frameAtTime(current, timeSeconds);
+            if (targetFrame < current.frame) {
+                rewindPlayback(current);
+                paintBoardStart(current.simulation);
+            }
+            seekPlayback(current, targetFrame, (events) => {
+                lastRenderedPositions = renderFrame(boardContext, current.simulation, events, lastRenderedPositions);
+                recordCrashPixels(debug, current.simulation, events);
             });
-            pushRecent(playerTwo, {
-                x: Math.round(playerTwo.positionPixels.x),
-                y: Math.round(playerTwo.positionPixels.y),
+            playbackClockSeconds = getPlaybackTime(current);
+        };
+
+        // Po wyjściu z powtórki odrysowujemy wstrzymaną rundę na żywo z jej własnego nagrania
+        const closeReplay = () => {
+            playback = null;
+            const live = createReplayPlayback(recorder.replay);
+            paintBoardStart(live.simulation);
+            seekPlayback(live, live.replay.frameDurations.length, (events) => {
+                lastRenderedPositions = renderFrame(boardContext, live.simulation, events, lastRenderedPositions);
+                recordCrashPixels(debug, live.simulation, events);
             });
 
-            setHud({
-                playerOneScore: 0,
-                playerTwoScore: 0,
-                statusText: "Press SPACE to start",
-                isRunning: false,
+            const finishedMatch = isMatchOver(match) ? snapshotMatch(match) : null;
+            let statusText = "Paused (SPACE)";
+            if (finishedMatch) statusText = "Match over • Press R for a new match";
+            else if (simulation.hasRoundEnded) statusText = "Next round starting…";
+            else if (simulation.tick === 0) statusText = START_STATUS_TEXT;
+            setHud((h) => ({...h, replay: null, statusText, finishedMatch}));
+        };
+
+        const changePlaybackSpeed = (direction: -1 | 1) => {
+            const speeds = CONFIG.REPLAY.playbackSpeeds;
+            const index = speeds.indexOf(playbackSpeed);
+            playbackSpeed = speeds[Math.max(0, Math.min(speeds.length - 1, index + direction))];
+        };
+
+        replayActionsRef.current = {
+            load: startReplay,
+            togglePause: () => {
+                isPlaybackPaused = !isPlaybackPaused;
+            },
+            setSpeed: (speed) => {
+                playbackSpeed = speed;
+            },
+            seek: seekReplay,
+            close: closeReplay,
+        };
+
+        const handleReplayKeyDown = (key: string) => {
+            if (key === CONFIG.INPUT.toggleMovementKey) replayActionsRef.current?.togglePause();
+            if (key === "Escape") closeReplay();
+            if (key === "ArrowLeft") seekReplay(playbackClockSeconds - CONFIG.REPLAY.seekStepSeconds);
+            if (key === "ArrowRight") seekReplay(playbackClockSeconds + CONFIG.REPLAY.seekStepSeconds);
+            if (key === "Minus" || key === "NumpadSubtract") changePlaybackSpeed(-1);
+            if (key === "Equal" || key === "NumpadAdd") changePlaybackSpeed(1);
+        };
+
+        // --- Lobby i wiadomości z serwera ---
+        /** Przepisuje stan połączenia do lobby. Zamkniętego lobby nie otwiera, chyba że `open`. */
+        const publishLobby = (open = false) => {
+            if (!net) return;
+            const {isOpen, clientId, roomCode, isHost, members, errorText} = net;
+            const status: LobbyStatus = {
+                connection: isOpen ? "connected" : "connecting",
+                clientId,
+                roomCode,
+                isHost,
+                members,
+                errorText,
+                gameMode: settings.gameMode,
+            };
+            setLobby((current) => (current || open ? status : null));
+        };
+
+        const replaceControllers = (updated: PlayerController[]) => {
+            controllersRef.current = updated;
+            setControllers(updated);
+        };
+
+        /** Kończy grę sieciową i wraca do gry lokalnej (lobby zostaje otwarte z komunikatem). */
+        const leaveOnlineMatch = (errorText: string) => {
+            if (!net) return;
+            const wasInMatch = net.playerOrder !== null;
+            if (wasInMatch && net.isHost && net.roomCode) net.client.send({type: "endMatch"});
+            net.playerOrder = null;
+            net.errorText = errorText;
+            guestView = null;
+            pendingSnapshots = [];
+            remoteInputs.clear();
+            disconnectedSlots.clear();
+            if (wasInMatch) {
+                replaceControllers(CONFIG.PLAYERS.roster.map((): PlayerController => ({kind: "human"})));
+                startNewLineup(rosterFor(CONFIG.PLAYERS.defaultCount));
+            }
+            publishLobby(wasInMatch);
+        };
+
+        const handleMemberLeft = (clientId: string, name: string) => {
+            const slot = net?.playerOrder?.indexOf(clientId) ?? -1;
+            if (!isOnlineHost() || slot < 0) return;
+            disconnectedSlots.add(slot);
+            remoteInputs.delete(clientId);
+
+            const connectedCount = simulation.players.length - disconnectedSlots.size;
+            if (connectedCount < CONFIG.PLAYERS.minCount) {
+                leaveOnlineMatch(`${name} disconnected – not enough players left`);
+                return;
+            }
+            const events = eliminatePlayer(simulation, slot);
+            handleLiveEvents(events);
+            sendHostSnapshot(events);
+            setHud((h) => ({...h, statusText: `${name} disconnected`}));
+        };
+
+        const handleServerMessage = (message: ServerMessage) => {
+            if (!net) return;
+            switch (message.type) {
+                case "roomJoined":
+                    net.clientId = message.clientId;
+                    net.roomCode = message.roomCode;
+                    net.isHost = message.isHost;
+                    net.errorText = "";
+                    break;
+                case "roomState":
+                    net.members = message.members;
+                    break;
+                case "input": {
+                    // wejście gościa przychodzi z sieci – nie ufamy jego kształtowi (np. `input: null`)
+                    const input = message.input as Partial<PlayerInput> | null;
+                    remoteInputs.set(message.clientId, {turnLeft: !!input?.turnLeft, turnRight: !!input?.turnRight});
+                    return;
+                }
+                case "matchStarted": {
+                    if (net.isHost) return;
+                    const {playerOrder} = message;
+                    net.playerOrder = playerOrder;
+                    // u gościa „człowiekiem” jest tylko jego miejsce – reszta to inni gracze w sieci
+                    replaceControllers(CONFIG.PLAYERS.roster.map((_, index): PlayerController =>
+                        index < playerOrder.length && playerOrder[index] !== net?.clientId
+                            ? {kind: "remote", clientId: playerOrder[index]}
+                            : {kind: "human"}
+                    ));
+                    pendingSnapshots = [];
+                    guestView = null;
+                    setLobby(null);
+                    return;
+                }
+                case "snapshot":
+                    pendingSnapshots.push(message.snapshot);
+                    return;
+                case "memberLeft":
+                    handleMemberLeft(message.clientId, message.name);
+                    break;
+                case "roomClosed":
+                    net.roomCode = null;
+                    net.members = [];
+                    leaveOnlineMatch(message.reason);
+                    return;
+                case "error":
+                    net.errorText = message.message;
+                    break;
+            }
+            publishLobby();
+        };
+
+        const connectToServer = (url: string) => {
+            net?.client.close();
+            const client = connectNetClient(url, {
+                onOpen: () => {
+                    if (!net || net.client !== client) return;
+                    net.isOpen = true;
+                    publishLobby();
+                },
+                onMessage: handleServerMessage,
+                onClose: () => {
+                    if (!net || net.client !== client) return;
+                    const errorText = net.isOpen ? "Connection to the server was lost" : `Could not connect to ${url}`;
+                    net.roomCode = null;
+                    net.members = [];
+                    leaveOnlineMatch(errorText);
+                    net = null;
+                    setLobby((current) => current && {...current, connection: "disconnected", roomCode: null, members: [], errorText});
+                },
             });
+            net = {client, isOpen: false, clientId: null, roomCode: null, isHost: false, members: [], playerOrder: null, errorText: ""};
+            publishLobby();
+        };
+
+        /** Host: skład meczu = członkowie pokoju w kolejności dołączenia (host na pierwszym miejscu). */
+        const startOnlineMatch = () => {
+            if (!net || !net.isHost || net.members.length < CONFIG.PLAYERS.minCount) return;
+            const members = net.members.slice(0, CONFIG.PLAYERS.roster.length);
+            net.playerOrder = members.map((member) => member.clientId);
+            debug.isFrameStepping = false;
+            remoteInputs.clear();
+            disconnectedSlots.clear();
+            replaceControllers(members.map((member): PlayerController =>
+                member.clientId === net?.clientId ? {kind: "human"} : {kind: "remote", clientId: member.clientId}
+            ));
+            // `startMatch` wysyła `restartMatch` – tak samo jak przy każdym kolejnym meczu w tym składzie
+            startNewLineup(members.map((member, index) => ({...CONFIG.PLAYERS.roster[index], name: member.name})));
+            setLobby(null);
+        };
+
+        onlineActionsRef.current = {
+            open: () => {
+                if (net) publishLobby(true);
+                else setLobby({connection: "disconnected", clientId: null, roomCode: null, isHost: false, members: [], errorText: "", gameMode: settings.gameMode});
+            },
+            connect: connectToServer,
+            createRoom: (name) => net?.client.send({type: "createRoom", name}),
+            joinRoom: (roomCode, name) => net?.client.send({type: "joinRoom", roomCode, name}),
+            startMatch: startOnlineMatch,
+            // tryb wybiera host przed meczem – goście dostaną go z ustawieniami w snapshotach
+            selectGameMode: (gameMode) => {
+                if (!net?.isHost || net.playerOrder || isRoundActive() || playback) return;
+                applyGameSettings({...settings, gameMode});
+                publishLobby();
+            },
+            leave: () => {
+                net?.client.send({type: "leaveRoom"});
+                if (net) {
+                    net.roomCode = null;
+                    net.members = [];
+                }
+                leaveOnlineMatch("");
+            },
+            close: () => setLobby(null),
         };
 
         // --- Input ---
         const pressedKeys = new Set<string>();
 
+        const botStates: (BotState | undefined)[] = [];
+
+        // Boty, klawiatura i pady dają ten sam `PlayerInput`, więc można je dowolnie mieszać
+        const readInputs = (deltaTimeSeconds: number): PlayerInput[] => {
+            const gamepads = readGamepads();
+            return setups.map((_, index) => {
+                const controller = controllersRef.current[index];
+                if (controller.kind === "remote") {
+                    return remoteInputs.get(controller.clientId) ?? {turnLeft: false, turnRight: false};
+                }
+                if (controller.kind === "bot") {
+                    let bot = botStates[index];
+                    if (!bot || bot.difficulty !== controller.difficulty) {
+                        bot = botStates[index] = createBotState(controller.difficulty);
+                    }
+                    return updateBot(simulation, index, bot, deltaTimeSeconds);
+                }
+                const input = readPlayerInput(CONFIG, bindingsRef.current[index], pressedKeys, gamepads);
+                return withTouchInput(input, touchInputsRef.current[index]);
+            });
+        };
+
+        /** Koniec odliczania – runda rusza albo jest wznawiana. */
+        const startMovement = () => {
+            countdown = null;
+            toggleLiveMovement();
+            if (simulation.tick > 0) announce("Resumed");
+            setHud((h) => ({...h, isRunning: true, isPaused: false, countdown: null, statusText: ""}));
+        };
+
+        /** Start i wznowienie rundy idą przez odliczanie `MATCH.countdownSeconds` – gracze zdążą położyć palce na klawiszach. */
+        const startCountdown = () => {
+            countdown = createCountdown(CONFIG.MATCH.countdownSeconds);
+            if (!countdown) {
+                startMovement();
+                return;
+            }
+            const value = countdownNumber(countdown);
+            announce(simulation.tick === 0 ? `Round ${match.rounds.length + 1} starts in ${value}` : `Resuming in ${value}`);
+            setHud((h) => ({...h, isRunning: true, isPaused: false, countdown: value, statusText: ""}));
+        };
+
+        /** Zatrzymuje rundę albo przerywa odliczanie. W trakcie rundy otwiera menu pauzy. */
+        const pauseLive = () => {
+            if (simulation.isMoving) toggleLiveMovement();
+            countdown = null;
+            const isPaused = simulation.tick > 0;
+            if (isPaused) announce("Paused");
+            const statusText = isPaused ? "Paused (SPACE)" : roundStartStatusText();
+            setHud((h) => ({...h, isRunning: false, isPaused, countdown: null, statusText}));
+        };
+
+        // SPACE, ESC i R – wspólne dla klawiatury, dotyku i menu pauzy
+        const pressStartPause = () => {
+            if (simulation.hasRoundEnded) return; // po zakończeniu – tylko R
+            if (isRoundActive()) pauseLive();
+            else startCountdown();
+        };
+
+        /**
+         * Nowy mecz po rozstrzygniętym. Online skład bierzemy z pokoju od nowa – po `endMatch` ktoś mógł
+         * dołączyć albo wyjść, a stary `playerOrder` zostawiłby nowego gracza bez miejsca.
+         */
+        const startNextMatch = () => {
+            if (!isOnlineHost()) restartMatch();
+            else if ((net?.members.length ?? 0) < CONFIG.PLAYERS.minCount) leaveOnlineMatch("Not enough players left for a new match");
+            else startOnlineMatch();
+        };
+
+        const pressRestart = () => {
+            // w trakcie meczu restartuje rundę (bez punktów), po meczu zaczyna nowy
+            if (isMatchOver(match)) startNextMatch();
+            else restartRound();
+        };
+
+        const canControlRound = () => !playback && !isOnlineGuest();
+        touchActionsRef.current = {
+            tap: () => {
+                audio.unlock();
+                if (!canControlRound()) return;
+                if (isMatchOver(match)) startNextMatch();
+                else if (!isRoundActive()) pressStartPause();
+            },
+            pause: () => {
+                if (canControlRound() && isRoundActive()) pressStartPause();
+            },
+            restart: () => {
+                if (canControlRound()) pressRestart();
+            },
+            openSettings: () => {
+                if (canControlRound() && !isRoundActive()) openSettings();
+            },
+        };
+
+        pauseActionsRef.current = {
+            resume: () => {
+                if (canControlRound()) pressStartPause();
+            },
+            restart: () => {
+                if (canControlRound()) pressRestart();
+            },
+            openSettings: () => {
+                if (canControlRound() && !isRoundActive()) openSettings();
+            },
+            quit: () => {
+                if (canControlRound()) restartMatch();
+            },
+        };
+
         const handleKeyDown = (event: KeyboardEvent) => {
-            const key = event.key.toLowerCase();
+            const key = event.code;
+
+            // Przeglądarka pozwala włączyć dźwięk dopiero po geście – pierwsze SPACE go odblokowuje
+            if (key === CONFIG.INPUT.toggleMovementKey) audio.unlock();
+            if (key === CONFIG.INPUT.muteKey) {
+                event.preventDefault();
+                updateAudioSettings({...audioSettingsRef.current, muted: !audioSettingsRef.current.muted});
+                return;
+            }
+            if (key === CONFIG.INPUT.debugOverlayKey) {
+                event.preventDefault();
+                debug.isVisible = !debug.isVisible;
+                debug.isFrameStepping = false;
+                return;
+            }
+
+            if (playback) {
+                event.preventDefault();
+                handleReplayKeyDown(key);
+                return;
+            }
+
+            // Gość w sieci tylko skręca – start, pauza i restart należą do hosta
+            if (isOnlineGuest()) {
+                if (key === CONFIG.INPUT.onlineLobbyKey) onlineActionsRef.current?.open();
+                pressedKeys.add(key);
+                return;
+            }
+
+            // Krok po kroku tylko przy podglądzie i bez gry sieciowej – goście by na nas czekali
+            if (debug.isVisible && !net?.playerOrder && key === CONFIG.INPUT.frameStepModeKey) {
+                event.preventDefault();
+                debug.isFrameStepping = !debug.isFrameStepping;
+                debug.pendingFrameSteps = 0;
+                return;
+            }
+            if (debug.isFrameStepping && key === CONFIG.INPUT.frameStepKey) {
+                event.preventDefault();
+                debug.pendingFrameSteps++;
+                return;
+            }
 
             if (key === CONFIG.INPUT.toggleMovementKey) {
                 event.preventDefault();
-                if (hasRoundEnded) return; // po zakończeniu – tylko R
-                isMoving = !isMoving;
-                setHud((h) => ({...h, isRunning: isMoving, statusText: isMoving ? "" : "Paused (SPACE)"}));
+                pressStartPause();
+                return;
+            }
+
+            // ESC tylko pauzuje i wznawia – nie zaczyna nowej rundy
+            if (key === CONFIG.INPUT.pauseKey && (isRoundActive() || simulation.tick > 0)) {
+                event.preventDefault();
+                pressStartPause();
+                return;
+            }
+
+            if (!isRoundActive() && key === CONFIG.INPUT.onlineLobbyKey) {
+                event.preventDefault();
+                onlineActionsRef.current?.open();
+                return;
+            }
+
+            if (!isRoundActive() && key === CONFIG.INPUT.controlsKey) {
+                event.preventDefault();
+                setControlsOpen(true);
+                return;
+            }
+
+            if (!isRoundActive() && key === CONFIG.INPUT.settingsKey) {
+                event.preventDefault();
+                openSettings();
+                return;
+            }
+
+            if (!isRoundActive() && key === CONFIG.INPUT.statsKey) {
+                event.preventDefault();
+                openStats();
+                return;
+            }
+
+            if (!isRoundActive() && key === CONFIG.INPUT.mapEditorKey) {
+                event.preventDefault();
+                openMapEditor();
+                return;
+            }
+
+            if (!isRoundActive() && key === CONFIG.INPUT.arenaModeKey) {
+                event.preventDefault();
+                toggleArenaMode();
                 return;
             }
 
             if (key === CONFIG.INPUT.restartKey) {
                 event.preventDefault();
-                resetRound(); // zawsze restartuje rundę
+                pressRestart();
+                return;
+            }
+
+            // Powtórki – tylko gdy runda stoi
+            if (!isRoundActive() && key === CONFIG.INPUT.exportReplayKey && lastReplay) {
+                event.preventDefault();
+                downloadTextFile(`kurve-replay-${lastReplay.recordedAt.replace(/[:.]/g, "-")}.json`, serializeReplay(lastReplay));
+                return;
+            }
+            if (!isRoundActive() && key === CONFIG.INPUT.loadReplayKey) {
+                event.preventDefault();
+                fileInputRef.current?.click();
+                return;
+            }
+            if (!isRoundActive() && key === CONFIG.INPUT.watchReplayKey && lastReplay) {
+                event.preventDefault();
+                startReplay(lastReplay);
+                return;
+            }
+
+            const requestedCount = playerCountFromKeyCode(key);
+            if (
+                !isRoundActive() &&
+                !isOnlineHost() &&
+                requestedCount !== null &&
+                requestedCount >= CONFIG.PLAYERS.minCount &&
+                requestedCount <= CONFIG.PLAYERS.roster.length
+            ) {
+                event.preventDefault();
+                changePlayerCount(requestedCount);
                 return;
             }
 
@@ -441,7 +1156,7 @@ export default function Moving() {
         };
 
         const handleKeyUp = (event: KeyboardEvent) => {
-            const key = event.key.toLowerCase();
+            const key = event.code;
             if (key === CONFIG.INPUT.toggleMovementKey) {
                 event.preventDefault();
                 return;
@@ -449,149 +1164,157 @@ export default function Moving() {
             pressedKeys.delete(key);
         };
 
+        // Bez fokusu nie przychodzi `keyup` – trzymane klawisze „zawisłyby”, a runda toczyła się bez graczy
+        const pauseOnFocusLoss = () => {
+            pressedKeys.clear();
+            if (canControlRound() && isRoundActive()) pauseLive();
+        };
+        const handleVisibilityChange = () => {
+            if (document.hidden) pauseOnFocusLoss();
+        };
+
+        // Runda trwa dalej – ekran tylko odrysowuje bufor planszy w nowej skali
+        const handleResize = () => {
+            fitCanvasToWindow();
+            presentBoard();
+        };
+
         // Init + eventy
-        resetRound();
+        restartRound();
         window.addEventListener("keydown", handleKeyDown);
         window.addEventListener("keyup", handleKeyUp);
-        window.addEventListener("resize", resetRound);
+        window.addEventListener("resize", handleResize);
+        window.addEventListener("blur", pauseOnFocusLoss);
+        document.addEventListener("visibilitychange", handleVisibilityChange);
 
         // --- Pętla gry ---
         let lastTimestampMs = performance.now();
+        const stepClock = createStepClock();
+
+        const stepReplay = (current: ReplayPlayback, deltaTimeSeconds: number) => {
+            if (!isPlaybackPaused) playbackClockSeconds += deltaTimeSeconds * playbackSpeed;
+            const targetFrame = frameAtTime(current, playbackClockSeconds);
+            while (current.frame < targetFrame) {
+                const events = stepPlayback(current) ?? [];
+                lastRenderedPositions = renderFrame(boardContext, current.simulation, events, lastRenderedPositions);
+                recordCrashPixels(debug, current.simulation, events);
+                announceEvents(events, current.simulation.players);
+            }
+            if (isPlaybackFinished(current)) playbackClockSeconds = current.durationSeconds;
 
-        const step = (nowMs: number) => {
-            const deltaTimeSeconds = (nowMs - lastTimestampMs) / 1000;
-            lastTimestampMs = nowMs;
+            const players = toHudRows(current.simulation.players, []);
+            const status = replayStatus(current);
+            setHud((h) => ({...h, players, replay: status}));
+        };
 
-            // Obrót (działa zawsze)
-            if (pressedKeys.has(CONFIG.INPUT.playerOneTurnLeftKey)) {
-                playerOne.angleRadians -= CONFIG.PHYSICS.turnSpeedRadiansPerSecond * deltaTimeSeconds;
-            }
-            if (pressedKeys.has(CONFIG.INPUT.playerOneTurnRightKey)) {
-                playerOne.angleRadians += CONFIG.PHYSICS.turnSpeedRadiansPerSecond * deltaTimeSeconds;
-            }
-            if (pressedKeys.has(CONFIG.INPUT.playerTwoTurnLeftKey)) {
-                playerTwo.angleRadians -= CONFIG.PHYSICS.turnSpeedRadiansPerSecond * deltaTimeSeconds;
-            }
-            if (pressedKeys.has(CONFIG.INPUT.playerTwoTurnRightKey)) {
-                playerTwo.angleRadians += CONFIG.PHYSICS.turnSpeedRadiansPerSecond * deltaTimeSeconds;
-            }
-
-            if (isMoving && !hasRoundEnded) {
-                const radius = CONFIG.DOT.radiusPixels;
-                const w = canvasElement.clientWidth;
-                const h = canvasElement.clientHeight;
-
-                // Zegary gapów (per żyjący gracz)
-                if (playerOne.isAlive) updateGap(playerOne.gap, deltaTimeSeconds);
-                if (playerTwo.isAlive) updateGap(playerTwo.gap, deltaTimeSeconds);
-
-                const advance = (angle: number) => ({
-                    dx: Math.cos(angle) * CONFIG.PHYSICS.forwardSpeedPixelsPerSecond * deltaTimeSeconds,
-                    dy: Math.sin(angle) * CONFIG.PHYSICS.forwardSpeedPixelsPerSecond * deltaTimeSeconds,
-                });
-
-                // Gracz 1
-                if (playerOne.isAlive) {
-                    const a1 = advance(playerOne.angleRadians);
-                    const nextX = playerOne.positionPixels.x + a1.dx;
-                    const nextY = playerOne.positionPixels.y + a1.dy;
-
-                    // 🔴 kolizja z ramką?
-                    if (hitsBorder(nextX, nextY, w, h, radius)) {
-                        playerOne.isAlive = false;
-                    } else {
-                        // kolizja ze śladem (ignorujemy świeży ogon i korytarze)
-                        const ignorePointsP1 = playerOne.recentPositions
-                            .concat(playerOne.gapCorridor)
-                            .concat(playerTwo.gapCorridor);
-
-                        const collides = collidesWithTrailExcludingPoints(
-                            trailMask,
-                            {x: Math.round(nextX), y: Math.round(nextY)},
-                            radius,
-                            ignorePointsP1,
-                            Math.max(CONFIG.TRAIL.extraIgnoreMarginPixels, CONFIG.GAPS.corridorExtraMarginPixels)
-                        );
-
-                        if (collides) {
-                            playerOne.isAlive = false;
-                        } else {
-                            playerOne.positionPixels = {x: nextX, y: nextY};
-
-                            if (!playerOne.gap.isActive) {
-                                markVisitedCircle(trailMask, Math.round(nextX), Math.round(nextY), radius);
-                                pushRecent(playerOne, {x: Math.round(nextX), y: Math.round(nextY)});
-                            } else {
-                                pushGapCorridor(playerOne, {x: Math.round(nextX), y: Math.round(nextY)});
-                            }
-
-                            playerOne.scoreSeconds += deltaTimeSeconds;
-                        }
-                    }
-                }
+        /** Gość: wysyła własne skręty (klawisze P1) i rysuje to, co przysłał host. */
+        const stepGuest = () => {
+            const ownSlot = net?.clientId ? net.playerOrder?.indexOf(net.clientId) ?? -1 : -1;
+            const keyboardInput = readPlayerInput(CONFIG, bindingsRef.current[0], pressedKeys, readGamepads());
+            const input = withTouchInput(keyboardInput, touchInputsRef.current[ownSlot]);
+            if (!lastSentInput || lastSentInput.turnLeft !== input.turnLeft || lastSentInput.turnRight !== input.turnRight) {
+                net?.client.send({type: "input", input});
+                lastSentInput = input;
+            }
 
-                // Gracz 2
-                if (playerTwo.isAlive) {
-                    const a2 = advance(playerTwo.angleRadians);
-                    const nextX = playerTwo.positionPixels.x + a2.dx;
-                    const nextY = playerTwo.positionPixels.y + a2.dy;
-
-                    if (hitsBorder(nextX, nextY, w, h, radius)) {
-                        playerTwo.isAlive = false;
-                    } else {
-                        const ignorePointsP2 = playerTwo.recentPositions
-                            .concat(playerTwo.gapCorridor)
-                            .concat(playerOne.gapCorridor);
-
-                        const collides = collidesWithTrailExcludingPoints(
-                            trailMask,
-                            {x: Math.round(nextX), y: Math.round(nextY)},
-                            radius,
-                            ignorePointsP2,
-                            Math.max(CONFIG.TRAIL.extraIgnoreMarginPixels, CONFIG.GAPS.corridorExtraMarginPixels)
-                        );
-
-                        if (collides) {
-                            playerTwo.isAlive = false;
-                        } else {
-                            playerTwo.positionPixels = {x: nextX, y: nextY};
-
-                            if (!playerTwo.gap.isActive) {
-                                markVisitedCircle(trailMask, Math.round(nextX), Math.round(nextY), radius);
-                                pushRecent(playerTwo, {x: Math.round(nextX), y: Math.round(nextY)});
-                            } else {
-                                pushGapCorridor(playerTwo, {x: Math.round(nextX), y: Math.round(nextY)});
-                            }
-
-                            playerTwo.scoreSeconds += deltaTimeSeconds;
-                        }
-                    }
+            for (const snapshot of pendingSnapshots) {
+                if (!guestView || applySnapshot(guestView, snapshot)) {
+                    guestView = guestView ?? createGuestView(gameConfig, snapshot);
+                    paintBoardStart(guestView);
                 }
+                lastRenderedPositions = renderFrame(boardContext, guestView, snapshot.events, lastRenderedPositions);
+                announceEvents(snapshot.events, guestView.players);
+            }
+            pendingSnapshots = [];
+
+            const latest = guestView?.latest;
+            if (!latest) return;
+            const players = toHudRows(latest.players, latest.matchTotals);
+            const statusText = describeGuestStatus(latest);
+            const spokenStatus = latest.countdownNumber !== null ? "Get ready" : statusText;
+            if (spokenStatus && spokenStatus !== lastGuestStatusText) announce(spokenStatus);
+            lastGuestStatusText = spokenStatus;
+            const finishedMatch = latest.finishedMatch;
+            const countdownValue = latest.countdownNumber;
+            setHud((h) => ({...h, players, statusText, isRunning: latest.isMoving, finishedMatch, countdown: countdownValue}));
+        };
+
+        /** Dźwięki i kill feed dla zdarzeń kroku (na żywo, z powtórki albo od hosta). */
+        const announceEvents = (events: readonly SimulationEvent[], players: readonly FeedPlayer[]) => {
+            soundsForEvents(events, players).forEach((sound) => audio.play(sound));
+            showDeaths(events, players);
+            if (events.some((event) => event.type === "suddenDeathWarning")) announce("Sudden death: the arena is closing in");
+        };
+
+        const handleLiveEvents = (events: SimulationEvent[]) => {
+            lastRenderedPositions = renderFrame(boardContext, simulation, events, lastRenderedPositions);
+            recordCrashPixels(debug, simulation, events);
+            announceEvents(events, simulation.players);
+            if (events.some((event) => event.type === "roundEnded")) finishRound();
+        };
 
-                // Koniec rundy jeśli obaj martwi
-                if (!playerOne.isAlive && !playerTwo.isAlive) {
-                    isMoving = false;
-                    hasRoundEnded = true;
-                    setHud((h) => ({
-                        ...h,
-                        isRunning: false,
-                        statusText: `Both crashed • Press R to restart`,
-                    }));
+        /** Host: jeden snapshot na klatkę, ze zdarzeniami ze wszystkich jej kroków. */
+        const sendHostSnapshot = (events: SimulationEvent[]) => {
+            if (!isOnlineHost()) return;
+            // Ustawienia jadą tylko w pierwszym stanie rundy – goście rysują wg nich całą rundę
+            const includeSettings = roundId !== lastSettingsRoundId;
+            lastSettingsRoundId = roundId;
+            net?.client.send({type: "snapshot", snapshot: buildSnapshot(simulation, roundId, events, match, includeSettings, countdown && countdownNumber(countdown))});
+        };
+
+        /**
+         * Runda na żywo: tyle stałych kroków fizyki, ile należy się za czas tej klatki
+         * (w trybie krok po kroku – tyle, ile razy naciśnięto klawisz następnego kroku).
+         */
+        const stepLive = (frameSeconds: number) => {
+            const {fixedStepSeconds, maxStepsPerFrame} = CONFIG.PHYSICS;
+            // odliczanie idzie w czasie rzeczywistym także krok po kroku – to nie część symulacji
+            if (countdown && advanceCountdown(countdown, frameSeconds)) startMovement();
+            const stepCount = debug.isFrameStepping
+                ? takeFrameSteps(debug)
+                : takeFixedSteps(stepClock, frameSeconds, fixedStepSeconds, maxStepsPerFrame);
+            const frameEvents: SimulationEvent[] = [];
+            for (let i = 0; i < stepCount; i++) {
+                const inputs = readInputs(fixedStepSeconds);
+                recordFrame(recorder, inputs, fixedStepSeconds);
+                const events = stepSimulation(simulation, inputs, fixedStepSeconds);
+                handleLiveEvents(events);
+                frameEvents.push(...events);
+
+                // Automatyczne przejście do kolejnej rundy po krótkiej przerwie (nowa runda zaczyna się od następnej klatki)
+                if (intermissionSecondsLeft !== null) {
+                    intermissionSecondsLeft -= fixedStepSeconds;
+                    if (intermissionSecondsLeft <= 0) {
+                        restartRound();
+                        // bez fokusu nikt nie patrzy – kolejna runda czeka na SPACE
+                        if (document.hasFocus()) startCountdown();
+                        frameEvents.length = 0; // zdarzenia starej rundy nie trafiają do snapshotu nowej
+                        break;
+                    }
                 }
             }
-
-            // Rysowanie głów (w gapie wycieramy poprzednią kropkę, więc ślad się nie tworzy)
-            const radius = CONFIG.DOT.radiusPixels;
-            drawHeadWithGap(canvasContext, playerOne, radius);
-            drawHeadWithGap(canvasContext, playerTwo, radius);
+            if (stepCount > 0) sendHostSnapshot(frameEvents);
 
             // HUD
+            const players = toHudRows(simulation.players, match.totals);
+            const countdownValue = countdown ? countdownNumber(countdown) : null;
             setHud((h) => ({
-                playerOneScore: playerOne.scoreSeconds,
-                playerTwoScore: playerTwo.scoreSeconds,
-                statusText: h.statusText,
-                isRunning: isMoving && !hasRoundEnded,
+                ...h,
+                players,
+                isRunning: isRunning(simulation) || countdownValue !== null,
+                countdown: countdownValue,
             }));
+        };
+
+        const step = (nowMs: number) => {
+            const deltaTimeSeconds = (nowMs - lastTimestampMs) / 1000;
+            lastTimestampMs = nowMs;
+            recordFrameTime(debug, deltaTimeSeconds);
+
+            if (playback) stepReplay(playback, deltaTimeSeconds);
+            else if (isOnlineGuest()) stepGuest();
+            else stepLive(deltaTimeSeconds);
+            presentBoard();
 
             animationFrameRef.current = requestAnimationFrame(step);
         };
@@ -601,21 +1324,56 @@ export default function Moving() {
         return () => {
             window.removeEventListener("keydown", handleKeyDown);
             window.removeEventListener("keyup", handleKeyUp);
-            window.removeEventListener("resize", resetRound);
+            window.removeEventListener("resize", handleResize);
+            window.removeEventListener("blur", pauseOnFocusLoss);
+            document.removeEventListener("visibilitychange", handleVisibilityChange);
+            replayActionsRef.current = null;
+            onlineActionsRef.current = null;
+            touchActionsRef.current = null;
+            pauseActionsRef.current = null;
+            settingsActionsRef.current = null;
+            mapActionsRef.current = null;
+            profileActionsRef.current = null;
+            audio.close();
+            audioRef.current = null;
+            killFeedTimers.forEach((timer) => window.clearTimeout(timer));
+            net?.client.close();
             if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
         };
-    }, []);
+    }, [updateAudioSettings]);
 
     // Canvas + HUD
     return (
         <>
             <canvas ref={canvasRef} style={{position: "fixed", inset: 0}}/>
+            <AudioControls settings={audioSettings} onChange={updateAudioSettings}/>
+            <KillFeed title={killFeed.title} entries={killFeed.entries} colors={hudColors} reducedMotion={accessibility.reducedMotion}/>
+            <div role="status" aria-live="polite" aria-atomic="true" style={VISUALLY_HIDDEN_STYLE}>
+                <span key={announcement.id}>{announcement.text}</span>
+            </div>
+            {isTouchMode && !hud.replay && (
+                <TouchControls
+                    players={hud.players
+                        .map((player, playerIndex) => ({playerIndex, colorHex: player.colorHex}))
+                        .filter(({playerIndex}) => controllers[playerIndex].kind === "human")}
+                    playerCount={hud.players.length}
+                    isRunning={hud.isRunning}
+                    onInputsChange={updateTouchInputs}
+                    onTap={() => touchActionsRef.current?.tap()}
+                    onPause={() => touchActionsRef.current?.pause()}
+                    onRestart={() => touchActionsRef.current?.restart()}
+                    onSettings={() => touchActionsRef.current?.openSettings()}
+                />
+            )}
             <div
+                role="group"
+                aria-label="Scores"
                 style={{
                     position: "fixed",
                     left: 12,
                     top: 12,
-                    color: CONFIG.COLORS.hudTextHex,
+                    color: hudColors.hudTextHex,
+                    background: accessibility.highContrast ? HIGH_CONTRAST_PANEL_BACKGROUND : undefined,
                     fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
                     fontSize: 14,
                     lineHeight: 1.3,
@@ -623,14 +1381,42 @@ export default function Moving() {
                     pointerEvents: "none",
                 }}
             >
-                <div style={{marginBottom: 4}}>
-                    <span style={{color: CONFIG.COLORS.playerOneHex, fontWeight: 600}}>Player 1</span>{" "}
-                    • <span>{hud.playerOneScore.toFixed(1)}s</span>
-                </div>
-                <div>
-                    <span style={{color: CONFIG.COLORS.playerTwoHex, fontWeight: 600}}>Player 2</span>{" "}
-                    • <span>{hud.playerTwoScore.toFixed(1)}s</span>
-                </div>
+                {groupHudRowsByTeam(hud.players).map(({teamIndex, playerIndexes}) => (
+                    <div key={teamIndex ?? "players"} style={{marginBottom: teamIndex === null ? 0 : 8}}>
+                        {teamIndex !== null && (
+                            <div style={{color: hud.players[playerIndexes[0]].colorHex, fontWeight: 700, marginBottom: 2}}>
+                                {teamName(CONFIG, teamIndex)} • {hud.players[playerIndexes[0]].matchPoints} pts
+                            </div>
+                        )}
+                        {playerIndexes.map((index) => {
+                            const player = hud.players[index];
+                            return (
+                                <div
+                                    key={index}
+                                    title="Click to switch between human and bot"
+                                    onClick={() => cycleController(index)}
+                                    style={{
+                                        marginBottom: index < hud.players.length - 1 ? 4 : 0,
+                                        marginLeft: teamIndex === null ? 0 : 12,
+                                        opacity: player.isAlive ? 1 : 0.5,
+                                        pointerEvents: "auto",
+                                        cursor: "pointer",
+                                    }}
+                                >
+                                    <span style={{color: player.colorHex, fontWeight: 600}}>{player.name}</span>{" "}
+                                    {controllers[index].kind !== "human" && (
+                                        <span style={{color: hudColors.hudDimHex}}>({describeController(controllers[index])}) </span>
+                                    )}
+                                    {teamIndex === null && <>• <span>{player.matchPoints} pts</span>{" "}</>}
+                                    • <span>{player.scoreSeconds.toFixed(1)}s</span>
+                                    {player.effects.length > 0 && (
+                                        <span style={{color: hudColors.hudDimHex}}> • {player.effects.join("  ")}</span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
             </div>
 
             <div
@@ -638,7 +1424,8 @@ export default function Moving() {
                     position: "fixed",
                     bottom: 14,
                     left: 12,
-                    color: CONFIG.COLORS.hudDimHex,
+                    color: hudColors.hudDimHex,
+                    background: accessibility.highContrast ? HIGH_CONTRAST_PANEL_BACKGROUND : undefined,
                     fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
                     fontSize: 13,
                     userSelect: "none",
@@ -646,11 +1433,120 @@ export default function Moving() {
                 }}
             >
                 {hud.statusText ? (
-                    <div style={{color: CONFIG.COLORS.hudTextHex}}>{hud.statusText}</div>
+                    <div style={{color: hudColors.hudTextHex}}>
+                        {isTouchMode ? toTouchStatusText(hud.statusText) : hud.statusText}
+                    </div>
                 ) : (
-                    <div>Controls: P1 A/D • P2 J/K • SPACE start/pause • R restart</div>
+                    <div>
+                        Controls:{" "}
+                        {CONFIG.PLAYERS.roster.slice(0, hud.players.length).map((setup, index) =>
+                            controllers[index].kind === "human" && (
+                                <span key={setup.name}>
+                                    P{index + 1} {describeBinding(bindings[index].turnLeft)}/{describeBinding(bindings[index].turnRight)} •{" "}
+                                </span>
+                            )
+                        )}
+                        SPACE start/pause • R restart round • E/O/P export/open/watch replay • {CONFIG.PLAYERS.minCount}–{CONFIG.PLAYERS.roster.length} players
+                        {" "}• click a name for bots • S settings • M arena • L maps • H stats • U sound • C controls • N online
+                    </div>
                 )}
             </div>
+
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                style={{display: "none"}}
+                onChange={async (event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (!file) return;
+                    try {
+                        replayActionsRef.current?.load(parseReplay(await file.text()));
+                    } catch (error) {
+                        const message = error instanceof Error ? error.message : String(error);
+                        setHud((h) => ({...h, statusText: `Could not load replay: ${message}`}));
+                    }
+                }}
+            />
+
+            {hud.replay && (
+                <ReplayControls
+                    status={hud.replay}
+                    onTogglePause={() => replayActionsRef.current?.togglePause()}
+                    onSpeedChange={(speed) => replayActionsRef.current?.setSpeed(speed)}
+                    onSeek={(timeSeconds) => replayActionsRef.current?.seek(timeSeconds)}
+                    onClose={() => replayActionsRef.current?.close()}
+                />
+            )}
+
+            {hud.countdown !== null && <CountdownOverlay value={hud.countdown} colors={hudColors}/>}
+
+            {hud.isPaused && !hud.replay && (
+                <PauseOverlay
+                    colors={hudColors}
+                    onResume={() => pauseActionsRef.current?.resume()}
+                    onRestart={() => pauseActionsRef.current?.restart()}
+                    onSettings={() => pauseActionsRef.current?.openSettings()}
+                    onQuit={() => pauseActionsRef.current?.quit()}
+                />
+            )}
+
+            {hud.finishedMatch && (
+                <MatchResults
+                    match={hud.finishedMatch}
+                    playerColors={hud.players.map((player) => player.colorHex)}
+                />
+            )}
+
+            {isControlsOpen && (
+                <ControlsScreen
+                    players={CONFIG.PLAYERS.roster.slice(0, hud.players.length)}
+                    bindings={bindings}
+                    onChange={updateBindings}
+                    onClose={() => setControlsOpen(false)}
+                />
+            )}
+
+            {settingsScreen && (
+                <SettingsScreen
+                    settings={settingsScreen}
+                    defaults={DEFAULT_SETTINGS}
+                    onApply={(updated) => settingsActionsRef.current?.apply(updated)}
+                    onClose={closeSettings}
+                />
+            )}
+
+            {mapEditor && (
+                <MapEditor
+                    map={mapEditor}
+                    onPlay={(map) => mapActionsRef.current?.play(map)}
+                    onClose={closeMapEditor}
+                />
+            )}
+
+            {statsScreen && (
+                <StatsScreen
+                    profiles={statsScreen.profiles}
+                    seats={statsScreen.seats}
+                    seatCount={statsScreen.seatCount}
+                    onChange={(updatedProfiles, updatedSeats) => profileActionsRef.current?.update(updatedProfiles, updatedSeats)}
+                    onClose={closeStats}
+                />
+            )}
+
+            {lobby && (
+                <Lobby
+                    status={lobby}
+                    onConnect={(url) => onlineActionsRef.current?.connect(url)}
+                    onCreateRoom={(name) => onlineActionsRef.current?.createRoom(name)}
+                    onJoinRoom={(roomCode, name) => onlineActionsRef.current?.joinRoom(roomCode, name)}
+                    onStartMatch={() => onlineActionsRef.current?.startMatch()}
+                    onGameModeChange={(gameMode) => onlineActionsRef.current?.selectGameMode(gameMode)}
+                    onLeave={() => onlineActionsRef.current?.leave()}
+                    onClose={() => onlineActionsRef.current?.close()}
+                />
+            )}
         </>
     );
 }
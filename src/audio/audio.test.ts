@@ -0,0 +1,86 @@
+import {CONFIG} from "../game/config";
+import {createAudioSystem} from "./audio";
+
+const SETTINGS = {volume: 0.5, muted: false, musicEnabled: false};
+
+/** Minimalny `AudioContext` – liczy utworzone oscylatory i pamięta głośność ogólną. */
+class FakeAudioContext {
+    static instances: FakeAudioContext[] = [];
+    state = "suspended";
+    currentTime = 0;
+    destination = {};
+    oscillatorCount = 0;
+    gains: { value: number }[] = [];
+
+    constructor() {
+        FakeAudioContext.instances.push(this);
+    }
+
+    private param(target: { value: number } = {value: 0}) {
+        return {
+            setValueAtTime: (value: number) => {
+                target.value = value;
+            },
+            linearRampToValueAtTime: () => undefined,
+            exponentialRampToValueAtTime: () => undefined,
+        };
+    }
+
+    createGain() {
+        const value = {value: 1};
+        this.gains.push(value);
+        const node = {gain: this.param(value), connect: (next: unknown) => next};
+        return node;
+    }
+
+    createOscillator() {
+        this.oscillatorCount++;
+        return {type: "sine", frequency: this.param(), connect: (next: unknown) => next, start: () => undefined, stop: () => undefined};
+    }
+
+    resume() {
+        this.state = "running";
+        return Promise.resolve();
+    }
+
+    close() {
+        return Promise.resolve();
+    }
+}
+
+afterEach(() => {
+    delete (window as unknown as { AudioContext?: unknown }).AudioContext;
+    FakeAudioContext.instances = [];
+});
+
+test("without Web Audio everything is silently skipped", () => {
+    const audio = createAudioSystem(CONFIG, SETTINGS);
+    expect(() => {
+        audio.unlock();
+        audio.play("roundStart");
+        audio.apply({...SETTINGS, musicEnabled: true});
+        audio.close();
+    }).not.toThrow();
+});
+
+test("sounds wait for the unlock and respect mute and volume", () => {
+    (window as unknown as { AudioContext: unknown }).AudioContext = FakeAudioContext;
+    const audio = createAudioSystem(CONFIG, SETTINGS);
+
+    audio.play("pickup");
+    expect(FakeAudioContext.instances).toHaveLength(0);
+
+    audio.unlock();
+    const [context] = FakeAudioContext.instances;
+    expect(context.state).toBe("running");
+    expect(context.gains[0].value).toBe(0.5);
+
+    audio.play("pickup");
+    expect(context.oscillatorCount).toBe(2);
+
+    audio.apply({...SETTINGS, muted: true});
+    audio.play("pickup");
+    expect(context.oscillatorCount).toBe(2);
+    expect(context.gains[0].value).toBe(0);
+    audio.close();
+});
@@ -0,0 +1,127 @@
+import {GameConfig} from "../game/config";
+import {AudioSettings, effectiveVolume} from "./audioSettings";
+import {MUSIC_LOOP, MUSIC_LOOP_SECONDS, SOUND_RECIPES, SoundName, ToneNote} from "./sounds";
+
+/* =========================================
+ * Dźwięk przez Web Audio API
+ * =========================================
+ * Przeglądarki pozwalają zagrać dopiero po geście użytkownika, więc `AudioContext` powstaje
+ * w `unlock()` (pierwsze SPACE albo stuknięcie). Do tego czasu – i tam, gdzie Web Audio nie ma,
+ * np. w testach (jsdom) – wszystkie metody po cichu nic nie robią.
+ */
+export type AudioSystem = {
+    unlock: () => void;
+    play: (sound: SoundName) => void;
+    apply: (settings: AudioSettings) => void;
+    close: () => void;
+};
+
+type AudioContextClass = new () => AudioContext;
+
+const MUSIC_SCHEDULE_INTERVAL_MS = 250;
+const MUSIC_LOOKAHEAD_SECONDS = 1; // tyle muzyki planujemy naprzód – zacięcia karty nie przerywają pętli
+const SILENT_GAIN = 0.0001;        // rampa wykładnicza nie może dojść do zera
+
+function getAudioContextClass(): AudioContextClass | null {
+    if (typeof window === "undefined") return null;
+    const candidate = window as unknown as { AudioContext?: AudioContextClass; webkitAudioContext?: AudioContextClass };
+    return candidate.AudioContext ?? candidate.webkitAudioContext ?? null;
+}
+
+/** Planuje tony w `context` od chwili `startAt` (czas kontekstu), podłączone do `destination`. */
+function scheduleNotes(context: AudioContext, destination: AudioNode, notes: readonly ToneNote[], startAt: number): void {
+    for (const note of notes) {
+        const start = startAt + note.startSeconds;
+        const end = start + note.durationSeconds;
+        const oscillator = context.createOscillator();
+        const envelope = context.createGain();
+        oscillator.type = note.wave;
+        oscillator.frequency.setValueAtTime(note.frequencyHz, start);
+        if (note.endFrequencyHz) oscillator.frequency.exponentialRampToValueAtTime(note.endFrequencyHz, end);
+        envelope.gain.setValueAtTime(SILENT_GAIN, start);
+        envelope.gain.linearRampToValueAtTime(note.gain, start + 0.01);
+        envelope.gain.exponentialRampToValueAtTime(SILENT_GAIN, end);
+        oscillator.connect(envelope).connect(destination);
+        oscillator.start(start);
+        oscillator.stop(end + 0.05);
+    }
+}
+
+export function createAudioSystem(config: GameConfig, initialSettings: AudioSettings): AudioSystem {
+    let settings = initialSettings;
+    let context: AudioContext | null = null;
+    let master: GainNode | null = null;
+    let music: GainNode | null = null;
+    let musicTimer: number | undefined;
+    let nextLoopAt = 0;
+
+    const scheduleMusic = () => {
+        if (!context || !music) return;
+        // po przerwie (karta w tle) pętla zaczyna od bieżącej chwili, bez nadrabiania
+        if (nextLoopAt < context.currentTime) nextLoopAt = context.currentTime + 0.05;
+        while (nextLoopAt < context.currentTime + MUSIC_LOOKAHEAD_SECONDS) {
+            scheduleNotes(context, music, MUSIC_LOOP, nextLoopAt);
+            nextLoopAt += MUSIC_LOOP_SECONDS;
+        }
+    };
+
+    const updateMusic = () => {
+        const shouldPlay = context !== null && settings.musicEnabled && !settings.muted;
+        if (shouldPlay && musicTimer === undefined) {
+            scheduleMusic();
+            musicTimer = window.setInterval(scheduleMusic, MUSIC_SCHEDULE_INTERVAL_MS);
+        } else if (!shouldPlay && musicTimer !== undefined) {
+            window.clearInterval(musicTimer);
+            musicTimer = undefined;
+        }
+        if (context && music) music.gain.setValueAtTime(shouldPlay ? config.AUDIO.musicVolume : 0, context.currentTime);
+    };
+
+    const applyVolume = () => {
+        if (context && master) master.gain.setValueAtTime(effectiveVolume(settings), context.currentTime);
+    };
+
+    return {
+        unlock: () => {
+            try {
+                if (!context) {
+                    const ContextClass = getAudioContextClass();
+                    if (!ContextClass) return;
+                    context = new ContextClass();
+                    master = context.createGain();
+                    master.connect(context.destination);
+                    music = context.createGain();
+                    music.connect(master);
+                    applyVolume();
+                    updateMusic();
+                }
+                if (context.state === "suspended") void context.resume().catch(() => undefined);
+            } catch {
+                context = null;
+            }
+        },
+        play: (sound) => {
+            if (!context || !master || settings.muted) return;
+            try {
+                scheduleNotes(context, master, SOUND_RECIPES[sound], context.currentTime);
+            } catch {
+                // brak dźwięku nie może zatrzymać gry
+            }
+        },
+        apply: (updated) => {
+            settings = updated;
+            try {
+                applyVolume();
+                updateMusic();
+            } catch {
+                // patrz wyżej
+            }
+        },
+        close: () => {
+            window.clearInterval(musicTimer);
+            musicTimer = undefined;
+            void context?.close().catch(() => undefined);
+            context = null;
+        },
+    };
+}
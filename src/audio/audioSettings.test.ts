@@ -0,0 +1,21 @@
+import {CONFIG} from "../game/config";
+import {AUDIO_STORAGE_KEY, defaultAudioSettings, effectiveVolume, loadAudioSettings, saveAudioSettings} from "./audioSettings";
+
+beforeEach(() => localStorage.clear());
+
+test("volume and mute survive a reload", () => {
+    saveAudioSettings({volume: 0.25, muted: true, musicEnabled: true}, localStorage);
+    expect(loadAudioSettings(CONFIG, localStorage)).toEqual({volume: 0.25, muted: true, musicEnabled: true});
+});
+
+test("broken saved values fall back to the defaults", () => {
+    localStorage.setItem(AUDIO_STORAGE_KEY, JSON.stringify({volume: 7, muted: "yes"}));
+    expect(loadAudioSettings(CONFIG, localStorage)).toEqual(defaultAudioSettings(CONFIG));
+    localStorage.setItem(AUDIO_STORAGE_KEY, "{broken");
+    expect(loadAudioSettings(CONFIG, localStorage)).toEqual(defaultAudioSettings(CONFIG));
+});
+
+test("muting silences everything regardless of volume", () => {
+    expect(effectiveVolume({volume: 0.8, muted: true, musicEnabled: false})).toBe(0);
+    expect(effectiveVolume({volume: 0.8, muted: false, musicEnabled: false})).toBe(0.8);
+});
@@ -0,0 +1,39 @@
+import {GameConfig} from "../game/config";
+import {getLocalStorage, readStoredJson, writeStoredJson} from "../storage/localStorage";
+
+/* =========================================
+ * Głośność, wyciszenie i muzyka – zapis w localStorage
+ * ========================================= */
+export type AudioSettings = {
+    volume: number; // 0…1
+    muted: boolean;
+    musicEnabled: boolean;
+};
+
+export const AUDIO_STORAGE_KEY = "kurve.audio.v1";
+
+export function defaultAudioSettings(config: GameConfig): AudioSettings {
+    return {volume: config.AUDIO.defaultVolume, muted: false, musicEnabled: config.AUDIO.musicEnabled};
+}
+
+/** Głośność po uwzględnieniu wyciszenia. */
+export function effectiveVolume(settings: AudioSettings): number {
+    return settings.muted ? 0 : settings.volume;
+}
+
+/** Zapisane ustawienia dźwięku; brakujące albo złe pola dostają wartości domyślne. */
+export function loadAudioSettings(config: GameConfig, storage: Storage | null = getLocalStorage()): AudioSettings {
+    const defaults = defaultAudioSettings(config);
+    const saved = readStoredJson(storage, AUDIO_STORAGE_KEY) as Partial<Record<keyof AudioSettings, unknown>> | undefined;
+    if (!saved || typeof saved !== "object") return defaults;
+    const {volume, muted, musicEnabled} = saved;
+    return {
+        volume: typeof volume === "number" && volume >= 0 && volume <= 1 ? volume : defaults.volume,
+        muted: typeof muted === "boolean" ? muted : defaults.muted,
+        musicEnabled: typeof musicEnabled === "boolean" ? musicEnabled : defaults.musicEnabled,
+    };
+}
+
+export function saveAudioSettings(settings: AudioSettings, storage: Storage | null = getLocalStorage()): void {
+    writeStoredJson(storage, AUDIO_STORAGE_KEY, settings);
+}
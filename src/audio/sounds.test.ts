@@ -0,0 +1,35 @@
+import {MUSIC_LOOP, MUSIC_LOOP_SECONDS, SOUND_RECIPES, soundsForEvents} from "./sounds";
+
+test("deaths sound different for the border and for trails, disconnects are silent", () => {
+    const players = [
+        {deathCause: {kind: "border" as const}},
+        {deathCause: {kind: "trail" as const, ownerIndex: 0}},
+        {deathCause: {kind: "disconnected" as const}},
+        {deathCause: {kind: "obstacle" as const}},
+    ];
+    const crash = (playerIndex: number) => soundsForEvents([{type: "playerCrashed", playerIndex}], players);
+
+    expect(crash(0)).toEqual(["crashBorder"]);
+    expect(crash(1)).toEqual(["crashTrail"]);
+    expect(crash(2)).toEqual([]);
+    expect(crash(3)).toEqual(["crashBorder"]);
+});
+
+test("gaps and pickups have sounds, each sound plays once per step", () => {
+    const pickup = {id: 1, effect: "speedUp" as const, target: "self" as const, positionPixels: {x: 0, y: 0}};
+    const sounds = soundsForEvents([
+        {type: "gapStarted", playerIndex: 0},
+        {type: "gapStarted", playerIndex: 1},
+        {type: "powerUpCollected", playerIndex: 0, pickup},
+        {type: "boardCleared"},
+        {type: "playerCrashed", playerIndex: 5},
+    ], []);
+
+    expect(sounds).toEqual(["gapStart", "pickup", "crashTrail"]);
+});
+
+test("every note fits inside its sound and the music loop", () => {
+    const longest = Math.max(...Object.values(SOUND_RECIPES).flat().map((note) => note.startSeconds + note.durationSeconds));
+    expect(longest).toBeLessThan(1.5);
+    for (const note of MUSIC_LOOP) expect(note.startSeconds + note.durationSeconds).toBeLessThanOrEqual(MUSIC_LOOP_SECONDS);
+});
@@ -0,0 +1,91 @@
+import {SimulationEvent} from "../game/simulation";
+import {DeathCause} from "../game/types";
+
+/* =========================================
+ * Dźwięki gry: syntezowane przepisy (bez plików) i mapowanie zdarzeń symulacji na dźwięki
+ * ========================================= */
+export type SoundName = "roundStart" | "crashBorder" | "crashTrail" | "gapStart" | "pickup" | "suddenDeathWarning" | "matchWin";
+
+/** Jeden ton oscylatora. Czasy liczone od początku dźwięku. */
+export type ToneNote = {
+    startSeconds: number;
+    durationSeconds: number;
+    frequencyHz: number;
+    endFrequencyHz?: number; // glissando do tej częstotliwości
+    wave: OscillatorType;
+    gain: number;            // 0…1 przed głośnością ogólną
+};
+
+export const SOUND_RECIPES: Readonly<Record<SoundName, readonly ToneNote[]>> = {
+    roundStart: [
+        {startSeconds: 0, durationSeconds: 0.12, frequencyHz: 523, wave: "square", gain: 0.25},
+        {startSeconds: 0.12, durationSeconds: 0.12, frequencyHz: 659, wave: "square", gain: 0.25},
+        {startSeconds: 0.24, durationSeconds: 0.2, frequencyHz: 784, wave: "square", gain: 0.25},
+    ],
+    crashBorder: [
+        {startSeconds: 0, durationSeconds: 0.25, frequencyHz: 160, endFrequencyHz: 50, wave: "sawtooth", gain: 0.45},
+    ],
+    crashTrail: [
+        {startSeconds: 0, durationSeconds: 0.3, frequencyHz: 440, endFrequencyHz: 110, wave: "triangle", gain: 0.5},
+        {startSeconds: 0, durationSeconds: 0.15, frequencyHz: 880, endFrequencyHz: 220, wave: "square", gain: 0.15},
+    ],
+    gapStart: [
+        {startSeconds: 0, durationSeconds: 0.06, frequencyHz: 1200, endFrequencyHz: 1600, wave: "sine", gain: 0.12},
+    ],
+    pickup: [
+        {startSeconds: 0, durationSeconds: 0.08, frequencyHz: 880, wave: "sine", gain: 0.3},
+        {startSeconds: 0.07, durationSeconds: 0.12, frequencyHz: 1320, wave: "sine", gain: 0.3},
+    ],
+    suddenDeathWarning: [
+        {startSeconds: 0, durationSeconds: 0.18, frequencyHz: 330, wave: "square", gain: 0.3},
+        {startSeconds: 0.3, durationSeconds: 0.18, frequencyHz: 330, wave: "square", gain: 0.3},
+    ],
+    matchWin: [
+        {startSeconds: 0, durationSeconds: 0.15, frequencyHz: 523, wave: "square", gain: 0.25},
+        {startSeconds: 0.15, durationSeconds: 0.15, frequencyHz: 659, wave: "square", gain: 0.25},
+        {startSeconds: 0.3, durationSeconds: 0.15, frequencyHz: 784, wave: "square", gain: 0.25},
+        {startSeconds: 0.45, durationSeconds: 0.5, frequencyHz: 1047, wave: "square", gain: 0.3},
+    ],
+};
+
+/** Pętla muzyki: prosty arpeggiator basu, powtarzany co `MUSIC_LOOP_SECONDS`. */
+export const MUSIC_LOOP_SECONDS = 4;
+const MUSIC_ROOTS_HZ = [110, 87.31, 130.81, 98]; // A – F – C – G, po takcie na akord
+const MUSIC_STEPS = [1, 1.5, 2, 1.5];            // pryma, kwinta, oktawa, kwinta
+
+export const MUSIC_LOOP: readonly ToneNote[] = MUSIC_ROOTS_HZ.flatMap((rootHz, bar) =>
+    [0, 1, 2, 3, 4, 5, 6, 7].map((step): ToneNote => ({
+        startSeconds: bar + step / 8,
+        durationSeconds: 0.11,
+        frequencyHz: rootHz * MUSIC_STEPS[step % MUSIC_STEPS.length],
+        wave: "triangle",
+        gain: step % 4 === 0 ? 0.5 : 0.3,
+    }))
+);
+
+/** Dźwięk śmierci: ramka i przeszkody brzmią inaczej niż ślad; rozłączenie jest ciche. */
+function crashSound(cause: DeathCause | null | undefined): SoundName | null {
+    if (!cause) return "crashTrail";
+    if (cause.kind === "disconnected") return null;
+    return cause.kind === "trail" ? "crashTrail" : "crashBorder";
+}
+
+/**
+ * Dźwięki dla zdarzeń kroku. `players` daje przyczyny śmierci (u gościa może być puste –
+ * wtedy śmierć brzmi jak uderzenie w ślad).
+ */
+export function soundsForEvents(
+    events: readonly SimulationEvent[],
+    players: readonly { deathCause?: DeathCause | null }[]
+): SoundName[] {
+    const sounds: SoundName[] = [];
+    for (const event of events) {
+        let sound: SoundName | null = null;
+        if (event.type === "playerCrashed") sound = crashSound(players[event.playerIndex]?.deathCause);
+        else if (event.type === "gapStarted") sound = "gapStart";
+        else if (event.type === "powerUpCollected") sound = "pickup";
+        else if (event.type === "suddenDeathWarning") sound = "suddenDeathWarning";
+        if (sound && !sounds.includes(sound)) sounds.push(sound);
+    }
+    return sounds;
+}
@@ -0,0 +1,38 @@
+import {effectiveColors, headShapeOf, paletteColorHex, patternMarkRadius, trailPatternOf} from "./accessibility";
+import {CONFIG, GameConfig} from "./config";
+
+const ACCESSIBLE: GameConfig = {
+    ...CONFIG,
+    ACCESSIBILITY: {...CONFIG.ACCESSIBILITY, palette: "okabe-ito", trailPatterns: true, headShapes: true, highContrast: true},
+};
+
+test("the default palette keeps roster colors, others cycle through their colors", () => {
+    expect(paletteColorHex(CONFIG, 0)).toBeNull();
+
+    const colors = CONFIG.ACCESSIBILITY.palettes["okabe-ito"];
+    expect(paletteColorHex(ACCESSIBLE, 1)).toBe(colors[1]);
+    expect(paletteColorHex(ACCESSIBLE, colors.length)).toBe(colors[0]);
+});
+
+test("patterns and head shapes differ per player only when enabled", () => {
+    expect([0, 1, 2].map((index) => trailPatternOf(CONFIG, index))).toEqual(["solid", "solid", "solid"]);
+    expect([0, 1, 2].map((index) => trailPatternOf(ACCESSIBLE, index))).toEqual(["solid", "dotted", "hollow"]);
+    expect(headShapeOf(CONFIG, 1)).toBe("circle");
+    expect(headShapeOf(ACCESSIBLE, 1)).toBe("square");
+});
+
+test("high contrast replaces board and HUD colors", () => {
+    expect(effectiveColors(CONFIG)).toBe(CONFIG.COLORS);
+    expect(effectiveColors(ACCESSIBLE).backgroundHex).toBe(CONFIG.ACCESSIBILITY.highContrastColors.backgroundHex);
+    expect(effectiveColors(ACCESSIBLE).hudTextHex).toBe(CONFIG.ACCESSIBILITY.highContrastColors.hudTextHex);
+});
+
+test("pattern marks leave thin and solid trails intact", () => {
+    expect(patternMarkRadius("solid", 0, 4)).toBe(0);
+    expect(patternMarkRadius("hollow", 3, 1)).toBe(0);
+    expect(patternMarkRadius("hollow", 3, 4)).toBeGreaterThan(0);
+    expect(patternMarkRadius("dotted", 0, 4)).toBeGreaterThan(0);
+    expect(patternMarkRadius("dotted", 4, 4)).toBe(0);
+    expect(patternMarkRadius("dashed", 2, 4)).toBeGreaterThan(0);
+    expect(patternMarkRadius("dashed", 8, 4)).toBe(0);
+});
@@ -0,0 +1,50 @@
+import {GameConfig} from "./config";
+import {HeadShape, TrailPattern} from "./types";
+
+/* =========================================
+ * Dostępność: palety graczy, wzory śladów, kształty głów i wysoki kontrast
+ * =========================================
+ * Wszystko tylko zmienia wygląd – maska kolizji i symulacja zostają takie same.
+ */
+export const TRAIL_PATTERNS: readonly TrailPattern[] = ["solid", "dotted", "hollow", "dashed"];
+export const HEAD_SHAPES: readonly HeadShape[] = ["circle", "square", "triangle", "diamond", "pentagon", "hexagon"];
+
+/** Kolor gracza z wybranej palety albo `null` przy palecie `default`. */
+export function paletteColorHex(config: GameConfig, playerIndex: number): string | null {
+    const palette = config.ACCESSIBILITY.palette;
+    if (palette === "default") return null;
+    const colors = config.ACCESSIBILITY.palettes[palette];
+    return colors[playerIndex % colors.length];
+}
+
+export function trailPatternOf(config: GameConfig, playerIndex: number): TrailPattern {
+    return config.ACCESSIBILITY.trailPatterns ? TRAIL_PATTERNS[playerIndex % TRAIL_PATTERNS.length] : "solid";
+}
+
+export function headShapeOf(config: GameConfig, playerIndex: number): HeadShape {
+    return config.ACCESSIBILITY.headShapes ? HEAD_SHAPES[playerIndex % HEAD_SHAPES.length] : "circle";
+}
+
+/** Kolory planszy i HUD-u – przy wysokim kontraście podmienione na czarno-białe. */
+export function effectiveColors(config: GameConfig): GameConfig["COLORS"] {
+    return config.ACCESSIBILITY.highContrast ? {...config.COLORS, ...config.ACCESSIBILITY.highContrastColors} : config.COLORS;
+}
+
+const DOT_SPACING_PIXELS = 8;
+const DASH_PIXELS = 6;
+
+/**
+ * Promień znaczka wzoru (w kolorze tła) w punkcie śladu odległym o `travelledPixels` od startu,
+ * albo 0 – w tym miejscu linia zostaje pełna. Przy cienkiej linii wzór by ją przerwał, więc go nie ma.
+ */
+export function patternMarkRadius(pattern: TrailPattern, travelledPixels: number, radiusPixels: number): number {
+    if (pattern === "solid" || radiusPixels < 1.5) return 0;
+    switch (pattern) {
+        case "dotted":
+            return travelledPixels % DOT_SPACING_PIXELS < 1.5 ? radiusPixels * 0.6 : 0;
+        case "hollow":
+            return radiusPixels * 0.45;
+        case "dashed":
+            return travelledPixels % (2 * DASH_PIXELS) < DASH_PIXELS ? radiusPixels * 0.45 : 0;
+    }
+}
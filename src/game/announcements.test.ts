@@ -0,0 +1,22 @@
+import {describeMatchWinner, describeRoundWinner} from "./announcements";
+import {CONFIG} from "./config";
+import {createMatch, RoundResult} from "./match";
+
+function roundWith(pointsByPlayer: number[]): RoundResult {
+    return {roundNumber: 2, pointsByPlayer, survivalSecondsByPlayer: pointsByPlayer.map(() => 0), deaths: []};
+}
+
+test("the round winner is the side with the most points", () => {
+    const match = createMatch(CONFIG, ["Ann", "Bob", "Cid"]);
+    expect(describeRoundWinner(CONFIG, match, roundWith([1, 2, 0]))).toBe("Bob wins round 2");
+    expect(describeRoundWinner(CONFIG, match, roundWith([0, 0, 0]))).toBe("Round 2: no winner");
+
+    const teamMatch = createMatch(CONFIG, ["Ann", "Bob", "Cid", "Dan"], [0, 1, 0, 1]);
+    expect(describeRoundWinner(CONFIG, teamMatch, roundWith([2, 0, 2, 0]))).toBe("Team Blue wins round 2");
+});
+
+test("the match winner is announced only once the match is over", () => {
+    const match = createMatch(CONFIG, ["Ann", "Bob"]);
+    expect(describeMatchWinner(CONFIG, match)).toBeNull();
+    expect(describeMatchWinner(CONFIG, {...match, winnerIndex: 1})).toBe("Bob wins the match");
+});
@@ -0,0 +1,29 @@
+import {GameConfig} from "./config";
+import {MatchState, RoundResult} from "./match";
+import {teamName} from "./teams";
+
+/* =========================================
+ * Komunikaty o przebiegu gry – dla czytnika ekranu (region ARIA live) i ekranu wyników
+ * ========================================= */
+
+/** Nazwa strony gracza: jego własna albo – w trybie drużynowym – nazwa drużyny. */
+function sideName(config: GameConfig, match: MatchState, playerIndex: number): string {
+    const teamIndex = match.teamByPlayer[playerIndex];
+    return teamIndex === null ? match.playerNames[playerIndex] : teamName(config, teamIndex);
+}
+
+/** Zwycięzca rundy – strona z największą liczbą punktów za tę rundę. */
+export function describeRoundWinner(config: GameConfig, match: MatchState, result: RoundResult): string {
+    const best = Math.max(...result.pointsByPlayer);
+    if (best <= 0) return `Round ${result.roundNumber}: no winner`;
+    const winners = result.pointsByPlayer
+        .map((points, index) => (points === best ? sideName(config, match, index) : null))
+        .filter((name): name is string => name !== null)
+        .filter((name, index, names) => names.indexOf(name) === index);
+    return `${winners.join(" and ")} ${winners.length > 1 ? "win" : "wins"} round ${result.roundNumber}`;
+}
+
+/** Zwycięzca meczu albo `null`, gdy mecz trwa. */
+export function describeMatchWinner(config: GameConfig, match: MatchState): string | null {
+    return match.winnerIndex === null ? null : `${sideName(config, match, match.winnerIndex)} wins the match`;
+}
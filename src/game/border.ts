@@ -0,0 +1,97 @@
+import {GameConfig} from "./config";
+import {ArenaSize, WrapBounds} from "./types";
+
+/* =========================
+ * Geometria ramki
+ * ========================= */
+export type SafeArea = {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+};
+
+/** Logiczny rozmiar pola gry (z mapy, jeśli jest) – nie zależy od okna, więc plansza jest taka sama u wszystkich. */
+export function getArenaSize(config: GameConfig): ArenaSize {
+    const {map} = config.ARENA;
+    if (map) return {widthPixels: map.widthPixels, heightPixels: map.heightPixels};
+    return {widthPixels: config.ARENA.widthPixels, heightPixels: config.ARENA.heightPixels};
+}
+
+/**
+ * Wewnętrzny „bezpieczny” prostokąt, w którym może poruszać się środek kropki o promieniu `radius`.
+ * `shrinkPixels` – o tyle ramka weszła do środka w sudden death (działa jak większe `insetPixels`).
+ */
+export function getSafeArea(config: GameConfig, arena: ArenaSize, radius: number, shrinkPixels = 0): SafeArea {
+    const t = config.BORDER.thicknessPixels;
+    const inset = config.BORDER.insetPixels + shrinkPixels;
+    return {
+        minX: inset + t + radius,
+        maxX: arena.widthPixels - inset - t - radius,
+        minY: inset + t + radius,
+        maxY: arena.heightPixels - inset - t - radius,
+    };
+}
+
+/** Sprawdza, czy okrąg o środku (x,y) i promieniu r uderza w ramkę. */
+export function hitsBorder(
+    config: GameConfig,
+    arena: ArenaSize,
+    x: number,
+    y: number,
+    radius: number,
+    shrinkPixels = 0
+): boolean {
+    const {minX, maxX, minY, maxY} = getSafeArea(config, arena, radius, shrinkPixels);
+    return x < minX || x > maxX || y < minY || y > maxY;
+}
+
+/** Przenosi punkt, który wyjechał poza bezpieczny obszar, na przeciwną stronę (przejście przez ściany). */
+export function wrapIntoSafeArea(
+    config: GameConfig,
+    arena: ArenaSize,
+    x: number,
+    y: number,
+    radius: number,
+    shrinkPixels = 0
+): { x: number; y: number } {
+    const {minX, maxX, minY, maxY} = getSafeArea(config, arena, radius, shrinkPixels);
+    const wrap = (value: number, min: number, max: number) => {
+        const span = max - min;
+        if (span <= 0) return min;
+        return min + ((((value - min) % span) + span) % span);
+    };
+    return {x: wrap(x, minX, maxX), y: wrap(y, minY, maxY)};
+}
+
+/** Pole gry w trybie `wrap` – wnętrze ramki, którego przeciwne krawędzie są sklejone. `null` w trybie `walled`. */
+export function getWrapBounds(config: GameConfig, arena: ArenaSize): WrapBounds | null {
+    if (config.ARENA.mode !== "wrap") return null;
+    const {minX, maxX, minY, maxY} = getSafeArea(config, arena, 0);
+    const left = Math.round(minX);
+    const top = Math.round(minY);
+    return {
+        minX: left,
+        minY: top,
+        widthPixels: Math.max(1, Math.round(maxX) - left),
+        heightPixels: Math.max(1, Math.round(maxY) - top),
+    };
+}
+
+/** Reszta z dzielenia, zawsze w [0, span). */
+function modulo(value: number, span: number): number {
+    return ((value % span) + span) % span;
+}
+
+/** Przenosi punkt do wnętrza sklejonego pola (torus): wyjazd prawą krawędzią = wjazd lewą. */
+export function wrapPoint(bounds: WrapBounds, x: number, y: number): { x: number; y: number } {
+    return {
+        x: bounds.minX + modulo(x - bounds.minX, bounds.widthPixels),
+        y: bounds.minY + modulo(y - bounds.minY, bounds.heightPixels),
+    };
+}
+
+/** Najkrótsza różnica współrzędnych na okręgu o obwodzie `span` (np. 1 i span − 1 są obok siebie). */
+export function wrappedDelta(delta: number, span: number): number {
+    return delta - span * Math.round(delta / span);
+}
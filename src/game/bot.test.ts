@@ -0,0 +1,67 @@
+import {castRay, createBotState, decideTurn, updateBot} from "./bot";
+import {CONFIG, GameConfig} from "./config";
+import {stepSimulation} from "./simulation";
+import {FIXED_STEP_SECONDS, setupRound} from "./testing";
+import {markVisitedCircle} from "./trailMask";
+import {PlayerInput} from "./types";
+
+const ARENA = {widthPixels: 300, heightPixels: 200};
+
+const TEST_CONFIG: GameConfig = {
+    ...CONFIG,
+    GAPS: {...CONFIG.GAPS, enabled: false},
+    POWER_UPS: {...CONFIG.POWER_UPS, enabled: false},
+};
+
+test("ray stops at the first trail ahead", () => {
+    const state = setupRound(TEST_CONFIG, [[50, 100, 0], [250, 30, Math.PI]], ARENA);
+    for (let y = 60; y <= 140; y++) markVisitedCircle(state.trailMask, 110, y, 2, 1, 0);
+
+    const distance = castRay(state, state.players[0], 0, 200);
+    expect(distance).toBeGreaterThan(50);
+    expect(distance).toBeLessThanOrEqual(60);
+});
+
+test("ray stops at the border", () => {
+    const state = setupRound(TEST_CONFIG, [[250, 100, 0], [50, 30, Math.PI]], ARENA);
+    expect(castRay(state, state.players[0], 0, 200)).toBeLessThan(50);
+});
+
+test("bot keeps straight with a clear road and turns toward open space", () => {
+    const state = setupRound(TEST_CONFIG, [[60, 100, 0], [250, 30, Math.PI]], ARENA);
+    const [bot] = state.players;
+    expect(decideTurn(state, bot, 60)).toEqual({turnLeft: false, turnRight: false});
+
+    // ściana przed botem i zamknięta góra – jedyna droga w dół (w prawo względem kierunku jazdy)
+    for (let y = 20; y <= 180; y++) markVisitedCircle(state.trailMask, 100, y, 2, 1, 0);
+    for (let x = 40; x <= 100; x++) markVisitedCircle(state.trailMask, x, 80, 2, 1, 0);
+    expect(decideTurn(state, bot, 60)).toEqual({turnLeft: false, turnRight: true});
+});
+
+test("bot reacts only after its reaction delay", () => {
+    const state = setupRound(TEST_CONFIG, [[60, 100, 0], [250, 30, Math.PI]], ARENA);
+    const botState = createBotState("easy");
+
+    expect(updateBot(state, 0, botState, FIXED_STEP_SECONDS)).toEqual({turnLeft: false, turnRight: false});
+    for (let y = 20; y <= 180; y++) markVisitedCircle(state.trailMask, 90, y, 2, 1, 0);
+    for (let x = 40; x <= 90; x++) markVisitedCircle(state.trailMask, x, 80, 2, 1, 0);
+
+    // decyzja z poprzedniego „spojrzenia” obowiązuje do końca czasu reakcji
+    expect(updateBot(state, 0, botState, FIXED_STEP_SECONDS)).toEqual({turnLeft: false, turnRight: false});
+    const reaction = CONFIG.BOTS.levels.easy.reactionDelaySeconds;
+    expect(updateBot(state, 0, botState, reaction)).toEqual({turnLeft: false, turnRight: true});
+});
+
+test("a hard bot survives longer than driving straight into the wall", () => {
+    const state = setupRound(TEST_CONFIG, [[60, 100, 0], [150, 170, Math.PI]], ARENA);
+    const botState = createBotState("hard");
+    const idle: PlayerInput = {turnLeft: false, turnRight: false};
+
+    for (let i = 0; i < 600 && !state.hasRoundEnded; i++) {
+        const inputs = [updateBot(state, 0, botState, FIXED_STEP_SECONDS), idle];
+        stepSimulation(state, inputs, FIXED_STEP_SECONDS);
+    }
+
+    expect(state.players[0].isAlive).toBe(true);
+    expect(state.players[1].isAlive).toBe(false);
+});
@@ -0,0 +1,94 @@
+import {hitsBorder, wrapPoint} from "./border";
+import {freshTailOf, SimulationState, isRunning} from "./simulation";
+import {collidesWithTrail} from "./trailMask";
+import {BotDifficulty, PlayerInput, PlayerState} from "./types";
+
+/* =========================================
+ * Boty – sterują przez ten sam `PlayerInput` co klawiatura
+ * ========================================= */
+export type BotState = {
+    difficulty: BotDifficulty;
+    timeUntilNextDecision: number; // s – czas reakcji
+    decision: PlayerInput;
+};
+
+const NO_TURN: PlayerInput = {turnLeft: false, turnRight: false};
+
+export function createBotState(difficulty: BotDifficulty): BotState {
+    return {difficulty, timeUntilNextDecision: 0, decision: NO_TURN};
+}
+
+/**
+ * Odległość, jaką głowa gracza może przejechać w kierunku `angleRadians`, zanim trafi w ramkę (poza trybem `wrap`)
+ * albo cudzy/starszy ślad (najwyżej `maxDistancePixels`). Świeży ogon gracza jest pomijany jak w kolizjach.
+ */
+export function castRay(
+    state: SimulationState,
+    player: PlayerState,
+    angleRadians: number,
+    maxDistancePixels: number
+): number {
+    const {config} = state;
+    const radius = player.radiusPixels;
+    const stepPixels = Math.max(1, radius);
+    const freshTail = freshTailOf(state, state.players.indexOf(player));
+    const directionX = Math.cos(angleRadians);
+    const directionY = Math.sin(angleRadians);
+    const {shrinkPixels} = state.suddenDeath;
+
+    // startujemy tuż przed głową, żeby nie „widzieć” własnej kropki
+    for (let distance = 2 * radius + 1; distance <= maxDistancePixels; distance += stepPixels) {
+        let x = player.positionPixels.x + directionX * distance;
+        let y = player.positionPixels.y + directionY * distance;
+        if (state.trailMask.wrap && shrinkPixels === 0) ({x, y} = wrapPoint(state.trailMask.wrap, x, y)); // promień przechodzi przez szew
+        else if (hitsBorder(config, state.arena, x, y, radius, shrinkPixels)) return distance;
+        const center = {x: Math.round(x), y: Math.round(y)};
+        if (collidesWithTrail(state.trailMask, center, radius, freshTail)) {
+            return distance;
+        }
+    }
+    return maxDistancePixels;
+}
+
+/** Suma wolnych odległości promieni po jednej stronie kierunku jazdy (`side` = −1 lewo, 1 prawo). */
+function scoreSide(state: SimulationState, player: PlayerState, side: -1 | 1, lookAheadPixels: number): number {
+    const {raysPerSide, raySpreadRadians} = state.config.BOTS;
+    let total = 0;
+    for (let ray = 1; ray <= raysPerSide; ray++) {
+        const offset = (raySpreadRadians * ray) / raysPerSide;
+        total += castRay(state, player, player.angleRadians + side * offset, lookAheadPixels);
+    }
+    return total;
+}
+
+/** Decyzja bota na podstawie promieni: jedź prosto, dopóki jest miejsce, inaczej skręcaj tam, gdzie luźniej. */
+export function decideTurn(state: SimulationState, player: PlayerState, lookAheadPixels: number): PlayerInput {
+    const ahead = castRay(state, player, player.angleRadians, lookAheadPixels);
+    if (ahead >= lookAheadPixels) return NO_TURN;
+
+    const left = scoreSide(state, player, -1, lookAheadPixels);
+    const right = scoreSide(state, player, 1, lookAheadPixels);
+    return left > right ? {turnLeft: true, turnRight: false} : {turnLeft: false, turnRight: true};
+}
+
+/**
+ * Wejście bota na ten krok. Nową decyzję podejmuje co `reactionDelaySeconds`,
+ * a pomiędzy trzyma poprzednią – tak jak człowiek, który reaguje z opóźnieniem.
+ */
+export function updateBot(
+    state: SimulationState,
+    playerIndex: number,
+    bot: BotState,
+    deltaTimeSeconds: number
+): PlayerInput {
+    const player = state.players[playerIndex];
+    if (!player || !player.isAlive || !isRunning(state)) return NO_TURN;
+
+    const level = state.config.BOTS.levels[bot.difficulty];
+    bot.timeUntilNextDecision -= deltaTimeSeconds;
+    if (bot.timeUntilNextDecision <= 0) {
+        bot.decision = decideTurn(state, player, level.lookAheadPixels);
+        bot.timeUntilNextDecision = level.reactionDelaySeconds;
+    }
+    return bot.decision;
+}
@@ -0,0 +1,345 @@
+import {ArenaMap, ArenaMode, BotDifficulty, GameModeId, PlayerPalette, PowerUpEffect, PowerUpTarget, ShrinkMode, TeamPassThrough} from "./types";
+
+/* =========================================
+ * Konfiguracja i stałe gry
+ * ========================================= */
+/** Ustawienia jednego miejsca przy klawiaturze: nazwa, kolor i domyślne klawisze skrętu (`event.code`, gracz może je przestawić). */
+export type PlayerSetup = {
+    readonly name: string;
+    readonly colorHex: string;
+    readonly turnLeftKey: string;
+    readonly turnRightKey: string;
+};
+
+/** Drużyna: nazwa i pokrewne odcienie dla kolejnych graczy. */
+export type TeamPalette = {
+    readonly name: string;
+    readonly colorHexes: readonly string[];
+};
+
+export type GameConfig = {
+    readonly COLORS: {
+        readonly backgroundHex: string;
+        readonly hudTextHex: string;
+        readonly hudDimHex: string;
+        readonly borderHex: string;
+        readonly powerUpSelfHex: string;
+        readonly powerUpOpponentsHex: string;
+        readonly letterboxHex: string;
+        readonly obstacleHex: string;
+        readonly suddenDeathHex: string;
+    };
+    readonly DOT: {
+        readonly radiusPixels: number;
+    };
+    readonly PHYSICS: {
+        readonly forwardSpeedPixelsPerSecond: number;
+        readonly turnSpeedRadiansPerSecond: number;
+        readonly fixedStepSeconds: number; // długość jednego kroku symulacji
+        readonly maxStepsPerFrame: number; // limit nadrabiania po przycięciu – resztę czasu odrzucamy
+    };
+    readonly INPUT: {
+        readonly toggleMovementKey: string;
+        readonly restartKey: string;
+        readonly exportReplayKey: string;
+        readonly loadReplayKey: string;
+        readonly watchReplayKey: string;
+        readonly onlineLobbyKey: string;
+        readonly controlsKey: string;
+        readonly arenaModeKey: string;
+        readonly settingsKey: string;
+        readonly mapEditorKey: string;
+        readonly statsKey: string;
+        readonly muteKey: string;
+        readonly pauseKey: string; // pauza i wznowienie w trakcie rundy (jak SPACE)
+        readonly debugOverlayKey: string; // podgląd maski kolizji, dziur i czasów klatek
+        readonly frameStepModeKey: string; // przy podglądzie: runda krok po kroku (włącz/wyłącz)
+        readonly frameStepKey: string;     // w trybie krok po kroku: następny krok symulacji
+        readonly gamepadAxisThreshold: number; // wychylenie gałki, od którego liczy się jako skręt
+    };
+    readonly REPLAY: {
+        readonly playbackSpeeds: readonly number[];
+        readonly seekStepSeconds: number;
+    };
+    readonly PLAYERS: {
+        readonly minCount: number;
+        readonly defaultCount: number;
+        readonly roster: readonly PlayerSetup[]; // maksymalna liczba graczy = długość listy
+    };
+    readonly TEAMS: {
+        readonly count: number; // 0 – każdy gra na siebie; gracz i trafia do drużyny i % count
+        readonly passThrough: TeamPassThrough;
+        readonly palettes: readonly TeamPalette[]; // co najmniej tyle, ile drużyn
+    };
+    readonly ACCESSIBILITY: {
+        readonly palette: PlayerPalette;
+        readonly trailPatterns: boolean; // każdy gracz ma inny wzór śladu
+        readonly headShapes: boolean;    // każdy gracz ma inny kształt głowy
+        readonly reducedMotion: boolean; // bez wygaszania i innych animacji w HUD-zie
+        readonly highContrast: boolean;
+        readonly palettes: Readonly<Record<Exclude<PlayerPalette, "default">, readonly string[]>>;
+        readonly highContrastColors: Pick<GameConfig["COLORS"], "backgroundHex" | "borderHex" | "hudTextHex" | "hudDimHex" | "letterboxHex" | "obstacleHex">;
+    };
+    readonly TRAIL: {
+        readonly freshTailRadii: number;
+    };
+    readonly SCORING: {
+        readonly hudRefreshIntervalMs: number;
+    };
+    readonly KILL_FEED: {
+        readonly maxEntries: number;   // starsze wpisy znikają od razu, gdy przybywa nowych
+        readonly entrySeconds: number; // tyle wpis jest widoczny (na końcu blednie)
+    };
+    readonly AUDIO: {
+        readonly defaultVolume: number; // 0…1
+        readonly musicVolume: number;   // głośność muzyki względem efektów
+        readonly musicEnabled: boolean;
+    };
+    readonly GAPS: {
+        readonly enabled: boolean;
+        readonly minIntervalSeconds: number;
+        readonly maxIntervalSeconds: number;
+        readonly minDurationSeconds: number;
+        readonly maxDurationSeconds: number;
+        readonly corridorExtraMarginPixels: number;
+    };
+    readonly MATCH: {
+        readonly targetScore: number | null; // null = klasycznie 10 pkt × (liczba graczy − 1)
+        readonly minWinningLead: number;
+        readonly roundIntermissionSeconds: number;
+        readonly countdownSeconds: number; // odliczanie przed startem i wznowieniem rundy (0 = bez)
+    };
+    readonly GAME_MODE: {
+        readonly id: GameModeId;
+        readonly tailSeconds: number;        // `decaying-tails`: po tylu sekundach ślad znika
+        readonly speedRampPerSecond: number; // `speed-ramp`: przyrost prędkości (ułamek bazowej) na sekundę ruchu
+        readonly maxSpeedMultiplier: number; // `speed-ramp`: dalej już nie przyspieszamy
+    };
+    readonly POWER_UPS: {
+        readonly enabled: boolean;
+        readonly minSpawnIntervalSeconds: number;
+        readonly maxSpawnIntervalSeconds: number;
+        readonly maxOnBoard: number;
+        readonly pickupRadiusPixels: number;
+        readonly spawnAttempts: number;      // ile losowych miejsc sprawdzamy, zanim odpuścimy spawn
+        readonly effectDurationSeconds: number;
+        readonly speedUpMultiplier: number;
+        readonly slowDownMultiplier: number;
+        readonly thickMultiplier: number;
+        readonly thinMultiplier: number;
+        readonly offers: readonly { readonly effect: PowerUpEffect; readonly target: PowerUpTarget }[];
+    };
+    readonly BOTS: {
+        readonly raysPerSide: number;
+        readonly raySpreadRadians: number; // najbardziej skrajny promień po każdej stronie
+        readonly levels: Readonly<Record<BotDifficulty, {
+            readonly lookAheadPixels: number;
+            readonly reactionDelaySeconds: number;
+        }>>;
+    };
+    readonly BORDER: {
+        readonly thicknessPixels: number;
+        readonly insetPixels: number;
+    };
+    readonly SUDDEN_DEATH: {
+        readonly enabled: boolean;
+        readonly startSeconds: number;          // czas ruchu od startu rundy, po którym ramka zaczyna się zamykać
+        readonly mode: ShrinkMode;
+        readonly shrinkPixelsPerSecond: number; // tryb `steady`
+        readonly stepPixels: number;            // tryb `steps` – o tyle ramka wchodzi z każdej strony naraz
+        readonly stepIntervalSeconds: number;
+        readonly warningSeconds: number;        // zapowiedź przed startem i przed każdym skokiem
+        readonly minArenaPixels: number;        // krótszy bok pola, poniżej którego ramka już nie wchodzi
+    };
+    readonly RENDER: {
+        readonly smoothLines: boolean; // wygładzone linie zamiast pikseli dokładnie z maski kolizji
+    };
+    readonly ARENA: {
+        readonly widthPixels: number;  // logiczny rozmiar pola – taki sam na każdym ekranie
+        readonly heightPixels: number;
+        readonly boardPixelRatio: number; // rozdzielczość bufora planszy względem pikseli logicznych
+        readonly mode: ArenaMode;
+        readonly wrapDashPixels: number; // długość kreski ramki w trybie `wrap`
+        readonly map: ArenaMap | null;   // przeszkody i miejsca startu; mapa ustala też rozmiar pola
+    };
+};
+
+export const CONFIG: GameConfig = {
+    COLORS: {
+        backgroundHex: "#0b1020",
+        hudTextHex: "#d7e0f2",
+        hudDimHex: "#9aa7bf",
+        borderHex: "#75D4E6", // kolor ramki
+        powerUpSelfHex: "#7bd88f",      // power-up dla zbierającego
+        powerUpOpponentsHex: "#ff6b6b", // power-up na przeciwników
+        letterboxHex: "#05070f",        // pasy wokół planszy, gdy proporcje ekranu są inne
+        obstacleHex: "#3b4a6b",         // przeszkody mapy
+        suddenDeathHex: "#ff6b6b",      // zamykająca się ramka i jej zapowiedź
+    },
+    DOT: {
+        radiusPixels: 2,
+    },
+    PHYSICS: {
+        forwardSpeedPixelsPerSecond: 80,
+        turnSpeedRadiansPerSecond: Math.PI / 2,
+        fixedStepSeconds: 1 / 120,
+        maxStepsPerFrame: 12,
+    },
+    // Klawisze to `event.code` – fizyczne miejsce na klawiaturze, niezależne od układu, Shifta i Caps Locka
+    INPUT: {
+        toggleMovementKey: "Space",
+        restartKey: "KeyR",
+        exportReplayKey: "KeyE",
+        loadReplayKey: "KeyO",
+        watchReplayKey: "KeyP",
+        onlineLobbyKey: "KeyN",
+        controlsKey: "KeyC",
+        arenaModeKey: "KeyM",
+        settingsKey: "KeyS",
+        mapEditorKey: "KeyL",
+        statsKey: "KeyH",
+        muteKey: "KeyU",
+        pauseKey: "Escape",
+        debugOverlayKey: "Backquote",
+        frameStepModeKey: "Backslash",
+        frameStepKey: "BracketRight",
+        gamepadAxisThreshold: 0.5,
+    },
+    REPLAY: {
+        playbackSpeeds: [0.25, 0.5, 1, 2, 4],
+        seekStepSeconds: 5,
+    },
+    PLAYERS: {
+        minCount: 2,
+        defaultCount: 2,
+        roster: [
+            {name: "Player 1", colorHex: "#66e3ff", turnLeftKey: "KeyA", turnRightKey: "KeyD"},
+            {name: "Player 2", colorHex: "#ffd166", turnLeftKey: "KeyJ", turnRightKey: "KeyK"},
+            {name: "Player 3", colorHex: "#ef476f", turnLeftKey: "ArrowLeft", turnRightKey: "ArrowRight"},
+            {name: "Player 4", colorHex: "#06d6a0", turnLeftKey: "KeyQ", turnRightKey: "KeyW"},
+            {name: "Player 5", colorHex: "#b388ff", turnLeftKey: "KeyV", turnRightKey: "KeyB"},
+            {name: "Player 6", colorHex: "#ff9f1c", turnLeftKey: "Comma", turnRightKey: "Period"},
+        ],
+    },
+    TEAMS: {
+        count: 0,
+        passThrough: "gaps",
+        palettes: [
+            {name: "Blue", colorHexes: ["#66e3ff", "#3a8dff", "#b3f1ff"]},
+            {name: "Orange", colorHexes: ["#ffd166", "#ff9f1c", "#ffe9b0"]},
+            {name: "Green", colorHexes: ["#06d6a0", "#7bd88f", "#c2f5d6"]},
+        ],
+    },
+    ACCESSIBILITY: {
+        palette: "default",
+        trailPatterns: false,
+        headShapes: false,
+        reducedMotion: false,
+        highContrast: false,
+        palettes: {
+            "okabe-ito": ["#e69f00", "#56b4e9", "#009e73", "#f0e442", "#cc79a7", "#d55e00"],
+            "tol-bright": ["#66ccee", "#ee6677", "#228833", "#ccbb44", "#aa3377", "#4477aa"],
+        },
+        highContrastColors: {
+            backgroundHex: "#000000",
+            borderHex: "#ffffff",
+            hudTextHex: "#ffffff",
+            hudDimHex: "#e0e0e0",
+            letterboxHex: "#000000",
+            obstacleHex: "#8c8c8c",
+        },
+    },
+    TRAIL: {
+        freshTailRadii: 5, // własny ślad z ostatnich tylu promieni przejechanej drogi nie zabija
+    },
+    SCORING: {
+        hudRefreshIntervalMs: 100,
+    },
+    KILL_FEED: {
+        maxEntries: 5,
+        entrySeconds: 5,
+    },
+    AUDIO: {
+        defaultVolume: 0.6,
+        musicVolume: 0.35,
+        musicEnabled: false,
+    },
+    GAPS: {
+        enabled: true,
+        minIntervalSeconds: 1.2,
+        maxIntervalSeconds: 3.0,
+        minDurationSeconds: 0.18,
+        maxDurationSeconds: 0.35,
+        corridorExtraMarginPixels: 0.6, // korytarz dziury jest o tyle szerszy od kropki
+    },
+    MATCH: {
+        targetScore: null,
+        minWinningLead: 2,
+        roundIntermissionSeconds: 2.5,
+        countdownSeconds: 3,
+    },
+    GAME_MODE: {
+        id: "classic",
+        tailSeconds: 5,
+        speedRampPerSecond: 0.02,
+        maxSpeedMultiplier: 2,
+    },
+    POWER_UPS: {
+        enabled: true,
+        minSpawnIntervalSeconds: 3,
+        maxSpawnIntervalSeconds: 7,
+        maxOnBoard: 3,
+        pickupRadiusPixels: 9,
+        spawnAttempts: 40,
+        effectDurationSeconds: 6,
+        speedUpMultiplier: 1.6,
+        slowDownMultiplier: 0.6,
+        thickMultiplier: 2.5,
+        thinMultiplier: 0.5,
+        offers: [
+            {effect: "speedUp", target: "self"},
+            {effect: "speedUp", target: "opponents"},
+            {effect: "slowDown", target: "self"},
+            {effect: "slowDown", target: "opponents"},
+            {effect: "thin", target: "self"},
+            {effect: "thick", target: "opponents"},
+            {effect: "wallPass", target: "self"},
+            {effect: "reverseControls", target: "opponents"},
+            {effect: "clearBoard", target: "self"},
+        ],
+    },
+    BOTS: {
+        raysPerSide: 3,
+        raySpreadRadians: Math.PI / 2,
+        levels: {
+            easy: {lookAheadPixels: 40, reactionDelaySeconds: 0.3},
+            medium: {lookAheadPixels: 80, reactionDelaySeconds: 0.12},
+            hard: {lookAheadPixels: 140, reactionDelaySeconds: 0.04},
+        },
+    },
+    BORDER: {
+        thicknessPixels: 4, // grubość ramki
+        insetPixels: 4,     // odsunięcie ramki od krawędzi canvasa (żeby była w pełni widoczna)
+    },
+    SUDDEN_DEATH: {
+        enabled: false,
+        startSeconds: 60,
+        mode: "steps",
+        shrinkPixelsPerSecond: 6,
+        stepPixels: 40,
+        stepIntervalSeconds: 8,
+        warningSeconds: 3,
+        minArenaPixels: 120,
+    },
+    RENDER: {
+        smoothLines: false,
+    },
+    ARENA: {
+        widthPixels: 1280,
+        heightPixels: 720,
+        boardPixelRatio: 2,
+        mode: "walled",
+        wrapDashPixels: 10,
+        map: null,
+    },
+};
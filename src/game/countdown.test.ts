@@ -0,0 +1,25 @@
+import {advanceCountdown, countdownNumber, createCountdown} from "./countdown";
+
+test("counts down 3-2-1 and then lets the round start", () => {
+    const countdown = createCountdown(3);
+    if (!countdown) throw new Error("expected a countdown");
+    const shown: number[] = [];
+    let isDone = false;
+    while (!isDone) {
+        shown.push(countdownNumber(countdown));
+        isDone = advanceCountdown(countdown, 0.25);
+    }
+    expect(shown.filter((value, index) => shown.indexOf(value) === index)).toEqual([3, 2, 1]);
+    expect(shown).toHaveLength(12);
+});
+
+test("a zero-second countdown starts the round at once", () => {
+    expect(createCountdown(0)).toBeNull();
+});
+
+test("a long frame after the tab was hidden does not skip the countdown", () => {
+    const countdown = createCountdown(3);
+    if (!countdown) throw new Error("expected a countdown");
+    expect(advanceCountdown(countdown, 10)).toBe(false);
+    expect(countdownNumber(countdown)).toBe(3);
+});
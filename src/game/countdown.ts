@@ -0,0 +1,27 @@
+/* =========================================
+ * Odliczanie 3-2-1 przed startem i wznowieniem rundy
+ * =========================================
+ * Liczy czas klatek ekranu, nie kroki fizyki – symulacja w tym czasie stoi.
+ */
+export type Countdown = {
+    secondsLeft: number;
+};
+
+/** Pojedyncza klatka liczy się najwyżej tyle – po przycięciu przeglądarki odliczanie nie przeskakuje. */
+const MAX_FRAME_SECONDS = 0.25;
+
+/** Nowe odliczanie albo `null`, gdy `seconds` to 0 (runda rusza od razu). */
+export function createCountdown(seconds: number): Countdown | null {
+    return seconds > 0 ? {secondsLeft: seconds} : null;
+}
+
+/** Dolicza czas klatki. Zwraca `true`, gdy odliczanie dobiegło końca i runda ma ruszyć. */
+export function advanceCountdown(countdown: Countdown, frameSeconds: number): boolean {
+    countdown.secondsLeft -= Math.min(Math.max(0, frameSeconds), MAX_FRAME_SECONDS);
+    return countdown.secondsLeft <= 0;
+}
+
+/** Liczba na ekranie: 3, 2, 1. */
+export function countdownNumber(countdown: Countdown): number {
+    return Math.max(1, Math.ceil(countdown.secondsLeft));
+}
@@ -0,0 +1,64 @@
+import {CONFIG, GameConfig} from "./config";
+import {averageFps, createDebugState, recordCrashPixels, recordFrameTime, takeFrameSteps} from "./debugOverlay";
+import {createSimulation, SimulationState, stepSimulation, toggleMovement} from "./simulation";
+import {createTrailMask, markVisitedCircle, trailOwnerAt} from "./trailMask";
+import {PlayerInput} from "./types";
+
+const FIXED_STEP_SECONDS = 1 / 60;
+const ARENA = {widthPixels: 200, heightPixels: 120};
+const NO_INPUT: PlayerInput[] = CONFIG.PLAYERS.roster.map(() => ({turnLeft: false, turnRight: false}));
+const NO_GAPS_CONFIG: GameConfig = {...CONFIG, GAPS: {...CONFIG.GAPS, enabled: false}};
+
+/** Gracz 1 jedzie w prawo na pionowy ślad gracza 2 (x = 80); gracz 2 jedzie w lewo górą planszy. */
+function roundWithWall(): SimulationState {
+    const state = createSimulation(NO_GAPS_CONFIG, ARENA, 1, CONFIG.PLAYERS.roster.slice(0, 2));
+    state.trailMask = createTrailMask(ARENA.widthPixels, ARENA.heightPixels);
+    state.players[0].positionPixels = {x: 60, y: 60};
+    state.players[1].positionPixels = {x: 100, y: 20};
+    state.players[1].angleRadians = Math.PI;
+    for (let y = 40; y <= 80; y++) markVisitedCircle(state.trailMask, 80, y, 2, 1, 0);
+    toggleMovement(state);
+    return state;
+}
+
+test("frame times keep a short history and give the average fps", () => {
+    const debug = createDebugState();
+    expect(averageFps(debug)).toBe(0);
+    for (let i = 0; i < 500; i++) recordFrameTime(debug, 1 / 50);
+    expect(debug.frameSeconds.length).toBeLessThan(500);
+    expect(averageFps(debug)).toBeCloseTo(50);
+});
+
+test("frame steps requested by key presses are taken once", () => {
+    const debug = createDebugState();
+    debug.pendingFrameSteps = 3;
+    expect(takeFrameSteps(debug)).toBe(3);
+    expect(takeFrameSteps(debug)).toBe(0);
+});
+
+test("crash pixels are the trail pixels under the head at the moment of the crash", () => {
+    const state = roundWithWall();
+    const debug = createDebugState();
+    for (let i = 0; i < 30 && state.players[0].isAlive; i++) {
+        recordCrashPixels(debug, state, stepSimulation(state, NO_INPUT, FIXED_STEP_SECONDS));
+    }
+
+    expect(state.players[0].isAlive).toBe(false);
+    expect(debug.crashes).toHaveLength(1);
+    const [crash] = debug.crashes;
+    expect(crash).toMatchObject({playerIndex: 0, tick: state.players[0].crashedAtTick});
+    expect(crash.pixels.length).toBeGreaterThan(0);
+    expect(crash.pixels.every(({x, y}) => trailOwnerAt(state.trailMask, x, y) === 1)).toBe(true);
+});
+
+test("border crashes have no crash pixels", () => {
+    const state = roundWithWall();
+    state.players[0].positionPixels = {x: 185, y: 100};
+    const debug = createDebugState();
+    for (let i = 0; i < 30 && state.players[0].isAlive; i++) {
+        recordCrashPixels(debug, state, stepSimulation(state, NO_INPUT, FIXED_STEP_SECONDS));
+    }
+
+    expect(state.players[0].deathCause).toEqual({kind: "border"});
+    expect(debug.crashes).toEqual([]);
+});
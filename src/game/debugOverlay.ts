@@ -0,0 +1,226 @@
+import {freshTailOf, SimulationEvent, SimulationState} from "./simulation";
+import {passableOwners} from "./teams";
+import {OBSTACLE_TAG, trailHitPixels} from "./trailMask";
+import {Vector2D} from "./types";
+
+/* =========================================
+ * Podgląd dla programisty: maska kolizji, dziury, zderzenia i czasy klatek
+ * =========================================
+ * Tylko czyta stan symulacji (jak renderer). Piksele zderzeń zapamiętujemy zaraz po kroku,
+ * w którym ktoś zginął – później maska się zmienia (inni jadą dalej, ślad znika, plansza się czyści).
+ */
+
+/** Piksele maski, w które gracz uderzył w kroku `tick` (przy ramce – pusta lista). */
+export type CrashPixels = {
+    playerIndex: number;
+    tick: number;
+    pixels: Vector2D[];
+};
+
+export type DebugState = {
+    isVisible: boolean;
+    isFrameStepping: boolean; // runda idzie tylko o krok na naciśnięcie klawisza
+    pendingFrameSteps: number;
+    frameSeconds: number[]; // czasy ostatnich klatek, od najstarszej
+    crashes: CrashPixels[];
+    maskCanvas: HTMLCanvasElement | null; // bufor obrazu maski (tworzony przy pierwszym rysowaniu)
+};
+
+/** Ile ostatnich klatek pokazują wykresy. */
+const FRAME_HISTORY = 120;
+
+export function createDebugState(): DebugState {
+    return {isVisible: false, isFrameStepping: false, pendingFrameSteps: 0, frameSeconds: [], crashes: [], maskCanvas: null};
+}
+
+export function recordFrameTime(debug: DebugState, frameSeconds: number): void {
+    debug.frameSeconds.push(frameSeconds);
+    if (debug.frameSeconds.length > FRAME_HISTORY) debug.frameSeconds.shift();
+}
+
+/** Średnia liczba klatek na sekundę z historii (0 bez pomiarów). */
+export function averageFps(debug: DebugState): number {
+    const totalSeconds = debug.frameSeconds.reduce((sum, seconds) => sum + seconds, 0);
+    return totalSeconds > 0 ? debug.frameSeconds.length / totalSeconds : 0;
+}
+
+/** Kroki zamówione klawiszem w trybie krok po kroku – zwraca ich liczbę i zeruje kolejkę. */
+export function takeFrameSteps(debug: DebugState): number {
+    const steps = debug.pendingFrameSteps;
+    debug.pendingFrameSteps = 0;
+    return steps;
+}
+
+/** Zapamiętuje piksele zderzeń z kroku, który właśnie się wykonał (wołać od razu po `stepSimulation`). */
+export function recordCrashPixels(debug: DebugState, state: SimulationState, events: readonly SimulationEvent[]): void {
+    for (const event of events) {
+        if (event.type !== "playerCrashed") continue;
+        const {playerIndex} = event;
+        const player = state.players[playerIndex];
+        const cause = player.deathCause?.kind;
+        if (!player.crashPositionPixels || (cause !== "trail" && cause !== "obstacle")) continue;
+        const pixels = trailHitPixels(
+            state.trailMask,
+            player.crashPositionPixels,
+            player.radiusPixels,
+            freshTailOf(state, playerIndex),
+            passableOwners(state.config, state.players, playerIndex)
+        );
+        debug.crashes = [...debug.crashes.filter((crash) => crash.playerIndex !== playerIndex), {playerIndex, tick: state.tick, pixels}];
+    }
+}
+
+/* ---------- Rysowanie ---------- */
+
+const FRESH_TAIL_RGBA = [255, 255, 255, 230];
+const CORRIDOR_RGBA = [0, 229, 255, 110];
+const OBSTACLE_RGBA = [255, 0, 200, 160];
+const TRAIL_ALPHA = 140;
+const CRASH_HEX = "#ff1744";
+
+function hexToRgb(hex: string): number[] {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Obraz maski: ślad w kolorze właściciela, świeży ogon (nie zabija właściciela) na biało,
+ * korytarze dziur (z krawędziami, które jeszcze przepuszczają) na niebiesko, przeszkody na fioletowo.
+ */
+function paintMaskImage(image: ImageData, state: SimulationState): void {
+    const {owner, drawnAtTick, corridorUntilTick} = state.trailMask;
+    const {data} = image;
+    const colors = state.players.map((player) => [...hexToRgb(player.colorHex), TRAIL_ALPHA]);
+    const freshSince = state.players.map((_, index) => freshTailOf(state, index).sinceTick);
+    for (let index = 0; index < owner.length; index++) {
+        const tag = owner[index];
+        let rgba: number[] | null = null;
+        if (tag === OBSTACLE_TAG) rgba = OBSTACLE_RGBA;
+        else if (corridorUntilTick[index] > 0 && (tag === 0 || drawnAtTick[index] <= corridorUntilTick[index])) rgba = CORRIDOR_RGBA;
+        else if (tag !== 0) rgba = drawnAtTick[index] >= freshSince[tag - 1] ? FRESH_TAIL_RGBA : colors[tag - 1];
+        const offset = index * 4;
+        data[offset] = rgba?.[0] ?? 0;
+        data[offset + 1] = rgba?.[1] ?? 0;
+        data[offset + 2] = rgba?.[2] ?? 0;
+        data[offset + 3] = rgba?.[3] ?? 0;
+    }
+}
+
+/** Warstwa podglądu na planszy (we współrzędnych pola): maska, okręgi kolizji głów i piksele zderzeń. */
+export function drawDebugBoard(ctx: CanvasRenderingContext2D, state: SimulationState, debug: DebugState): void {
+    const {widthPixels, heightPixels} = state.trailMask;
+    const maskCanvas = debug.maskCanvas ?? document.createElement("canvas");
+    debug.maskCanvas = maskCanvas;
+    if (maskCanvas.width !== widthPixels || maskCanvas.height !== heightPixels) {
+        maskCanvas.width = widthPixels;
+        maskCanvas.height = heightPixels;
+    }
+    const maskContext = maskCanvas.getContext("2d");
+    if (maskContext) {
+        const image = maskContext.createImageData(widthPixels, heightPixels);
+        paintMaskImage(image, state);
+        maskContext.putImageData(image, 0, 0);
+        ctx.save();
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(maskCanvas, -0.5, -0.5); // piksel (x, y) maski ma środek w (x, y), jak w rendererze
+        ctx.restore();
+    }
+
+    ctx.lineWidth = 0.5;
+    state.players.forEach((player, index) => {
+        if (player.isAlive) {
+            ctx.beginPath();
+            ctx.arc(player.positionPixels.x, player.positionPixels.y, player.radiusPixels, 0, Math.PI * 2);
+            ctx.strokeStyle = player.gap.isActive ? `rgb(${CORRIDOR_RGBA.slice(0, 3).join(", ")})` : "#ffffff";
+            ctx.stroke();
+            return;
+        }
+        const crash = debug.crashes.find((entry) => entry.playerIndex === index && entry.tick === player.crashedAtTick);
+        if (!player.crashPositionPixels) return;
+        ctx.fillStyle = CRASH_HEX;
+        for (const {x, y} of crash?.pixels ?? []) ctx.fillRect(x - 0.5, y - 0.5, 1, 1);
+        ctx.beginPath();
+        ctx.arc(player.crashPositionPixels.x, player.crashPositionPixels.y, player.radiusPixels, 0, Math.PI * 2);
+        ctx.strokeStyle = CRASH_HEX;
+        ctx.stroke();
+    });
+}
+
+const PANEL_FONT = "12px ui-monospace, SFMono-Regular, Menlo, Consolas, monospace";
+const LINE_HEIGHT = 15;
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 40;
+
+/** Wykres słupkowy ostatnich wartości (0…`maxValue`) z poziomymi liniami pomocniczymi. */
+function drawGraph(
+    ctx: CanvasRenderingContext2D,
+    values: readonly number[],
+    maxValue: number,
+    guides: readonly number[],
+    left: number,
+    top: number,
+    colorHex: string
+): void {
+    ctx.fillStyle = "rgba(255, 255, 255, 0.08)";
+    ctx.fillRect(left, top, GRAPH_WIDTH, GRAPH_HEIGHT);
+    const barWidth = GRAPH_WIDTH / FRAME_HISTORY;
+    ctx.fillStyle = colorHex;
+    values.forEach((value, index) => {
+        const height = (Math.min(value, maxValue) / maxValue) * GRAPH_HEIGHT;
+        ctx.fillRect(left + index * barWidth, top + GRAPH_HEIGHT - height, Math.max(1, barWidth - 0.5), height);
+    });
+    ctx.fillStyle = "rgba(255, 255, 255, 0.5)";
+    for (const guide of guides) ctx.fillRect(left, top + GRAPH_HEIGHT - (guide / maxValue) * GRAPH_HEIGHT, GRAPH_WIDTH, 1);
+}
+
+/**
+ * Panel w lewym dolnym rogu ekranu (w pikselach CSS): krok i czas klatki, FPS, zegary dziur graczy
+ * i wykresy czasu klatki oraz FPS. Gość nie ma maski ani zegarów – widzi tylko czasy klatek.
+ */
+export function drawDebugPanel(
+    ctx: CanvasRenderingContext2D,
+    state: SimulationState | null,
+    debug: DebugState,
+    viewportHeightPixels: number
+): void {
+    const lastFrameSeconds = debug.frameSeconds[debug.frameSeconds.length - 1] ?? 0;
+    const lines = [`dt ${(lastFrameSeconds * 1000).toFixed(1)} ms • ${averageFps(debug).toFixed(0)} fps`];
+    if (state) {
+        const stepText = debug.isFrameStepping ? " • frame step: ] next tick, \\ resume" : "";
+        lines.push(`tick ${state.tick} • step ${(state.config.PHYSICS.fixedStepSeconds * 1000).toFixed(2)} ms${stepText}`);
+        for (const player of state.players) {
+            const {gap} = player;
+            let gapText = gap.isActive ? `in gap, ${gap.remainingGapTime.toFixed(2)} s left` : `next gap in ${gap.timeUntilNextGap.toFixed(2)} s`;
+            if (!player.isAlive) gapText = `dead at tick ${player.crashedAtTick} (${player.deathCause?.kind ?? "?"})`;
+            lines.push(`${player.name}: ${gapText}`);
+        }
+        lines.push("white: fresh tail • cyan: gap corridor • red: crash pixels");
+    } else {
+        lines.push("no collision mask on a guest");
+    }
+
+    const padding = 8;
+    const height = padding * 3 + lines.length * LINE_HEIGHT + 2 * (GRAPH_HEIGHT + LINE_HEIGHT);
+    const left = 12;
+    const top = viewportHeightPixels - height - 12;
+    ctx.save();
+    ctx.font = PANEL_FONT;
+    const width = Math.max(GRAPH_WIDTH, ...lines.map((line) => ctx.measureText(line).width)) + 2 * padding;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.75)";
+    ctx.fillRect(left, top, width, height);
+    ctx.textBaseline = "top";
+    ctx.fillStyle = "#ffffff";
+    lines.forEach((line, index) => ctx.fillText(line, left + padding, top + padding + index * LINE_HEIGHT));
+
+    let graphTop = top + padding * 2 + lines.length * LINE_HEIGHT;
+    ctx.fillText("frame time (ms)", left + padding, graphTop);
+    graphTop += LINE_HEIGHT;
+    drawGraph(ctx, debug.frameSeconds.map((seconds) => seconds * 1000), 50, [1000 / 60, 1000 / 30], left + padding, graphTop, "#ffd166");
+    graphTop += GRAPH_HEIGHT;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText("fps", left + padding, graphTop);
+    graphTop += LINE_HEIGHT;
+    const fps = debug.frameSeconds.map((seconds) => (seconds > 0 ? 1 / seconds : 0));
+    drawGraph(ctx, fps, 150, [30, 60], left + padding, graphTop, "#06d6a0");
+    ctx.restore();
+}
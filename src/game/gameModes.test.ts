@@ -0,0 +1,74 @@
+import {CONFIG, GameConfig} from "./config";
+import {CLASSIC_MODE, GameMode, gameModeOf, speedRampMultiplier} from "./gameModes";
+import {createMatch, recordRound} from "./match";
+import {SimulationState} from "./simulation";
+import {runSteps, setupRound} from "./testing";
+import {trailOwnerAt} from "./trailMask";
+import {GameModeId} from "./types";
+
+function configFor(id: GameModeId, gameMode: Partial<GameConfig["GAME_MODE"]> = {}): GameConfig {
+    return {...CONFIG, GAPS: {...CONFIG.GAPS, enabled: false}, GAME_MODE: {...CONFIG.GAME_MODE, ...gameMode, id}};
+}
+
+/** Gracze jadą w prawo z lewej połowy – daleko od siebie i od ramki. */
+function startRound(config: GameConfig): SimulationState {
+    return setupRound(config, [[20, 30, 0], [20, 90, 0]]);
+}
+
+test("the mode comes from the config", () => {
+    expect(gameModeOf(CONFIG)).toBe(CLASSIC_MODE);
+    expect(gameModeOf(configFor("speed-ramp")).id).toBe("speed-ramp");
+});
+
+test("speed ramp speeds everyone up over the round, up to the cap", () => {
+    const config = configFor("speed-ramp", {speedRampPerSecond: 0.5, maxSpeedMultiplier: 1.5});
+    expect(speedRampMultiplier(config, 0.5)).toBe(1.25);
+    expect(speedRampMultiplier(config, 10)).toBe(1.5);
+
+    const state = startRound(config);
+    runSteps(state, 60);
+    const {forwardSpeedPixelsPerSecond, turnSpeedRadiansPerSecond} = config.PHYSICS;
+    expect(state.players[0].speedPixelsPerSecond).toBeCloseTo(forwardSpeedPixelsPerSecond * 1.25);
+    expect(state.players[0].turnSpeedRadiansPerSecond).toBeCloseTo(turnSpeedRadiansPerSecond * 1.25);
+});
+
+test("decaying tails erase old trail and report the freed pixels", () => {
+    const state = startRound(configFor("decaying-tails", {tailSeconds: 0.5}));
+    const start = {...state.players[0].positionPixels};
+    const events = runSteps(state, 90);
+
+    expect(state.players.every((player) => player.isAlive)).toBe(true);
+    expect(trailOwnerAt(state.trailMask, start.x + 2, start.y)).toBeNull();
+    const head = state.players[0].positionPixels;
+    expect(trailOwnerAt(state.trailMask, Math.round(head.x) - 2, Math.round(head.y))).toBe(0);
+    expect(events.some((event) => event.type === "trailsErased" && event.pixelRuns.length > 0)).toBe(true);
+});
+
+test("classic trails never decay", () => {
+    const state = startRound(configFor("classic", {tailSeconds: 0.5}));
+    const start = {...state.players[0].positionPixels};
+    const events = runSteps(state, 90);
+
+    expect(trailOwnerAt(state.trailMask, start.x + 2, start.y)).toBe(0);
+    expect(events.some((event) => event.type === "trailsErased")).toBe(false);
+});
+
+test("a mode decides which crashes kill, when the round ends and how it is scored", () => {
+    const forgivingBorder: GameMode = {
+        ...CLASSIC_MODE,
+        isDeadlyCrash: (_, __, cause) => cause.kind !== "border",
+        isRoundDecided: (state) => state.tick >= 120,
+        scoreRound: (state) => state.players.map(() => 3),
+    };
+    const state = startRound(CONFIG);
+    state.mode = forgivingBorder;
+    state.players.forEach((player) => (player.positionPixels.x = 170));
+    const events = runSteps(state, 150);
+
+    // jadąc w prawo, obaj przejechali przez ramkę na drugą stronę; runda stanęła po 120 krokach
+    expect(state.players.every((player) => player.isAlive)).toBe(true);
+    expect(state.players[0].positionPixels.x).toBeLessThan(170);
+    expect(state.tick).toBe(120);
+    expect(events.filter((event) => event.type === "roundEnded")).toHaveLength(1);
+    expect(recordRound(createMatch(CONFIG, ["A", "B"]), state).pointsByPlayer).toEqual([3, 3]);
+});
@@ -0,0 +1,101 @@
+import {GameConfig} from "./config";
+import {scoreRound} from "./match";
+import {updatePlayerPhysics} from "./powerUps";
+import {SimulationEvent, SimulationState} from "./simulation";
+import {isOneSideLeft} from "./teams";
+import {eraseTrailsDrawnBefore} from "./trailMask";
+import {DeathCause, GameModeId} from "./types";
+
+/* =========================================
+ * Tryby gry: warianty zasad podpięte pod symulację
+ * =========================================
+ * Tryb dostaje stan symulacji w kilku stałych miejscach rundy i może go zmieniać (jak reszta symulacji –
+ * deterministycznie, więc powtórki i goście widzą to samo co host). Zmiany widoczne na planszy
+ * zgłasza zdarzeniami, które renderer dorysowuje na warstwie śladu.
+ */
+export type GameMode = {
+    readonly id: GameModeId;
+    readonly name: string;
+    readonly description: string;
+    /** Po rozstawieniu graczy na nową rundę (maska, starty i zegary są już gotowe). */
+    readonly setupRound: (state: SimulationState) => void;
+    /** Co krok ruchu – po zegarach gapów, sudden death i power-upach, przed ruchem graczy. */
+    readonly updateTick: (state: SimulationState, deltaTimeSeconds: number, events: SimulationEvent[]) => void;
+    /**
+     * Czy zderzenie zabija gracza. Przy `false` gracz jedzie dalej: przez ślad albo przeszkodę na wprost,
+     * a przez ramkę – na drugą stronę pola (jak z `wallPass`).
+     */
+    readonly isDeadlyCrash: (state: SimulationState, playerIndex: number, cause: DeathCause) => boolean;
+    /** Punkty za zakończoną rundę (kolejność jak `state.players`). */
+    readonly scoreRound: (state: SimulationState) => number[];
+    /** Czy runda jest rozstrzygnięta – wtedy symulacja ją kończy. */
+    readonly isRoundDecided: (state: SimulationState) => boolean;
+};
+
+/** Zwykłe Kurve: każde zderzenie zabija, punkt za każdego przeżytego rywala, runda do ostatniej strony. */
+export const CLASSIC_MODE: GameMode = {
+    id: "classic",
+    name: "Classic",
+    description: "Last one standing wins the round.",
+    setupRound: () => undefined,
+    updateTick: () => undefined,
+    isDeadlyCrash: () => true,
+    scoreRound: (state) => scoreRound(state),
+    isRoundDecided: (state) => isOneSideLeft(state.players),
+};
+
+/** Co ile kroków sprawdzamy wiek śladu – przegląd całej maski w każdym kroku byłby za drogi. */
+const DECAY_CHECK_TICKS = 30;
+
+/** Ślad znika po `GAME_MODE.tailSeconds`; zwolnione piksele idą do renderera w zdarzeniu `trailsErased`. */
+export const DECAYING_TAILS_MODE: GameMode = {
+    ...CLASSIC_MODE,
+    id: "decaying-tails",
+    name: "Decaying tails",
+    description: "Trails vanish a few seconds after they are drawn.",
+    updateTick: (state, deltaTimeSeconds, events) => {
+        if (state.tick % DECAY_CHECK_TICKS !== 0) return;
+        const tailTicks = Math.round(state.config.GAME_MODE.tailSeconds / deltaTimeSeconds);
+        if (state.tick <= tailTicks) return;
+        const pixelRuns = eraseTrailsDrawnBefore(state.trailMask, state.tick - tailTicks);
+        if (pixelRuns.length > 0) events.push({type: "trailsErased", pixelRuns});
+    },
+};
+
+/** Mnożnik prędkości po `seconds` ruchu w trybie `speed-ramp`. */
+export function speedRampMultiplier(config: GameConfig, seconds: number): number {
+    const {speedRampPerSecond, maxSpeedMultiplier} = config.GAME_MODE;
+    return Math.min(maxSpeedMultiplier, 1 + speedRampPerSecond * seconds);
+}
+
+/** Wszyscy przyspieszają z czasem rundy; skręt rośnie razem z prędkością, więc promień zakrętu zostaje ten sam. */
+export const SPEED_RAMP_MODE: GameMode = {
+    ...CLASSIC_MODE,
+    id: "speed-ramp",
+    name: "Speed ramp",
+    description: "Everyone speeds up the longer the round lasts.",
+    updateTick: (state, deltaTimeSeconds) => {
+        // krok ma stałą długość, więc czas ruchu to liczba kroków razy krok
+        const multiplier = speedRampMultiplier(state.config, state.tick * deltaTimeSeconds);
+        for (const player of state.players) {
+            if (!player.isAlive) continue;
+            updatePlayerPhysics(state.config, player);
+            player.speedPixelsPerSecond *= multiplier;
+            player.turnSpeedRadiansPerSecond *= multiplier;
+        }
+    },
+};
+
+/** Rejestr trybów do wyboru w lobby i w ustawieniach (kolejność jak na liście). */
+export const GAME_MODES: Readonly<Record<GameModeId, GameMode>> = {
+    "classic": CLASSIC_MODE,
+    "decaying-tails": DECAYING_TAILS_MODE,
+    "speed-ramp": SPEED_RAMP_MODE,
+};
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as GameModeId[];
+
+/** Tryb z konfiguracji (nieznany identyfikator – klasyczny). */
+export function gameModeOf(config: GameConfig): GameMode {
+    return GAME_MODES[config.GAME_MODE.id] ?? CLASSIC_MODE;
+}
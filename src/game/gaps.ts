@@ -0,0 +1,44 @@
+import {GameConfig} from "./config";
+import {randomInRange, RandomState} from "./random";
+import {GapState} from "./types";
+
+/* =========================
+ * Dziury w śladzie
+ * ========================= */
+export function initGapState(config: GameConfig, random: RandomState): GapState {
+    return {
+        isActive: false,
+        timeUntilNextGap: randomInRange(random, config.GAPS.minIntervalSeconds, config.GAPS.maxIntervalSeconds),
+        remainingGapTime: 0,
+    };
+}
+
+export function updateGap(
+    config: GameConfig,
+    random: RandomState,
+    gap: GapState,
+    deltaTimeSeconds: number
+): void {
+    if (!config.GAPS.enabled) return;
+    if (gap.isActive) {
+        gap.remainingGapTime -= deltaTimeSeconds;
+        if (gap.remainingGapTime <= 0) {
+            gap.isActive = false;
+            gap.timeUntilNextGap = randomInRange(
+                random,
+                config.GAPS.minIntervalSeconds,
+                config.GAPS.maxIntervalSeconds
+            );
+        }
+    } else {
+        gap.timeUntilNextGap -= deltaTimeSeconds;
+        if (gap.timeUntilNextGap <= 0) {
+            gap.isActive = true;
+            gap.remainingGapTime = randomInRange(
+                random,
+                config.GAPS.minDurationSeconds,
+                config.GAPS.maxDurationSeconds
+            );
+        }
+    }
+}
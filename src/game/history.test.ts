@@ -0,0 +1,66 @@
+import {CONFIG} from "./config";
+import {createMatchRecord, createRoundRecord, parseHistoryExport, roundPlacements, serializeHistoryExport} from "./history";
+import {createMatch, recordRound} from "./match";
+import {createSimulation, eliminatePlayer, toggleMovement} from "./simulation";
+
+const ARENA = {widthPixels: 200, heightPixels: 120};
+const THREE_PLAYERS = CONFIG.PLAYERS.roster.slice(0, 3);
+const FINISHED_AT = new Date("2024-05-01T12:00:00Z");
+
+function finishedRound() {
+    const state = createSimulation(CONFIG, ARENA, 3, THREE_PLAYERS);
+    toggleMovement(state);
+    state.tick = 10;
+    state.players[2].isAlive = false;
+    state.players[2].crashedAtTick = 4;
+    state.players[2].deathCause = {kind: "trail", ownerIndex: 0};
+    state.players[1].isAlive = false;
+    state.players[1].crashedAtTick = 9;
+    state.players[1].deathCause = {kind: "trail", ownerIndex: 1};
+    eliminatePlayer(state, 0); // nikt nie przeżył – rozłączenie w ostatnim kroku
+    return state;
+}
+
+test("round placements follow the order of deaths", () => {
+    const state = finishedRound();
+    expect(roundPlacements(state)).toEqual([1, 2, 3]);
+    state.players[1].crashedAtTick = 4;
+    expect(roundPlacements(state)).toEqual([1, 2, 2]);
+});
+
+test("a round record keeps survival, points, placement and what killed each player", () => {
+    const state = finishedRound();
+    const match = createMatch(CONFIG, THREE_PLAYERS.map((setup) => setup.name));
+    const result = recordRound(match, state);
+    const record = createRoundRecord("m1", result, state, ["ada", null, "bob"], FINISHED_AT);
+
+    expect(record.id).toBe("m1/1");
+    expect(record.finishedAt).toBe("2024-05-01T12:00:00.000Z");
+    expect(record.players.map((player) => player.profileId)).toEqual(["ada", null, "bob"]);
+    expect(record.players.map((player) => player.placement)).toEqual([1, 2, 3]);
+    expect(record.players.map((player) => player.points)).toEqual(result.pointsByPlayer);
+    expect(record.players.map((player) => player.deathCause)).toEqual(["disconnected", "ownTrail", "trail"]);
+    expect(record.players[2].killedByName).toBe(THREE_PLAYERS[0].name);
+});
+
+test("a match record puts the winner first even on equal points", () => {
+    const match = {...createMatch(CONFIG, ["A", "B", "C"]), totals: [20, 20, 5], winnerIndex: 1};
+    const record = createMatchRecord("m1", FINISHED_AT, match, ["#000000", "#111111", "#222222"], [null, null, null], FINISHED_AT);
+    expect(record.players.map((player) => player.placement)).toEqual([2, 1, 3]);
+});
+
+test("a backup reads back the same and broken files are rejected with a reason", () => {
+    const history = {rounds: [], matches: [{
+        id: "m1", startedAt: "a", finishedAt: "b", roundCount: 1,
+        players: [{profileId: "ada", name: "Ada", colorHex: "#112233", points: 1, placement: 1}],
+    }]};
+    const profiles = [{id: "ada", name: "Ada", colorHex: "#112233"}];
+    const backup = parseHistoryExport(serializeHistoryExport(profiles, history, FINISHED_AT));
+    expect(backup.profiles).toEqual(profiles);
+    expect(backup.matches).toEqual(history.matches);
+
+    expect(() => parseHistoryExport("nope")).toThrow("Invalid stats file: not JSON");
+    expect(() => parseHistoryExport(JSON.stringify({version: 7}))).toThrow(/unsupported version/);
+    expect(() => parseHistoryExport(JSON.stringify({version: 1, profiles: []}))).toThrow(/missing/);
+    expect(() => parseHistoryExport(JSON.stringify({version: 1, profiles: [], rounds: [{}], matches: []}))).toThrow(/broken/);
+});
@@ -0,0 +1,174 @@
+import {isMatchWinner, MatchState, RoundResult} from "./match";
+import {PlayerProfile, sanitizeProfiles} from "./profiles";
+import {SimulationState} from "./simulation";
+import {DeathCause} from "./types";
+
+/* =========================================
+ * Historia gier: zapisy rozegranych rund i meczów, kopia zapasowa w JSON-ie
+ * =========================================
+ * Zapisy są płaskie i samowystarczalne (nazwy i kolory z chwili gry), więc statystyki
+ * da się policzyć także po zmianie albo usunięciu profilu.
+ */
+export type DeathCauseKind = DeathCause["kind"] | "ownTrail";
+
+export type RoundPlayerRecord = {
+    profileId: string | null; // null – gracz bez profilu (domyślny, bot albo gość w sieci)
+    name: string;
+    colorHex: string;
+    survivalSeconds: number;
+    placement: number; // 1 = przeżył najdłużej; zabici w tym samym kroku dzielą miejsce
+    points: number;
+    deathCause: DeathCauseKind | null; // null – dotrwał do końca rundy
+    killedByName: string | null;       // właściciel śladu, w który wjechał (przy `trail`)
+};
+
+export type RoundRecord = {
+    id: string;
+    matchId: string;
+    roundNumber: number;
+    finishedAt: string;
+    players: RoundPlayerRecord[];
+};
+
+export type MatchPlayerRecord = {
+    profileId: string | null;
+    name: string;
+    colorHex: string;
+    points: number;
+    placement: number; // 1 = zwycięzca meczu
+};
+
+export type MatchRecord = {
+    id: string;
+    startedAt: string;
+    finishedAt: string;
+    roundCount: number;
+    players: MatchPlayerRecord[];
+};
+
+export type GameHistory = {
+    rounds: RoundRecord[];
+    matches: MatchRecord[];
+};
+
+export const HISTORY_EXPORT_VERSION = 1;
+
+export type HistoryExport = GameHistory & {
+    version: number;
+    exportedAt: string;
+    profiles: PlayerProfile[];
+};
+
+/** Miejsca wg wartości (większa = lepiej); równe wartości dzielą miejsce. */
+function rankDescending(values: readonly number[]): number[] {
+    return values.map((value) => values.filter((other) => other > value).length + 1);
+}
+
+/** Miejsca w rundzie wg kroku śmierci – kto żyje do końca, jest pierwszy. */
+export function roundPlacements(state: SimulationState): number[] {
+    return rankDescending(state.players.map((player) => player.crashedAtTick ?? Infinity));
+}
+
+function describeCause(state: SimulationState, playerIndex: number): Pick<RoundPlayerRecord, "deathCause" | "killedByName"> {
+    const cause = state.players[playerIndex].deathCause;
+    if (!cause) return {deathCause: null, killedByName: null};
+    if (cause.kind !== "trail") return {deathCause: cause.kind, killedByName: null};
+    if (cause.ownerIndex === playerIndex) return {deathCause: "ownTrail", killedByName: null};
+    return {deathCause: "trail", killedByName: state.players[cause.ownerIndex]?.name ?? null};
+}
+
+/** Zapis zakończonej rundy. `profileIds[i]` – profil gracza `i` (albo `null`). */
+export function createRoundRecord(
+    matchId: string,
+    result: RoundResult,
+    state: SimulationState,
+    profileIds: readonly (string | null)[],
+    finishedAt: Date
+): RoundRecord {
+    const placements = roundPlacements(state);
+    return {
+        id: `${matchId}/${result.roundNumber}`,
+        matchId,
+        roundNumber: result.roundNumber,
+        finishedAt: finishedAt.toISOString(),
+        players: state.players.map((player, index) => ({
+            profileId: profileIds[index] ?? null,
+            name: player.name,
+            colorHex: player.colorHex,
+            survivalSeconds: result.survivalSecondsByPlayer[index],
+            placement: placements[index],
+            points: result.pointsByPlayer[index],
+            ...describeCause(state, index),
+        })),
+    };
+}
+
+/** Zapis rozstrzygniętego meczu – miejsca wg punktów, zwycięzca (z drużyną) zawsze pierwszy. */
+export function createMatchRecord(
+    matchId: string,
+    startedAt: Date,
+    match: MatchState,
+    colors: readonly string[],
+    profileIds: readonly (string | null)[],
+    finishedAt: Date
+): MatchRecord {
+    const placements = rankDescending(match.totals.map((total, index) => (isMatchWinner(match, index) ? Infinity : total)));
+    return {
+        id: matchId,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        roundCount: match.rounds.length,
+        players: match.playerNames.map((name, index) => ({
+            profileId: profileIds[index] ?? null,
+            name,
+            colorHex: colors[index],
+            points: match.totals[index],
+            placement: placements[index],
+        })),
+    };
+}
+
+export function createMatchId(startedAt: Date): string {
+    return `${startedAt.getTime().toString(36)}-${Math.floor(Math.random() * 36 ** 4).toString(36)}`;
+}
+
+/* ---------- Kopia zapasowa ---------- */
+
+export function serializeHistoryExport(profiles: readonly PlayerProfile[], history: GameHistory, exportedAt: Date): string {
+    const data: HistoryExport = {
+        version: HISTORY_EXPORT_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        profiles: [...profiles],
+        rounds: history.rounds,
+        matches: history.matches,
+    };
+    return JSON.stringify(data);
+}
+
+function hasId(value: unknown): value is { id: string; players: unknown[] } {
+    const record = value as { id?: unknown; players?: unknown } | null;
+    return !!record && typeof record.id === "string" && Array.isArray(record.players);
+}
+
+/** Czyta kopię zapasową; rzuca błąd z czytelnym opisem, jeśli plik nie pasuje do formatu. */
+export function parseHistoryExport(json: string): HistoryExport {
+    let data: Partial<HistoryExport>;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Invalid stats file: not JSON");
+    }
+    if (!data || typeof data !== "object") throw new Error("Invalid stats file: expected an object");
+    if (data.version !== HISTORY_EXPORT_VERSION) throw new Error(`Invalid stats file: unsupported version ${String(data.version)}`);
+    if (!Array.isArray(data.profiles) || !Array.isArray(data.rounds) || !Array.isArray(data.matches)) {
+        throw new Error("Invalid stats file: missing profiles, rounds or matches");
+    }
+    if (!data.rounds.every(hasId) || !data.matches.every(hasId)) throw new Error("Invalid stats file: broken records");
+    return {
+        version: data.version,
+        exportedAt: String(data.exportedAt),
+        profiles: sanitizeProfiles(data.profiles),
+        rounds: data.rounds,
+        matches: data.matches,
+    };
+}
@@ -0,0 +1,36 @@
+import {CONFIG} from "./config";
+import {deathsFromEvents, describeDeath, roundDeaths} from "./killFeed";
+import {createSimulation} from "./simulation";
+
+const NAMES = ["Player 1", "Player 2", "Player 3"];
+
+test("death lines name the cause and the trail owner", () => {
+    expect(describeDeath(NAMES, {playerIndex: 1, cause: {kind: "trail", ownerIndex: 0}})).toBe("Player 2 crashed into Player 1");
+    expect(describeDeath(NAMES, {playerIndex: 2, cause: {kind: "trail", ownerIndex: 2}})).toBe("Player 3 crashed into their own trail");
+    expect(describeDeath(NAMES, {playerIndex: 0, cause: {kind: "border"}})).toBe("Player 1 hit the wall");
+    expect(describeDeath(NAMES, {playerIndex: 0, cause: {kind: "obstacle"}})).toBe("Player 1 hit an obstacle");
+    expect(describeDeath(NAMES, {playerIndex: 1, cause: {kind: "disconnected"}})).toBe("Player 2 disconnected");
+});
+
+test("crash events become reports with the victim's cause", () => {
+    const players = [
+        {name: "Player 1", deathCause: null},
+        {name: "Player 2", deathCause: {kind: "trail" as const, ownerIndex: 0}},
+    ];
+    const events = [{type: "boardCleared" as const}, {type: "playerCrashed" as const, playerIndex: 1}];
+
+    expect(deathsFromEvents(events, players)).toEqual([{playerIndex: 1, cause: {kind: "trail", ownerIndex: 0}}]);
+});
+
+test("round summary lists deaths in the order they happened", () => {
+    const state = createSimulation(CONFIG, {widthPixels: 200, heightPixels: 120}, 1, CONFIG.PLAYERS.roster.slice(0, 3));
+    state.players[0].crashedAtTick = 40;
+    state.players[0].deathCause = {kind: "border"};
+    state.players[2].crashedAtTick = 12;
+    state.players[2].deathCause = {kind: "trail", ownerIndex: 0};
+
+    expect(roundDeaths(state.players)).toEqual([
+        {playerIndex: 2, cause: {kind: "trail", ownerIndex: 0}},
+        {playerIndex: 0, cause: {kind: "border"}},
+    ]);
+});
@@ -0,0 +1,52 @@
+import {SimulationEvent} from "./simulation";
+import {DeathCause, PlayerState} from "./types";
+
+/* =========================================
+ * Kill feed: kto zginął i od czego – wpisy w HUD-zie i podsumowania rund
+ * ========================================= */
+
+/** Śmierć gracza w rundzie. `cause.ownerIndex` (przy `trail`) wskazuje właściciela śladu. */
+export type DeathReport = {
+    playerIndex: number;
+    cause: DeathCause;
+};
+
+type FeedPlayer = Pick<PlayerState, "name" | "deathCause">;
+
+/** Zdanie do kill feedu, np. „Player 2 crashed into Player 1”. */
+export function describeDeath(playerNames: readonly string[], report: DeathReport): string {
+    const name = playerNames[report.playerIndex] ?? "?";
+    const {cause} = report;
+    switch (cause.kind) {
+        case "border":
+            return `${name} hit the wall`;
+        case "obstacle":
+            return `${name} hit an obstacle`;
+        case "disconnected":
+            return `${name} disconnected`;
+        case "trail":
+            return cause.ownerIndex === report.playerIndex
+                ? `${name} crashed into their own trail`
+                : `${name} crashed into ${playerNames[cause.ownerIndex] ?? "?"}`;
+    }
+}
+
+/** Śmierci z kroku symulacji (albo snapshotu hosta) – przyczyny bierze z graczy. */
+export function deathsFromEvents(events: readonly SimulationEvent[], players: readonly FeedPlayer[]): DeathReport[] {
+    const reports: DeathReport[] = [];
+    for (const event of events) {
+        if (event.type !== "playerCrashed") continue;
+        const cause = players[event.playerIndex]?.deathCause;
+        if (cause) reports.push({playerIndex: event.playerIndex, cause});
+    }
+    return reports;
+}
+
+/** Wszystkie śmierci zakończonej rundy w kolejności, w jakiej nastąpiły. */
+export function roundDeaths(players: readonly (FeedPlayer & Pick<PlayerState, "crashedAtTick">)[]): DeathReport[] {
+    return players
+        .map((player, playerIndex) => ({player, playerIndex}))
+        .filter(({player}) => player.deathCause !== null && player.crashedAtTick !== null)
+        .sort((a, b) => (a.player.crashedAtTick ?? 0) - (b.player.crashedAtTick ?? 0))
+        .map(({player, playerIndex}) => ({playerIndex, cause: player.deathCause as DeathCause}));
+}
@@ -0,0 +1,18 @@
+import {fitLetterbox} from "./letterbox";
+
+const arena = {widthPixels: 1280, heightPixels: 720};
+
+test("a wider screen gets bars on the left and right", () => {
+    expect(fitLetterbox(arena, 2000, 720)).toEqual({scale: 1, offsetX: 360, offsetY: 0});
+});
+
+test("a taller screen gets bars at the top and bottom", () => {
+    expect(fitLetterbox(arena, 640, 1000)).toEqual({scale: 0.5, offsetX: 0, offsetY: 320});
+});
+
+test("the arena keeps its size in logical pixels on every screen", () => {
+    const small = fitLetterbox(arena, 1280, 720);
+    const big = fitLetterbox(arena, 2560, 1440);
+    expect(small).toEqual({scale: 1, offsetX: 0, offsetY: 0});
+    expect(big.scale).toBe(2 * small.scale);
+});
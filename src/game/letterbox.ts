@@ -0,0 +1,23 @@
+import {ArenaSize} from "./types";
+
+/* =========================================
+ * Logiczne pole gry na ekranie dowolnej wielkości
+ * =========================================
+ * Symulacja zawsze liczy w stałych pikselach logicznych (`CONFIG.ARENA`), a obraz planszy
+ * jest skalowany z zachowaniem proporcji; wolne miejsce wypełniają pasy po bokach.
+ */
+export type Letterbox = {
+    scale: number;   // piksele ekranu (CSS) na piksel logiczny
+    offsetX: number; // lewy górny róg planszy na ekranie
+    offsetY: number;
+};
+
+/** Największa skala, przy której cała plansza mieści się na ekranie, i wyśrodkowanie. */
+export function fitLetterbox(arena: ArenaSize, screenWidth: number, screenHeight: number): Letterbox {
+    const scale = Math.max(0, Math.min(screenWidth / arena.widthPixels, screenHeight / arena.heightPixels));
+    return {
+        scale,
+        offsetX: (screenWidth - arena.widthPixels * scale) / 2,
+        offsetY: (screenHeight - arena.heightPixels * scale) / 2,
+    };
+}
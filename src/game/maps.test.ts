@@ -0,0 +1,118 @@
+import {getArenaSize} from "./border";
+import {CONFIG} from "./config";
+import {
+    ACTIVE_MAP_STORAGE_KEY,
+    applyMap,
+    bitmapFromImageData,
+    createEmptyMap,
+    deleteMapFromLibrary,
+    encodeBitmapRuns,
+    findObstacleAt,
+    findSpawnAt,
+    loadActiveMap,
+    loadMapLibrary,
+    MAP_LIBRARY_STORAGE_KEY,
+    parseArenaMap,
+    rasterizeMap,
+    saveActiveMap,
+    saveMapToLibrary,
+    serializeArenaMap,
+} from "./maps";
+import {ArenaMap} from "./types";
+
+const SIZE = {widthPixels: 200, heightPixels: 200};
+
+function mapWith(overrides: Partial<ArenaMap>): ArenaMap {
+    return {...createEmptyMap("Test", SIZE), ...overrides};
+}
+
+function isSet(bits: Uint8Array, x: number, y: number): boolean {
+    return bits[y * SIZE.widthPixels + x] === 1;
+}
+
+beforeEach(() => localStorage.clear());
+
+test("shapes are rasterized into obstacle pixels", () => {
+    const bits = rasterizeMap(mapWith({
+        obstacles: [
+            {kind: "rect", x: 10, y: 10, width: 5, height: 3},
+            {kind: "circle", x: 100, y: 100, radius: 4},
+            {kind: "wall", points: [{x: 20, y: 150}, {x: 60, y: 150}], thickness: 4},
+        ],
+    }));
+
+    expect(isSet(bits, 10, 10) && isSet(bits, 14, 12)).toBe(true);
+    expect(isSet(bits, 15, 10) || isSet(bits, 10, 13)).toBe(false);
+    expect(isSet(bits, 104, 100) && !isSet(bits, 105, 100)).toBe(true);
+    expect(isSet(bits, 40, 152) && !isSet(bits, 40, 153) && isSet(bits, 60, 150)).toBe(true);
+});
+
+test("a bitmap from an image keeps its dark opaque pixels and survives run-length encoding", () => {
+    const rgba = new Uint8ClampedArray(SIZE.widthPixels * SIZE.heightPixels * 4).fill(255);
+    const paint = (x: number, y: number, alpha: number) => rgba.set([0, 0, 0, alpha], (y * SIZE.widthPixels + x) * 4);
+    paint(3, 0, 255);
+    paint(4, 0, 255);
+    paint(199, 199, 255);
+    paint(50, 50, 0);
+
+    const bits = bitmapFromImageData(rgba, SIZE.widthPixels, SIZE.heightPixels);
+    expect(bits.reduce((total, bit) => total + bit, 0)).toBe(3);
+    const runs = encodeBitmapRuns(bits);
+    expect(runs.slice(0, 2)).toEqual([3, 2]);
+    expect(rasterizeMap(mapWith({obstacles: [{kind: "bitmap", runs}]}))).toEqual(bits);
+});
+
+test("the editor finds the newest obstacle and spawn point under the cursor", () => {
+    const map = mapWith({
+        obstacles: [
+            {kind: "rect", x: 0, y: 0, width: 50, height: 50},
+            {kind: "circle", x: 40, y: 40, radius: 5},
+        ],
+        spawns: [{x: 150, y: 150, angleRadians: 0}],
+    });
+    expect(findObstacleAt(map, 40, 40)).toBe(1);
+    expect(findObstacleAt(map, 10, 10)).toBe(0);
+    expect(findObstacleAt(map, 100, 100)).toBe(-1);
+    expect(findSpawnAt(map, 153, 150, 5)).toBe(0);
+    expect(findSpawnAt(map, 170, 150, 5)).toBe(-1);
+});
+
+test("a map file reads back the same and broken files are rejected with a reason", () => {
+    const map = mapWith({
+        obstacles: [{kind: "wall", points: [{x: 1, y: 2}, {x: 30, y: 40}], thickness: 6}],
+        spawns: [{x: 20, y: 20, angleRadians: 1}],
+    });
+    expect(parseArenaMap(serializeArenaMap(map))).toEqual(map);
+
+    expect(() => parseArenaMap("{oops")).toThrow("Invalid map file: not JSON");
+    expect(() => parseArenaMap(serializeArenaMap({...map, version: 99}))).toThrow(/unsupported version/);
+    expect(() => parseArenaMap(serializeArenaMap({...map, widthPixels: 10}))).toThrow(/size/);
+    expect(() => parseArenaMap(serializeArenaMap({...map, obstacles: [{kind: "bitmap", runs: [5]}]}))).toThrow(/obstacles/);
+    expect(() => parseArenaMap(serializeArenaMap({...map, spawns: [{x: 500, y: 0, angleRadians: 0}]}))).toThrow(/spawn/);
+});
+
+test("the map library replaces maps by name and skips corrupt entries", () => {
+    saveMapToLibrary(mapWith({name: "Zigzag"}), localStorage);
+    saveMapToLibrary(mapWith({name: "Arena"}), localStorage);
+    const library = saveMapToLibrary(mapWith({name: "Zigzag", spawns: [{x: 5, y: 5, angleRadians: 0}]}), localStorage);
+    expect(library.map((map) => map.name)).toEqual(["Arena", "Zigzag"]);
+    expect(library[1].spawns).toHaveLength(1);
+
+    const stored = JSON.parse(localStorage.getItem(MAP_LIBRARY_STORAGE_KEY) ?? "[]");
+    localStorage.setItem(MAP_LIBRARY_STORAGE_KEY, JSON.stringify([...stored, {name: "broken"}]));
+    expect(loadMapLibrary(localStorage)).toHaveLength(2);
+    expect(deleteMapFromLibrary("Arena", localStorage).map((map) => map.name)).toEqual(["Zigzag"]);
+});
+
+test("the active map is remembered and sets the arena size", () => {
+    const map = createEmptyMap("Small", {widthPixels: 640, heightPixels: 480});
+    saveActiveMap(map, localStorage);
+    expect(loadActiveMap(localStorage)).toEqual(map);
+    expect(getArenaSize(applyMap(CONFIG, loadActiveMap(localStorage)))).toEqual({widthPixels: 640, heightPixels: 480});
+
+    saveActiveMap(null, localStorage);
+    expect(loadActiveMap(localStorage)).toBeNull();
+    localStorage.setItem(ACTIVE_MAP_STORAGE_KEY, "{broken");
+    expect(loadActiveMap(localStorage)).toBeNull();
+    expect(getArenaSize(applyMap(CONFIG, null))).toEqual({widthPixels: CONFIG.ARENA.widthPixels, heightPixels: CONFIG.ARENA.heightPixels});
+});
@@ -0,0 +1,279 @@
+import {getLocalStorage, readStoredJson, writeStoredJson} from "../storage/localStorage";
+import {GameConfig} from "./config";
+import {forEachCirclePixel, sweepPath} from "./trailMask";
+import {ArenaMap, ArenaSize, MapObstacle, SpawnPoint} from "./types";
+
+/* =========================================
+ * Mapy planszy: przeszkody, miejsca startu, zapis w JSON-ie i w localStorage
+ * =========================================
+ * Przeszkody są opisane kształtami (lub bitmapą z PNG) i rasteryzowane do pikseli pola –
+ * ta sama rasteryzacja trafia do maski kolizji i na ekran.
+ */
+export const MAP_FORMAT_VERSION = 1;
+export const MAP_LIBRARY_STORAGE_KEY = "kurve.maps.v1";
+export const ACTIVE_MAP_STORAGE_KEY = "kurve.activeMap.v1";
+
+const MIN_MAP_SIZE_PIXELS = 200;
+const MAX_MAP_SIZE_PIXELS = 4000;
+
+export function createEmptyMap(name: string, arena: ArenaSize): ArenaMap {
+    return {
+        version: MAP_FORMAT_VERSION,
+        name,
+        widthPixels: arena.widthPixels,
+        heightPixels: arena.heightPixels,
+        obstacles: [],
+        spawns: [],
+    };
+}
+
+/** Konfiguracja gry z mapą (`null` = puste pole o rozmiarze z `CONFIG.ARENA`). */
+export function applyMap(config: GameConfig, map: ArenaMap | null): GameConfig {
+    return {...config, ARENA: {...config.ARENA, map}};
+}
+
+/* ---------- Rasteryzacja ---------- */
+
+function fillRectPixels(bits: Uint8Array, map: ArenaMap, obstacle: Extract<MapObstacle, { kind: "rect" }>): void {
+    const minX = Math.max(0, Math.round(obstacle.x));
+    const minY = Math.max(0, Math.round(obstacle.y));
+    const maxX = Math.min(map.widthPixels, Math.round(obstacle.x + obstacle.width));
+    const maxY = Math.min(map.heightPixels, Math.round(obstacle.y + obstacle.height));
+    for (let y = minY; y < maxY; y++) bits.fill(1, y * map.widthPixels + minX, y * map.widthPixels + maxX);
+}
+
+function fillCirclePixels(bits: Uint8Array, map: ArenaMap, x: number, y: number, radius: number): void {
+    forEachCirclePixel(x, y, radius, (pixelX, pixelY) => {
+        if (pixelX < 0 || pixelY < 0 || pixelX >= map.widthPixels || pixelY >= map.heightPixels) return;
+        bits[pixelY * map.widthPixels + pixelX] = 1;
+    });
+}
+
+/** Bitmapa wiersz po wierszu: na zmianę długości wolnych i zajętych pikseli, zaczynając od wolnych. */
+export function encodeBitmapRuns(bits: Uint8Array): number[] {
+    const runs: number[] = [];
+    let current = 0;
+    let length = 0;
+    for (let index = 0; index < bits.length; index++) {
+        if (bits[index] === current) {
+            length++;
+            continue;
+        }
+        runs.push(length);
+        current = bits[index];
+        length = 1;
+    }
+    runs.push(length);
+    return runs;
+}
+
+function fillBitmapRuns(bits: Uint8Array, runs: readonly number[]): void {
+    let index = 0;
+    runs.forEach((length, run) => {
+        if (run % 2 === 1) bits.fill(1, index, Math.min(bits.length, index + length));
+        index += length;
+    });
+}
+
+/** Piksele przeszkód mapy (1 = przeszkoda), w kolejności wierszy jak maska śladu. */
+export function rasterizeMap(map: ArenaMap): Uint8Array {
+    const bits = new Uint8Array(map.widthPixels * map.heightPixels);
+    for (const obstacle of map.obstacles) {
+        switch (obstacle.kind) {
+            case "rect":
+                fillRectPixels(bits, map, obstacle);
+                break;
+            case "circle":
+                fillCirclePixels(bits, map, obstacle.x, obstacle.y, obstacle.radius);
+                break;
+            case "wall": {
+                const radius = obstacle.thickness / 2;
+                const [first, ...rest] = obstacle.points;
+                if (!first) break;
+                fillCirclePixels(bits, map, Math.round(first.x), Math.round(first.y), radius);
+                let previous = first;
+                for (const point of rest) {
+                    for (const center of sweepPath(previous, point)) fillCirclePixels(bits, map, center.x, center.y, radius);
+                    previous = point;
+                }
+                break;
+            }
+            case "bitmap":
+                fillBitmapRuns(bits, obstacle.runs);
+                break;
+        }
+    }
+    return bits;
+}
+
+/** Przeszkody z obrazka (RGBA): ciemne, nieprzezroczyste piksele to ściany. */
+export function bitmapFromImageData(rgba: Uint8ClampedArray, widthPixels: number, heightPixels: number): Uint8Array {
+    const bits = new Uint8Array(widthPixels * heightPixels);
+    for (let index = 0; index < bits.length; index++) {
+        const offset = index * 4;
+        const brightness = (rgba[offset] + rgba[offset + 1] + rgba[offset + 2]) / 3;
+        if (rgba[offset + 3] >= 128 && brightness < 128) bits[index] = 1;
+    }
+    return bits;
+}
+
+/* ---------- Edycja ---------- */
+
+function distanceToSegment(x: number, y: number, a: { x: number; y: number }, b: { x: number; y: number }): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSquared));
+    return Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy));
+}
+
+function obstacleContains(map: ArenaMap, obstacle: MapObstacle, x: number, y: number): boolean {
+    switch (obstacle.kind) {
+        case "rect":
+            return x >= obstacle.x && x <= obstacle.x + obstacle.width && y >= obstacle.y && y <= obstacle.y + obstacle.height;
+        case "circle":
+            return Math.hypot(x - obstacle.x, y - obstacle.y) <= obstacle.radius;
+        case "wall":
+            return obstacle.points.some((point, index) => {
+                const next = obstacle.points[index + 1] ?? point;
+                return distanceToSegment(x, y, point, next) <= obstacle.thickness / 2;
+            });
+        case "bitmap": {
+            const pixelX = Math.round(x);
+            const pixelY = Math.round(y);
+            if (pixelX < 0 || pixelY < 0 || pixelX >= map.widthPixels || pixelY >= map.heightPixels) return false;
+            const bits = new Uint8Array(map.widthPixels * map.heightPixels);
+            fillBitmapRuns(bits, obstacle.runs);
+            return bits[pixelY * map.widthPixels + pixelX] === 1;
+        }
+    }
+}
+
+/** Indeks przeszkody w punkcie (ostatnio dodana wygrywa) albo −1. */
+export function findObstacleAt(map: ArenaMap, x: number, y: number): number {
+    for (let index = map.obstacles.length - 1; index >= 0; index--) {
+        if (obstacleContains(map, map.obstacles[index], x, y)) return index;
+    }
+    return -1;
+}
+
+/** Indeks miejsca startu w promieniu `reachPixels` od punktu albo −1. */
+export function findSpawnAt(map: ArenaMap, x: number, y: number, reachPixels: number): number {
+    return map.spawns.findIndex((spawn) => Math.hypot(spawn.x - x, spawn.y - y) <= reachPixels);
+}
+
+/* ---------- JSON ---------- */
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value);
+}
+
+function isPoint(value: unknown): value is { x: number; y: number } {
+    const point = value as { x?: unknown; y?: unknown } | null;
+    return !!point && isFiniteNumber(point.x) && isFiniteNumber(point.y);
+}
+
+function isObstacle(value: unknown, pixelCount: number): value is MapObstacle {
+    const obstacle = value as Record<string, unknown> | null;
+    if (!obstacle || typeof obstacle !== "object") return false;
+    const hasPosition = isFiniteNumber(obstacle.x) && isFiniteNumber(obstacle.y);
+    switch (obstacle.kind) {
+        case "rect":
+            return hasPosition && isFiniteNumber(obstacle.width) && isFiniteNumber(obstacle.height);
+        case "circle":
+            return hasPosition && isFiniteNumber(obstacle.radius) && obstacle.radius > 0;
+        case "wall":
+            return Array.isArray(obstacle.points) && obstacle.points.length > 0 && obstacle.points.every(isPoint)
+                && isFiniteNumber(obstacle.thickness) && obstacle.thickness > 0;
+        case "bitmap": {
+            const runs = obstacle.runs;
+            if (!Array.isArray(runs) || !runs.every((run) => Number.isInteger(run) && run >= 0)) return false;
+            return runs.reduce((total: number, run: number) => total + run, 0) === pixelCount;
+        }
+        default:
+            return false;
+    }
+}
+
+function isSpawn(value: unknown, map: ArenaSize): value is SpawnPoint {
+    const spawn = value as { x?: unknown; y?: unknown; angleRadians?: unknown } | null;
+    if (!spawn || !isFiniteNumber(spawn.x) || !isFiniteNumber(spawn.y) || !isFiniteNumber(spawn.angleRadians)) return false;
+    return spawn.x >= 0 && spawn.x <= map.widthPixels && spawn.y >= 0 && spawn.y <= map.heightPixels;
+}
+
+/** Sprawdza dane mapy; rzuca błąd z czytelnym opisem, jeśli nie pasują do formatu. */
+export function validateMap(data: unknown): ArenaMap {
+    const map = data as Partial<ArenaMap> | null;
+    if (!map || typeof map !== "object") throw new Error("Invalid map file: expected an object");
+    if (map.version !== MAP_FORMAT_VERSION) throw new Error(`Invalid map file: unsupported version ${String(map.version)}`);
+    if (typeof map.name !== "string" || map.name.trim() === "") throw new Error("Invalid map file: missing name");
+    const {widthPixels, heightPixels} = map;
+    const isValidSize = (size: unknown) =>
+        Number.isInteger(size) && (size as number) >= MIN_MAP_SIZE_PIXELS && (size as number) <= MAX_MAP_SIZE_PIXELS;
+    if (!isValidSize(widthPixels) || !isValidSize(heightPixels)) {
+        throw new Error(`Invalid map file: size must be ${MIN_MAP_SIZE_PIXELS}–${MAX_MAP_SIZE_PIXELS} pixels`);
+    }
+    const size = {widthPixels: widthPixels as number, heightPixels: heightPixels as number};
+    if (!Array.isArray(map.obstacles) || !map.obstacles.every((obstacle) => isObstacle(obstacle, size.widthPixels * size.heightPixels))) {
+        throw new Error("Invalid map file: broken obstacles");
+    }
+    if (!Array.isArray(map.spawns) || !map.spawns.every((spawn) => isSpawn(spawn, size))) {
+        throw new Error("Invalid map file: broken spawn points");
+    }
+    return map as ArenaMap;
+}
+
+export function serializeArenaMap(map: ArenaMap): string {
+    return JSON.stringify(map);
+}
+
+export function parseArenaMap(json: string): ArenaMap {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Invalid map file: not JSON");
+    }
+    return validateMap(data);
+}
+
+/* ---------- localStorage ---------- */
+
+function validOrNull(data: unknown): ArenaMap | null {
+    try {
+        return validateMap(data);
+    } catch {
+        return null;
+    }
+}
+
+/** Zapisane mapy posortowane po nazwie; uszkodzone wpisy są pomijane. */
+export function loadMapLibrary(storage: Storage | null = getLocalStorage()): ArenaMap[] {
+    const saved = readStoredJson(storage, MAP_LIBRARY_STORAGE_KEY);
+    if (!Array.isArray(saved)) return [];
+    return saved
+        .map(validOrNull)
+        .filter((map): map is ArenaMap => map !== null)
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Zapisuje mapę w bibliotece (mapa o tej samej nazwie jest zastępowana). */
+export function saveMapToLibrary(map: ArenaMap, storage: Storage | null = getLocalStorage()): ArenaMap[] {
+    const library = [...loadMapLibrary(storage).filter((saved) => saved.name !== map.name), map];
+    writeStoredJson(storage, MAP_LIBRARY_STORAGE_KEY, library);
+    return loadMapLibrary(storage);
+}
+
+export function deleteMapFromLibrary(name: string, storage: Storage | null = getLocalStorage()): ArenaMap[] {
+    writeStoredJson(storage, MAP_LIBRARY_STORAGE_KEY, loadMapLibrary(storage).filter((saved) => saved.name !== name));
+    return loadMapLibrary(storage);
+}
+
+/** Mapa wybrana do gry (`null` – puste pole). */
+export function loadActiveMap(storage: Storage | null = getLocalStorage()): ArenaMap | null {
+    return validOrNull(readStoredJson(storage, ACTIVE_MAP_STORAGE_KEY));
+}
+
+export function saveActiveMap(map: ArenaMap | null, storage: Storage | null = getLocalStorage()): void {
+    writeStoredJson(storage, ACTIVE_MAP_STORAGE_KEY, map);
+}
@@ -0,0 +1,78 @@
+import {CONFIG, GameConfig} from "./config";
+import {createMatch, isMatchOver, isMatchWinner, recordRound, scoreRound} from "./match";
+import {createSimulation, SimulationState} from "./simulation";
+
+const ARENA = {widthPixels: 200, heightPixels: 120};
+const NAMES = ["Player 1", "Player 2", "Player 3"];
+
+/** Zakończona runda z podanymi krokami śmierci (null = przeżył). */
+function finishedRound(crashTicks: (number | null)[]): SimulationState {
+    const state = createSimulation(CONFIG, ARENA, 1, CONFIG.PLAYERS.roster.slice(0, crashTicks.length));
+    state.players.forEach((player, index) => {
+        player.crashedAtTick = crashTicks[index];
+        player.deathCause = crashTicks[index] === null ? null : {kind: "border"};
+        player.isAlive = crashTicks[index] === null;
+    });
+    state.hasRoundEnded = true;
+    return state;
+}
+
+test("each player scores a point per opponent who died before them", () => {
+    expect(scoreRound(finishedRound([10, 40, null]))).toEqual([0, 1, 2]);
+});
+
+test("players who die in the same step do not score for each other", () => {
+    expect(scoreRound(finishedRound([25, 25, null]))).toEqual([0, 0, 2]);
+});
+
+test("classic target is ten points per opponent", () => {
+    expect(createMatch(CONFIG, NAMES).targetScore).toBe(20);
+    expect(createMatch(CONFIG, NAMES.slice(0, 2)).targetScore).toBe(10);
+});
+
+test("totals accumulate across rounds with a per-round breakdown", () => {
+    const match = createMatch(CONFIG, NAMES);
+    recordRound(match, finishedRound([10, 40, null]));
+    recordRound(match, finishedRound([null, 5, 30]));
+
+    expect(match.totals).toEqual([2, 1, 3]);
+    expect(match.rounds.map((round) => round.pointsByPlayer)).toEqual([[0, 1, 2], [2, 0, 1]]);
+    expect(match.rounds[0].deaths.map((report) => report.playerIndex)).toEqual([0, 1]);
+    expect(isMatchOver(match)).toBe(false);
+});
+
+test("match ends at the target score only with a two-point lead", () => {
+    const config: GameConfig = {...CONFIG, MATCH: {...CONFIG.MATCH, targetScore: 3}};
+    const match = createMatch(config, NAMES.slice(0, 2));
+
+    recordRound(match, finishedRound([null, 1]));
+    recordRound(match, finishedRound([1, null]));
+    recordRound(match, finishedRound([null, 1]));
+    recordRound(match, finishedRound([1, null]));
+    recordRound(match, finishedRound([null, 1]));
+    expect(match.totals).toEqual([3, 2]);
+    expect(isMatchOver(match)).toBe(false);
+
+    recordRound(match, finishedRound([null, 1]));
+    expect(isMatchOver(match)).toBe(true);
+    expect(match.winnerIndex).toBe(0);
+});
+
+test("teams score together and win together", () => {
+    const config: GameConfig = {...CONFIG, TEAMS: {...CONFIG.TEAMS, count: 2}, MATCH: {...CONFIG.MATCH, targetScore: 2}};
+    const state = createSimulation(config, ARENA, 1, CONFIG.PLAYERS.roster.slice(0, 4));
+    // drużyna 0 (gracze 0 i 2) przeżywa dłużej, choć gracz 0 ginie pierwszy
+    [5, 10, null, 20].forEach((tick, index) => {
+        state.players[index].crashedAtTick = tick;
+        state.players[index].isAlive = tick === null;
+    });
+    expect(scoreRound(state)).toEqual([1, 0, 1, 0]);
+
+    const match = createMatch(config, NAMES.concat("Player 4"), state.players.map((player) => player.teamIndex));
+    expect(match.targetScore).toBe(2);
+    recordRound(match, state);
+    recordRound(match, state);
+    expect(match.winnerIndex).toBe(0);
+    expect(isMatchWinner(match, 2)).toBe(true);
+    expect(isMatchWinner(match, 1)).toBe(false);
+});
@@ -0,0 +1,113 @@
+import {GameConfig} from "./config";
+import {DeathReport, roundDeaths} from "./killFeed";
+import {SimulationState} from "./simulation";
+import {sideKey} from "./teams";
+
+/* =========================================
+ * Mecz: kilka rund, punktacja Kurve i zwycięzca
+ * ========================================= */
+export type RoundResult = {
+    roundNumber: number;
+    pointsByPlayer: number[];
+    survivalSecondsByPlayer: number[];
+    deaths: DeathReport[]; // kolejność śmierci – podsumowanie rundy
+};
+
+export type MatchState = {
+    playerNames: string[];
+    teamByPlayer: (number | null)[]; // drużyna gracza; koledzy z drużyny mają te same punkty
+    targetScore: number;
+    minWinningLead: number;
+    totals: number[];
+    rounds: RoundResult[];
+    winnerIndex: number | null;
+};
+
+/** Próg punktowy meczu – z konfiguracji albo klasyczne 10 pkt za każdego przeciwnika (gracza albo drużynę). */
+export function getTargetScore(config: GameConfig, sideCount: number): number {
+    return config.MATCH.targetScore ?? 10 * (sideCount - 1);
+}
+
+/** Pierwszy gracz każdej strony (drużyny albo gracza bez drużyny) – po nim liczymy punkty strony. */
+function sideLeaders(teamByPlayer: readonly (number | null)[]): number[] {
+    const leaders = new Map<string, number>();
+    teamByPlayer.forEach((teamIndex, index) => {
+        const key = sideKey(teamIndex, index);
+        if (!leaders.has(key)) leaders.set(key, index);
+    });
+    return Array.from(leaders.values());
+}
+
+export function createMatch(
+    config: GameConfig,
+    playerNames: string[],
+    teamByPlayer: (number | null)[] = playerNames.map(() => null)
+): MatchState {
+    return {
+        playerNames,
+        teamByPlayer,
+        targetScore: getTargetScore(config, sideLeaders(teamByPlayer).length),
+        minWinningLead: config.MATCH.minWinningLead,
+        totals: playerNames.map(() => 0),
+        rounds: [],
+        winnerIndex: null,
+    };
+}
+
+/**
+ * Klasyczne punkty za zakończoną rundę (tryby gry mogą liczyć inaczej): strona (gracz albo drużyna) dostaje punkt za każdą stronę przeciwną,
+ * która odpadła przed nią; drużyna odpada ze śmiercią ostatniego gracza. Strony, które odpadły
+ * w tym samym kroku, nie dostają punktów za siebie nawzajem.
+ */
+export function scoreRound(state: SimulationState): number[] {
+    const sideTicks = new Map<string, number>();
+    state.players.forEach((player, index) => {
+        const key = sideKey(player.teamIndex, index);
+        const tick = player.crashedAtTick === null ? Infinity : player.crashedAtTick;
+        sideTicks.set(key, Math.max(sideTicks.get(key) ?? -Infinity, tick));
+    });
+    return state.players.map((player, index) => {
+        const ownTick = sideTicks.get(sideKey(player.teamIndex, index)) ?? Infinity;
+        return Array.from(sideTicks.values()).filter((tick) => tick < ownTick).length;
+    });
+}
+
+/**
+ * Lider meczu, jeśli osiągnął próg i ma wymaganą przewagę nad drugą stroną.
+ * W trybie drużynowym to pierwszy gracz zwycięskiej drużyny.
+ */
+function findWinner(match: MatchState): number | null {
+    const ranking = sideLeaders(match.teamByPlayer)
+        .map((index) => ({total: match.totals[index], index}))
+        .sort((a, b) => b.total - a.total);
+    const [leader, runnerUp] = ranking;
+    if (leader.total < match.targetScore) return null;
+    if (runnerUp && leader.total - runnerUp.total < match.minWinningLead) return null;
+    return leader.index;
+}
+
+/** Dopisuje wynik rundy do meczu i sprawdza, czy mecz się skończył. */
+export function recordRound(match: MatchState, state: SimulationState): RoundResult {
+    const result: RoundResult = {
+        roundNumber: match.rounds.length + 1,
+        pointsByPlayer: state.mode.scoreRound(state),
+        survivalSecondsByPlayer: state.players.map((player) => player.scoreSeconds),
+        deaths: roundDeaths(state.players),
+    };
+    match.rounds.push(result);
+    match.totals = match.totals.map((total, index) => total + result.pointsByPlayer[index]);
+    match.winnerIndex = findWinner(match);
+    return result;
+}
+
+export function isMatchOver(match: MatchState): boolean {
+    return match.winnerIndex !== null;
+}
+
+/** Czy gracz wygrał mecz – sam albo razem z drużyną. */
+export function isMatchWinner(match: MatchState, playerIndex: number): boolean {
+    const {winnerIndex, teamByPlayer} = match;
+    if (winnerIndex === null) return false;
+    if (playerIndex === winnerIndex) return true;
+    return teamByPlayer[winnerIndex] !== null && teamByPlayer[playerIndex] === teamByPlayer[winnerIndex];
+}
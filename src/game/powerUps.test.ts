@@ -0,0 +1,118 @@
+import {CONFIG, GameConfig} from "./config";
+import {collectPickup, trySpawnPickup, updateEffects} from "./powerUps";
+import {stepSimulation} from "./simulation";
+import {FIXED_STEP_SECONDS, NO_INPUT, runSteps, setupRound, TEST_ARENA} from "./testing";
+import {PowerUpPickup} from "./types";
+
+const TEST_CONFIG: GameConfig = {
+    ...CONFIG,
+    GAPS: {...CONFIG.GAPS, enabled: false},
+    POWER_UPS: {...CONFIG.POWER_UPS, enabled: false},
+};
+
+function pickupAt(effect: PowerUpPickup["effect"], target: PowerUpPickup["target"], x: number, y: number): PowerUpPickup {
+    return {id: 99, effect, target, positionPixels: {x, y}};
+}
+
+test("pickups only spawn on free spots of the trail mask", () => {
+    const state = setupRound(TEST_CONFIG, [[20, 20, 0], [20, 100, 0]]);
+    // zostaw wolny tylko prawy pas planszy
+    for (let y = 0; y < TEST_ARENA.heightPixels; y++) {
+        for (let x = 0; x < 140; x++) state.trailMask.owner[y * TEST_ARENA.widthPixels + x] = 2;
+    }
+
+    for (let i = 0; i < 5; i++) trySpawnPickup(state);
+
+    expect(state.powerUps.pickups.length).toBeGreaterThan(0);
+    for (const pickup of state.powerUps.pickups) {
+        expect(pickup.positionPixels.x).toBeGreaterThan(140 + CONFIG.POWER_UPS.pickupRadiusPixels - 1);
+    }
+});
+
+test("collecting a pickup on contact applies its effect to the collector", () => {
+    const state = setupRound(TEST_CONFIG, [[40, 60, 0], [40, 20, 0]]);
+    state.powerUps.pickups.push(pickupAt("speedUp", "self", 50, 60));
+
+    const events = runSteps(state, 30);
+
+    const [collector, opponent] = state.players;
+    expect(events.some((event) => event.type === "powerUpCollected" && event.playerIndex === 0)).toBe(true);
+    expect(collector.speedPixelsPerSecond).toBeCloseTo(CONFIG.PHYSICS.forwardSpeedPixelsPerSecond * CONFIG.POWER_UPS.speedUpMultiplier);
+    expect(opponent.speedPixelsPerSecond).toBe(CONFIG.PHYSICS.forwardSpeedPixelsPerSecond);
+});
+
+test("opponent pickups hit everyone except the collector", () => {
+    const state = setupRound(TEST_CONFIG, [[40, 60, 0], [40, 20, 0], [40, 100, 0]]);
+    const [collector, ...opponents] = state.players;
+    collectPickup(state, collector, pickupAt("thick", "opponents", 0, 0));
+
+    expect(collector.radiusPixels).toBe(CONFIG.DOT.radiusPixels);
+    for (const opponent of opponents) {
+        expect(opponent.radiusPixels).toBeCloseTo(CONFIG.DOT.radiusPixels * CONFIG.POWER_UPS.thickMultiplier);
+    }
+});
+
+test("effects stack and expire independently", () => {
+    const state = setupRound(TEST_CONFIG, [[40, 60, 0], [40, 20, 0]]);
+    const [player] = state.players;
+    const base = CONFIG.PHYSICS.forwardSpeedPixelsPerSecond;
+    const multiplier = CONFIG.POWER_UPS.speedUpMultiplier;
+
+    collectPickup(state, player, pickupAt("speedUp", "self", 0, 0));
+    updateEffects(TEST_CONFIG, player, 2);
+    collectPickup(state, player, pickupAt("speedUp", "self", 0, 0));
+    expect(player.speedPixelsPerSecond).toBeCloseTo(base * multiplier * multiplier);
+
+    updateEffects(TEST_CONFIG, player, CONFIG.POWER_UPS.effectDurationSeconds - 2);
+    expect(player.effects).toHaveLength(1);
+    expect(player.speedPixelsPerSecond).toBeCloseTo(base * multiplier);
+
+    updateEffects(TEST_CONFIG, player, 2);
+    expect(player.effects).toHaveLength(0);
+    expect(player.speedPixelsPerSecond).toBe(base);
+});
+
+test("wall pass wraps the head to the opposite side instead of crashing", () => {
+    const state = setupRound(TEST_CONFIG, [[185, 60, 0], [40, 20, 0]]);
+    const [player] = state.players;
+    collectPickup(state, player, pickupAt("wallPass", "self", 0, 0));
+
+    runSteps(state, 10);
+
+    expect(player.isAlive).toBe(true);
+    expect(player.positionPixels.x).toBeLessThan(40);
+});
+
+test("reversed controls turn the other way", () => {
+    const state = setupRound(TEST_CONFIG, [[100, 60, 0], [40, 20, 0]]);
+    const [player] = state.players;
+    collectPickup(state, state.players[1], pickupAt("reverseControls", "opponents", 0, 0));
+
+    stepSimulation(state, [{turnLeft: true, turnRight: false}, NO_INPUT[1]], FIXED_STEP_SECONDS);
+    expect(player.angleRadians).toBeGreaterThan(0);
+});
+
+test("clear board wipes the trail mask", () => {
+    const state = setupRound(TEST_CONFIG, [[40, 60, 0], [40, 20, 0]]);
+    runSteps(state, 30);
+    expect(state.trailMask.owner.some((owner) => owner !== 0)).toBe(true);
+
+    collectPickup(state, state.players[0], pickupAt("clearBoard", "self", 0, 0));
+    expect(state.trailMask.owner.every((owner) => owner === 0)).toBe(true);
+});
+
+test("thick and slowed-down players turning do not crash into their own fresh trail", () => {
+    const arena = {widthPixels: 300, heightPixels: 200};
+    const turning = [{turnLeft: false, turnRight: true}, NO_INPUT[1]];
+    const stacks: PowerUpPickup["effect"][][] = [["thick", "thick"], ["slowDown", "slowDown", "thick"]];
+    for (const effects of stacks) {
+        const state = setupRound(TEST_CONFIG, [[100, 40, 0], [250, 180, Math.PI]], arena);
+        const [player, opponent] = state.players;
+        for (const effect of effects) collectPickup(state, opponent, pickupAt(effect, "opponents", 0, 0));
+
+        runSteps(state, Math.round(1 / FIXED_STEP_SECONDS), turning);
+
+        expect(player.radiusPixels).toBeGreaterThan(CONFIG.DOT.radiusPixels);
+        expect(player.isAlive).toBe(true);
+    }
+});
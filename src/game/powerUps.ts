@@ -0,0 +1,166 @@
+import {getSafeArea} from "./border";
+import {GameConfig} from "./config";
+import {nextRandom, randomInRange, RandomState} from "./random";
+import {SimulationState} from "./simulation";
+import {closingShrinkPixels} from "./suddenDeath";
+import {clearTrails, collidesWithTrail} from "./trailMask";
+import {PlayerState, PowerUpEffect, PowerUpPickup, Vector2D} from "./types";
+
+/* =========================================
+ * Power-upy: spawn, zbieranie, efekty czasowe i fizyka gracza
+ * ========================================= */
+export type PowerUpState = {
+    pickups: PowerUpPickup[];
+    timeUntilNextSpawn: number; // s
+    nextId: number;
+};
+
+/** Krótkie oznaczenia efektów – dla HUD-u i rysowania znaczników na planszy. */
+export const POWER_UP_SYMBOLS: Record<PowerUpEffect, string> = {
+    speedUp: "»",
+    slowDown: "«",
+    thick: "●",
+    thin: "·",
+    wallPass: "□",
+    reverseControls: "⇄",
+    clearBoard: "✕",
+};
+
+function nextSpawnDelay(config: GameConfig, random: RandomState): number {
+    return randomInRange(random, config.POWER_UPS.minSpawnIntervalSeconds, config.POWER_UPS.maxSpawnIntervalSeconds);
+}
+
+export function createPowerUpState(config: GameConfig, random: RandomState): PowerUpState {
+    return {pickups: [], timeUntilNextSpawn: nextSpawnDelay(config, random), nextId: 1};
+}
+
+export function hasEffect(player: PlayerState, effect: PowerUpEffect): boolean {
+    return player.effects.some((active) => active.effect === effect);
+}
+
+/** Przelicza prędkość, skręt i promień gracza z bazowej konfiguracji i aktywnych efektów (kumulują się mnożąc). */
+export function updatePlayerPhysics(config: GameConfig, player: PlayerState): void {
+    let speedMultiplier = 1;
+    let radiusMultiplier = 1;
+    for (const {effect} of player.effects) {
+        if (effect === "speedUp") speedMultiplier *= config.POWER_UPS.speedUpMultiplier;
+        if (effect === "slowDown") speedMultiplier *= config.POWER_UPS.slowDownMultiplier;
+        if (effect === "thick") radiusMultiplier *= config.POWER_UPS.thickMultiplier;
+        if (effect === "thin") radiusMultiplier *= config.POWER_UPS.thinMultiplier;
+    }
+    player.speedPixelsPerSecond = config.PHYSICS.forwardSpeedPixelsPerSecond * speedMultiplier;
+    // skręt skaluje się razem z prędkością, żeby promień zakrętu został ten sam
+    player.turnSpeedRadiansPerSecond = config.PHYSICS.turnSpeedRadiansPerSecond * speedMultiplier;
+    player.radiusPixels = Math.max(1, config.DOT.radiusPixels * radiusMultiplier);
+}
+
+/** Odlicza czas efektów gracza i usuwa wygasłe. */
+export function updateEffects(config: GameConfig, player: PlayerState, deltaTimeSeconds: number): void {
+    if (player.effects.length === 0) return;
+    for (const active of player.effects) active.remainingSeconds -= deltaTimeSeconds;
+    player.effects = player.effects.filter((active) => active.remainingSeconds > 0);
+    updatePlayerPhysics(config, player);
+}
+
+function isFreeSpot(state: SimulationState, center: Vector2D, pickupRadius: number): boolean {
+    const rounded = {x: Math.round(center.x), y: Math.round(center.y)};
+    if (collidesWithTrail(state.trailMask, rounded, pickupRadius, null)) return false;
+
+    const minDistanceToPickup = 3 * pickupRadius;
+    for (const other of state.powerUps.pickups) {
+        const dx = other.positionPixels.x - center.x;
+        const dy = other.positionPixels.y - center.y;
+        if (dx * dx + dy * dy < minDistanceToPickup * minDistanceToPickup) return false;
+    }
+
+    // nie pod samym nosem żyjącego gracza
+    const minDistanceToHead = 4 * pickupRadius;
+    for (const player of state.players) {
+        if (!player.isAlive) continue;
+        const dx = player.positionPixels.x - center.x;
+        const dy = player.positionPixels.y - center.y;
+        if (dx * dx + dy * dy < minDistanceToHead * minDistanceToHead) return false;
+    }
+    return true;
+}
+
+/** Losuje wolne miejsce w masce śladu i kładzie tam power-up. Zwraca `null`, gdy nie znalazł miejsca. */
+export function trySpawnPickup(state: SimulationState): PowerUpPickup | null {
+    const {config, random} = state;
+    const {offers, pickupRadiusPixels, spawnAttempts} = config.POWER_UPS;
+    if (offers.length === 0) return null;
+
+    // nie za ramką sudden death ani tam, dokąd zaraz wejdzie
+    const {minX, maxX, minY, maxY} = getSafeArea(config, state.arena, pickupRadiusPixels, closingShrinkPixels(state.suddenDeath));
+    if (maxX <= minX || maxY <= minY) return null;
+
+    for (let attempt = 0; attempt < spawnAttempts; attempt++) {
+        const center = {x: randomInRange(random, minX, maxX), y: randomInRange(random, minY, maxY)};
+        if (!isFreeSpot(state, center, pickupRadiusPixels)) continue;
+
+        const offer = offers[Math.floor(nextRandom(random) * offers.length)];
+        const pickup: PowerUpPickup = {id: state.powerUps.nextId++, ...offer, positionPixels: center};
+        state.powerUps.pickups.push(pickup);
+        return pickup;
+    }
+    return null;
+}
+
+/** Odlicza czas do kolejnego spawnu; zwraca nowy power-up, jeśli się pojawił. */
+export function updatePowerUpSpawns(state: SimulationState, deltaTimeSeconds: number): PowerUpPickup | null {
+    const {config, powerUps} = state;
+    if (!config.POWER_UPS.enabled) return null;
+
+    powerUps.timeUntilNextSpawn -= deltaTimeSeconds;
+    if (powerUps.timeUntilNextSpawn > 0) return null;
+    powerUps.timeUntilNextSpawn = nextSpawnDelay(config, state.random);
+
+    if (powerUps.pickups.length >= config.POWER_UPS.maxOnBoard) return null;
+    return trySpawnPickup(state);
+}
+
+/** Zdejmuje power-upy, które zostały za zamykającą się ramką sudden death. */
+export function dropClosedOffPickups(state: SimulationState): void {
+    const {shrinkPixels} = state.suddenDeath;
+    if (shrinkPixels === 0 || state.powerUps.pickups.length === 0) return;
+    const {minX, maxX, minY, maxY} = getSafeArea(state.config, state.arena, state.config.POWER_UPS.pickupRadiusPixels, shrinkPixels);
+    state.powerUps.pickups = state.powerUps.pickups.filter(({positionPixels: {x, y}}) => x >= minX && x <= maxX && y >= minY && y <= maxY);
+}
+
+/** Power-up, którego dotyka głowa gracza (jeśli jest). */
+export function findTouchedPickup(state: SimulationState, player: PlayerState): PowerUpPickup | null {
+    const reach = state.config.POWER_UPS.pickupRadiusPixels + player.radiusPixels;
+    for (const pickup of state.powerUps.pickups) {
+        const dx = pickup.positionPixels.x - player.positionPixels.x;
+        const dy = pickup.positionPixels.y - player.positionPixels.y;
+        if (dx * dx + dy * dy <= reach * reach) return pickup;
+    }
+    return null;
+}
+
+/** Czyści planszę: ślady i korytarze dziur znikają, przeszkody mapy zostają. */
+export function clearBoard(state: SimulationState): void {
+    clearTrails(state.trailMask);
+}
+
+/** Zdejmuje power-up z planszy i nakłada jego efekt na zbierającego albo jego przeciwników. */
+export function collectPickup(state: SimulationState, collector: PlayerState, pickup: PowerUpPickup): void {
+    const {config} = state;
+    state.powerUps.pickups = state.powerUps.pickups.filter((other) => other.id !== pickup.id);
+
+    if (pickup.effect === "clearBoard") {
+        clearBoard(state);
+        return;
+    }
+
+    // w trybie drużynowym przeciwnicy to tylko gracze innych drużyn
+    const isOpponent = (player: PlayerState) =>
+        player !== collector && (collector.teamIndex === null || player.teamIndex !== collector.teamIndex);
+    const targets = pickup.target === "self"
+        ? [collector]
+        : state.players.filter((player) => isOpponent(player) && player.isAlive);
+    for (const target of targets) {
+        target.effects.push({effect: pickup.effect, remainingSeconds: config.POWER_UPS.effectDurationSeconds});
+        updatePlayerPhysics(config, target);
+    }
+}
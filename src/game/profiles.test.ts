@@ -0,0 +1,49 @@
+import {CONFIG} from "./config";
+import {
+    assignSeat,
+    loadProfiles,
+    loadSeats,
+    PlayerProfile,
+    PROFILES_STORAGE_KEY,
+    saveProfiles,
+    saveSeats,
+    setupsForSeats,
+    validateProfile,
+} from "./profiles";
+
+const ADA: PlayerProfile = {id: "ada", name: "Ada", colorHex: "#112233"};
+const BOB: PlayerProfile = {id: "bob", name: "Bob", colorHex: "#445566"};
+
+beforeEach(() => localStorage.clear());
+
+test("profile names must be present, short and unique; colors must be #rrggbb", () => {
+    expect(validateProfile("  ", "#ffffff", [])).toBe("Enter a name");
+    expect(validateProfile("x".repeat(40), "#ffffff", [])).toMatch(/At most/);
+    expect(validateProfile("ada", "#ffffff", [ADA])).toBe("This name is already taken");
+    expect(validateProfile("Ada", "#ffffff", [ADA], "ada")).toBeNull();
+    expect(validateProfile("Cid", "blue", [ADA])).toBe("Use a #rrggbb color");
+});
+
+test("seated profiles replace the default name and color, others keep the roster", () => {
+    const setups = setupsForSeats(CONFIG, 3, [ADA, BOB], [null, "bob", "missing"]);
+    expect(setups.map((setup) => setup.name)).toEqual([CONFIG.PLAYERS.roster[0].name, "Bob", CONFIG.PLAYERS.roster[2].name]);
+    expect(setups[1].colorHex).toBe(BOB.colorHex);
+    expect(setups[1].turnLeftKey).toBe(CONFIG.PLAYERS.roster[1].turnLeftKey);
+});
+
+test("a profile sits on one seat at a time", () => {
+    expect(assignSeat(["ada", null, null], 2, "ada")).toEqual([null, null, "ada"]);
+    expect(assignSeat(["ada", "bob"], 1, null)).toEqual(["ada", null]);
+});
+
+test("profiles and seats survive a reload, broken entries and deleted profiles are dropped", () => {
+    saveProfiles([ADA, BOB], localStorage);
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify([ADA, {id: "x"}, BOB, ADA]));
+    const profiles = loadProfiles(localStorage);
+    expect(profiles).toEqual([ADA, BOB]);
+
+    saveSeats(["bob", "gone", "ada"], localStorage);
+    const seats = loadSeats(CONFIG, profiles, localStorage);
+    expect(seats.slice(0, 3)).toEqual(["bob", null, "ada"]);
+    expect(seats).toHaveLength(CONFIG.PLAYERS.roster.length);
+});
@@ -0,0 +1,107 @@
+import {getLocalStorage, readStoredJson, writeStoredJson} from "../storage/localStorage";
+import {GameConfig, PlayerSetup} from "./config";
+
+/* =========================================
+ * Profile graczy: nazwa i kolor, przypisanie do miejsc w składzie, zapis w localStorage
+ * ========================================= */
+export type PlayerProfile = {
+    id: string;
+    name: string;
+    colorHex: string;
+};
+
+/** Profil na kolejnych miejscach składu (`null` – domyślny „Player N” z `CONFIG.PLAYERS.roster`). */
+export type SeatAssignment = (string | null)[];
+
+export const PROFILES_STORAGE_KEY = "kurve.profiles.v1";
+export const SEATS_STORAGE_KEY = "kurve.seats.v1";
+
+export const MAX_PROFILE_NAME_LENGTH = 16;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function createProfileId(): string {
+    return `${Date.now().toString(36)}-${Math.floor(Math.random() * 36 ** 6).toString(36)}`;
+}
+
+/** Błąd do pokazania przy formularzu profilu albo `null`. `editedId` – profil, którego nazwę zmieniamy. */
+export function validateProfile(
+    name: string,
+    colorHex: string,
+    profiles: readonly PlayerProfile[],
+    editedId: string | null = null
+): string | null {
+    const trimmed = name.trim();
+    if (trimmed === "") return "Enter a name";
+    if (trimmed.length > MAX_PROFILE_NAME_LENGTH) return `At most ${MAX_PROFILE_NAME_LENGTH} characters`;
+    const isTaken = profiles.some((profile) => profile.id !== editedId && profile.name.toLowerCase() === trimmed.toLowerCase());
+    if (isTaken) return "This name is already taken";
+    if (!COLOR_PATTERN.test(colorHex)) return "Use a #rrggbb color";
+    return null;
+}
+
+/** Skład na `count` miejsc: gracze z przypisanym profilem dostają jego nazwę i kolor, reszta – domyślne. */
+export function setupsForSeats(
+    config: GameConfig,
+    count: number,
+    profiles: readonly PlayerProfile[],
+    seats: SeatAssignment
+): PlayerSetup[] {
+    return config.PLAYERS.roster.slice(0, count).map((setup, index) => {
+        const profile = profiles.find((candidate) => candidate.id === seats[index]);
+        return profile ? {...setup, name: profile.name, colorHex: profile.colorHex} : setup;
+    });
+}
+
+/** Sadza profil na miejscu; jeśli siedział już gdzie indziej, tamto miejsce wraca do domyślnego gracza. */
+export function assignSeat(seats: SeatAssignment, seatIndex: number, profileId: string | null): SeatAssignment {
+    const updated = seats.map((seat) => (profileId !== null && seat === profileId ? null : seat));
+    updated[seatIndex] = profileId;
+    return updated;
+}
+
+/* ---------- localStorage ---------- */
+
+function isProfile(value: unknown): value is PlayerProfile {
+    const profile = value as Partial<PlayerProfile> | null;
+    return !!profile && typeof profile.id === "string" && typeof profile.name === "string"
+        && typeof profile.colorHex === "string" && COLOR_PATTERN.test(profile.colorHex);
+}
+
+/** Poprawne profile z listy (uszkodzone wpisy i powtórzone identyfikatory są pomijane). */
+export function sanitizeProfiles(values: readonly unknown[]): PlayerProfile[] {
+    const profiles: PlayerProfile[] = [];
+    for (const value of values) {
+        if (isProfile(value) && !profiles.some((profile) => profile.id === value.id)) {
+            profiles.push({id: value.id, name: value.name, colorHex: value.colorHex});
+        }
+    }
+    return profiles;
+}
+
+export function loadProfiles(storage: Storage | null = getLocalStorage()): PlayerProfile[] {
+    const saved = readStoredJson(storage, PROFILES_STORAGE_KEY);
+    return Array.isArray(saved) ? sanitizeProfiles(saved) : [];
+}
+
+export function saveProfiles(profiles: readonly PlayerProfile[], storage: Storage | null = getLocalStorage()): void {
+    writeStoredJson(storage, PROFILES_STORAGE_KEY, profiles);
+}
+
+/** Przypisania miejsc – bez profili, które już nie istnieją. */
+export function loadSeats(
+    config: GameConfig,
+    profiles: readonly PlayerProfile[],
+    storage: Storage | null = getLocalStorage()
+): SeatAssignment {
+    const saved = readStoredJson(storage, SEATS_STORAGE_KEY);
+    const entries: unknown[] = Array.isArray(saved) ? saved : [];
+    return config.PLAYERS.roster.map((_, index) => {
+        const entry = entries[index];
+        return typeof entry === "string" && profiles.some((profile) => profile.id === entry) ? entry : null;
+    });
+}
+
+export function saveSeats(seats: SeatAssignment, storage: Storage | null = getLocalStorage()): void {
+    writeStoredJson(storage, SEATS_STORAGE_KEY, seats);
+}
@@ -0,0 +1,32 @@
+/* =========================
+ * Deterministyczny generator liczb losowych (mulberry32)
+ * ========================= */
+
+/** Stan generatora – zwykły obiekt, więc da się go skopiować i zapisać razem z rundą. */
+export type RandomState = {
+    seed: number;
+    state: number;
+};
+
+export function createRandom(seed: number): RandomState {
+    const normalizedSeed = seed >>> 0;
+    return {seed: normalizedSeed, state: normalizedSeed};
+}
+
+/** Losowy seed dla nowej rundy – jedyne miejsce, gdzie sięgamy po `Math.random`. */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/** Zwraca liczbę z przedziału [0, 1) i przesuwa stan generatora. */
+export function nextRandom(random: RandomState): number {
+    random.state = (random.state + 0x6d2b79f5) >>> 0;
+    let t = random.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+export function randomInRange(random: RandomState, min: number, max: number): number {
+    return min + nextRandom(random) * (max - min);
+}
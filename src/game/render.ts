@@ -0,0 +1,470 @@
+import {effectiveColors, headShapeOf, patternMarkRadius, trailPatternOf} from "./accessibility";
+import {getWrapBounds, wrappedDelta, wrapPoint} from "./border";
+import {GameConfig} from "./config";
+import {rasterizeMap} from "./maps";
+import {POWER_UP_SYMBOLS} from "./powerUps";
+import {SimulationEvent, SimulationState} from "./simulation";
+import {SuddenDeathView} from "./suddenDeath";
+import {forEachCirclePixel, sweepPath} from "./trailMask";
+import {ArenaMap, ArenaSize, GapState, HeadShape, PlayerState, PowerUpPickup, TrailPattern, Vector2D, WrapBounds} from "./types";
+
+/* ==================================
+ * Rysowanie na canvasie (adapter – czyta stan symulacji, nic w nim nie zmienia)
+ * ================================== */
+
+/** Głowa gracza – tylko to, czego potrzebuje renderer (pasuje do `PlayerState` i do widoku gościa w sieci). */
+export type HeadView = Pick<PlayerState, "positionPixels" | "radiusPixels" | "colorHex" | "isAlive" | "crashPositionPixels"> & {
+    gap: Pick<GapState, "isActive">;
+};
+
+/** Plansza do narysowania – `SimulationState` albo odtworzony ze snapshotu widok gościa. */
+export type BoardView = Pick<SimulationState, "config" | "arena"> & {
+    powerUps: { pickups: PowerUpPickup[] };
+    players: HeadView[];
+    suddenDeath: SuddenDeathView;
+};
+
+/** Znaczek wzoru śladu narysowany w punkcie `center`, gdy gracz przebył `travelledPixels`. */
+type PatternMark = {
+    center: Vector2D;
+    radiusPixels: number;
+    travelledPixels: number;
+};
+
+/**
+ * Ostatnio narysowany punkt śladu gracza, droga przebyta od startu rundy i świeże znaczki wzoru –
+ * następny odcinek zamalowuje koniec poprzedniego, więc te znaczki trzeba narysować jeszcze raz.
+ */
+export type TrailCursor = Vector2D & {
+    travelledPixels: number;
+    recentMarks: PatternMark[];
+};
+
+/** Dłuższy skok między klatkami to przejazd przez ścianę (`wallPass`) – wtedy nie łączymy punktów linią. */
+const MAX_TRAIL_SEGMENT_PIXELS = 32;
+
+/** Ramię krzyżyka w miejscu zderzenia – nie mniejsze niż to, żeby był widoczny przy cienkim śladzie. */
+const MIN_CRASH_MARKER_PIXELS = 5;
+
+export function drawDot(
+    ctx: CanvasRenderingContext2D,
+    center: Vector2D,
+    radiusPixels: number,
+    colorHex: string
+): void {
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, radiusPixels, 0, Math.PI * 2);
+    ctx.fillStyle = colorHex;
+    ctx.fill();
+}
+
+/**
+ * Rysuje `draw` na sklejonym polu: przy szwie także kopie przesunięte na drugą stronę,
+ * przycięte do pola, żeby nie wchodziły na ramkę. Bez `bounds` to zwykłe `draw(0, 0)`.
+ */
+function drawWithWrappedCopies(
+    ctx: CanvasRenderingContext2D,
+    bounds: WrapBounds | null,
+    box: { minX: number; minY: number; maxX: number; maxY: number },
+    draw: (shiftX: number, shiftY: number) => void
+): void {
+    if (!bounds) {
+        draw(0, 0);
+        return;
+    }
+    const {minX, minY, widthPixels, heightPixels} = bounds;
+    const shiftsX = [0];
+    if (box.minX < minX) shiftsX.push(widthPixels);
+    if (box.maxX > minX + widthPixels) shiftsX.push(-widthPixels);
+    const shiftsY = [0];
+    if (box.minY < minY) shiftsY.push(heightPixels);
+    if (box.maxY > minY + heightPixels) shiftsY.push(-heightPixels);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(minX, minY, widthPixels, heightPixels);
+    ctx.clip();
+    for (const shiftX of shiftsX) {
+        for (const shiftY of shiftsY) draw(shiftX, shiftY);
+    }
+    ctx.restore();
+}
+
+/** Liczba boków i obrót wielokąta dla kształtów głowy innych niż koło. */
+const HEAD_POLYGONS: Record<Exclude<HeadShape, "circle">, { sides: number; rotationRadians: number }> = {
+    square: {sides: 4, rotationRadians: Math.PI / 4},
+    triangle: {sides: 3, rotationRadians: -Math.PI / 2},
+    diamond: {sides: 4, rotationRadians: 0},
+    pentagon: {sides: 5, rotationRadians: -Math.PI / 2},
+    hexagon: {sides: 6, rotationRadians: 0},
+};
+
+/** Kształty są większe od kropki, żeby dało się je rozróżnić także przy cienkiej linii. */
+const HEAD_SHAPE_SCALE = 1.8;
+const MIN_HEAD_SHAPE_RADIUS_PIXELS = 4;
+
+/** Głowa w kształcie wielokąta (z obwódką w kolorze tła, żeby odcinała się od własnego śladu). */
+function drawShapedHead(
+    ctx: CanvasRenderingContext2D,
+    center: Vector2D,
+    radiusPixels: number,
+    shape: Exclude<HeadShape, "circle">,
+    colorHex: string,
+    outlineHex: string
+): void {
+    const {sides, rotationRadians} = HEAD_POLYGONS[shape];
+    const radius = Math.max(MIN_HEAD_SHAPE_RADIUS_PIXELS, radiusPixels * HEAD_SHAPE_SCALE);
+    ctx.beginPath();
+    for (let i = 0; i < sides; i++) {
+        const angle = rotationRadians + (i * 2 * Math.PI) / sides;
+        const x = center.x + Math.cos(angle) * radius;
+        const y = center.y + Math.sin(angle) * radius;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+    ctx.fillStyle = colorHex;
+    ctx.fill();
+    ctx.strokeStyle = outlineHex;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+}
+
+function drawWrappedDot(
+    ctx: CanvasRenderingContext2D,
+    bounds: WrapBounds | null,
+    center: Vector2D,
+    radiusPixels: number,
+    colorHex: string
+): void {
+    const box = {
+        minX: center.x - radiusPixels,
+        minY: center.y - radiusPixels,
+        maxX: center.x + radiusPixels,
+        maxY: center.y + radiusPixels,
+    };
+    drawWithWrappedCopies(ctx, bounds, box, (shiftX, shiftY) =>
+        drawDot(ctx, {x: center.x + shiftX, y: center.y + shiftY}, radiusPixels, colorHex)
+    );
+}
+
+/** Głowa gracza: kropka albo – przy `ACCESSIBILITY.headShapes` – jego kształt. */
+function drawWrappedHead(
+    ctx: CanvasRenderingContext2D,
+    bounds: WrapBounds | null,
+    player: HeadView,
+    shape: HeadShape,
+    outlineHex: string
+): void {
+    if (shape === "circle") {
+        drawWrappedDot(ctx, bounds, player.positionPixels, player.radiusPixels, player.colorHex);
+        return;
+    }
+    const {x, y} = player.positionPixels;
+    const reach = Math.max(MIN_HEAD_SHAPE_RADIUS_PIXELS, player.radiusPixels * HEAD_SHAPE_SCALE) + 1;
+    const box = {minX: x - reach, minY: y - reach, maxX: x + reach, maxY: y + reach};
+    drawWithWrappedCopies(ctx, bounds, box, (shiftX, shiftY) =>
+        drawShapedHead(ctx, {x: x + shiftX, y: y + shiftY}, player.radiusPixels, shape, player.colorHex, outlineHex)
+    );
+}
+
+/** Okrąg śladu z pełnych pikseli – dokładnie tych, które zaznacza maska (piksel x leży na [x − ½, x + ½)). */
+function fillTrailCircle(ctx: CanvasRenderingContext2D, bounds: WrapBounds | null, center: Vector2D, radiusPixels: number): void {
+    forEachCirclePixel(center.x, center.y, radiusPixels, (pixelX, pixelY) => {
+        const {x, y} = bounds ? wrapPoint(bounds, pixelX, pixelY) : {x: pixelX, y: pixelY};
+        ctx.fillRect(x - 0.5, y - 0.5, 1, 1);
+    });
+}
+
+/**
+ * Znaczki wzoru w kolorze tła wzdłuż środków odcinka (plus odnowione znaczki z końca poprzedniego).
+ * Zwraca drogę przebytą po odcinku i znaczki, które następny odcinek może jeszcze zamalować.
+ */
+function drawTrailPattern(
+    ctx: CanvasRenderingContext2D,
+    bounds: WrapBounds | null,
+    pattern: TrailPattern,
+    start: Vector2D,
+    centers: readonly Vector2D[],
+    from: TrailCursor | undefined,
+    radiusPixels: number,
+    backgroundHex: string
+): Pick<TrailCursor, "travelledPixels" | "recentMarks"> {
+    let travelledPixels = from?.travelledPixels ?? 0;
+    const marks = [...(from?.recentMarks ?? [])];
+    let previous = start;
+    for (const center of centers) {
+        travelledPixels += Math.hypot(center.x - previous.x, center.y - previous.y);
+        previous = center;
+        const markRadius = patternMarkRadius(pattern, travelledPixels, radiusPixels);
+        if (markRadius > 0) marks.push({center, radiusPixels: markRadius, travelledPixels});
+    }
+    for (const mark of marks) drawWrappedDot(ctx, bounds, mark.center, mark.radiusPixels, backgroundHex);
+    const recentMarks = marks.filter((mark) => travelledPixels - mark.travelledPixels <= radiusPixels + 1);
+    return {travelledPixels, recentMarks};
+}
+
+/**
+ * Dorysowuje ślad gracza od `from` (koniec śladu z poprzedniej klatki) do bieżącej pozycji:
+ * piksel w piksel jak maska albo – przy `RENDER.smoothLines` – wygładzoną linią – i na nim wzór `pattern`.
+ * Zwraca nowy koniec śladu.
+ */
+export function drawTrailSegment(
+    ctx: CanvasRenderingContext2D,
+    config: GameConfig,
+    player: HeadView,
+    from: TrailCursor | undefined,
+    wrapBounds: WrapBounds | null = null,
+    pattern: TrailPattern = "solid"
+): TrailCursor {
+    const to = player.positionPixels;
+    const radiusPixels = player.radiusPixels;
+    let deltaX = from ? to.x - from.x : 0;
+    let deltaY = from ? to.y - from.y : 0;
+    if (wrapBounds) {
+        deltaX = wrappedDelta(deltaX, wrapBounds.widthPixels);
+        deltaY = wrappedDelta(deltaY, wrapBounds.heightPixels);
+    }
+    if (Math.hypot(deltaX, deltaY) > MAX_TRAIL_SEGMENT_PIXELS) deltaX = deltaY = 0;
+    const start = {x: to.x - deltaX, y: to.y - deltaY}; // przy `wrap` – przed zawinięciem, jak w masce
+    const centers = sweepPath(start, to);
+
+    if (!config.RENDER.smoothLines) {
+        ctx.fillStyle = player.colorHex;
+        for (const center of centers) fillTrailCircle(ctx, wrapBounds, center, radiusPixels);
+    } else if (deltaX === 0 && deltaY === 0) {
+        drawWrappedDot(ctx, wrapBounds, to, radiusPixels, player.colorHex);
+    } else {
+        drawSmoothSegment(ctx, wrapBounds, start, to, radiusPixels, player.colorHex);
+    }
+    const end = {x: to.x, y: to.y};
+    if (pattern === "solid") return {...end, travelledPixels: (from?.travelledPixels ?? 0) + Math.hypot(deltaX, deltaY), recentMarks: []};
+    const backgroundHex = effectiveColors(config).backgroundHex;
+    return {...end, ...drawTrailPattern(ctx, wrapBounds, pattern, start, centers, from, radiusPixels, backgroundHex)};
+}
+
+function drawSmoothSegment(
+    ctx: CanvasRenderingContext2D,
+    wrapBounds: WrapBounds | null,
+    start: Vector2D,
+    to: Vector2D,
+    radiusPixels: number,
+    colorHex: string
+): void {
+    const box = {
+        minX: Math.min(start.x, to.x) - radiusPixels,
+        minY: Math.min(start.y, to.y) - radiusPixels,
+        maxX: Math.max(start.x, to.x) + radiusPixels,
+        maxY: Math.max(start.y, to.y) + radiusPixels,
+    };
+    drawWithWrappedCopies(ctx, wrapBounds, box, (shiftX, shiftY) => {
+        ctx.beginPath();
+        ctx.moveTo(start.x + shiftX, start.y + shiftY);
+        ctx.lineTo(to.x + shiftX, to.y + shiftY);
+        ctx.strokeStyle = colorHex;
+        ctx.lineWidth = 2 * radiusPixels;
+        ctx.lineCap = "round";
+        ctx.stroke();
+    });
+}
+
+/** Rysuje ramkę na krawędziach pola gry – ciągłą, gdy zabija, przerywaną w trybie `wrap`. */
+export function drawBorder(ctx: CanvasRenderingContext2D, config: GameConfig, arena: ArenaSize): void {
+    const t = config.BORDER.thicknessPixels;
+    const inset = config.BORDER.insetPixels;
+    const width = arena.widthPixels;
+    const height = arena.heightPixels;
+    if (config.ARENA.mode === "wrap") {
+        const dash = config.ARENA.wrapDashPixels;
+        ctx.save();
+        ctx.strokeStyle = effectiveColors(config).borderHex;
+        ctx.lineWidth = t;
+        ctx.setLineDash([dash, dash]);
+        ctx.strokeRect(inset + t / 2, inset + t / 2, width - 2 * inset - t, height - 2 * inset - t);
+        ctx.restore();
+        return;
+    }
+    ctx.fillStyle = effectiveColors(config).borderHex;
+    // top
+    ctx.fillRect(inset, inset, width - 2 * inset, t);
+    // bottom
+    ctx.fillRect(inset, height - inset - t, width - 2 * inset, t);
+    // left
+    ctx.fillRect(inset, inset, t, height - 2 * inset);
+    // right
+    ctx.fillRect(width - inset - t, inset, t, height - 2 * inset);
+}
+
+/** Część pola zamknięta przez sudden death zostaje przyciemniona w kolorze ramki. */
+const CLOSED_AREA_ALPHA = 0.35;
+const WARNING_DASH_PIXELS = 8;
+
+/**
+ * Ramka sudden death: przyciemniona zamknięta część pola i ramka w nowym miejscu (ta sama grubość,
+ * większe odsunięcie – jak w `hitsBorder`). Zapowiedziane położenie – przerywaną linią.
+ */
+export function drawSuddenDeath(ctx: CanvasRenderingContext2D, config: GameConfig, arena: ArenaSize, view: SuddenDeathView): void {
+    if (view.shrinkPixels === 0 && view.warningShrinkPixels === null) return;
+    const t = config.BORDER.thicknessPixels;
+    const inset = config.BORDER.insetPixels;
+    const width = arena.widthPixels;
+    const height = arena.heightPixels;
+    const colorHex = effectiveColors(config).suddenDeathHex;
+
+    if (view.shrinkPixels > 0) {
+        const edge = inset + view.shrinkPixels;
+        ctx.save();
+        ctx.globalAlpha = CLOSED_AREA_ALPHA;
+        ctx.fillStyle = colorHex;
+        ctx.beginPath();
+        ctx.rect(inset, inset, width - 2 * inset, height - 2 * inset);
+        ctx.rect(edge, edge, width - 2 * edge, height - 2 * edge);
+        ctx.fill("evenodd");
+        ctx.restore();
+        ctx.strokeStyle = colorHex;
+        ctx.lineWidth = t;
+        ctx.strokeRect(edge + t / 2, edge + t / 2, width - 2 * edge - t, height - 2 * edge - t);
+    }
+
+    if (view.warningShrinkPixels !== null) {
+        const edge = inset + view.warningShrinkPixels;
+        ctx.save();
+        ctx.strokeStyle = colorHex;
+        ctx.lineWidth = Math.max(1, t / 2);
+        ctx.setLineDash([WARNING_DASH_PIXELS, WARNING_DASH_PIXELS]);
+        ctx.strokeRect(edge + t / 2, edge + t / 2, width - 2 * edge - t, height - 2 * edge - t);
+        ctx.restore();
+    }
+}
+
+/** Znacznik power-upu: zielony działa na zbierającego, czerwony na przeciwników. */
+export function drawPickup(ctx: CanvasRenderingContext2D, config: GameConfig, pickup: PowerUpPickup): void {
+    const radius = config.POWER_UPS.pickupRadiusPixels;
+    const {x, y} = pickup.positionPixels;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = pickup.target === "self" ? config.COLORS.powerUpSelfHex : config.COLORS.powerUpOpponentsHex;
+    ctx.fill();
+    ctx.fillStyle = effectiveColors(config).backgroundHex;
+    ctx.font = `bold ${Math.round(radius * 1.3)}px system-ui, sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(POWER_UP_SYMBOLS[pickup.effect], x, y);
+}
+
+/* ---------- Warstwy ----------
+ * Warstwa śladu jest trwała i dorysowywana przyrostowo (tło, ramka, ślady).
+ * Nakładka (głowy, power-upy) jest czyszczona i rysowana od nowa w każdej klatce,
+ * więc nic nie zamalowuje śladu – na ekranie widać dokładnie to, w co można uderzyć.
+ */
+
+/** Przeszkody mapy piksel w piksel jak w masce kolizji – poziome odcinki zajętych pikseli wiersz po wierszu. */
+export function drawObstacles(ctx: CanvasRenderingContext2D, config: GameConfig, map: ArenaMap): void {
+    const bits = rasterizeMap(map);
+    ctx.fillStyle = effectiveColors(config).obstacleHex;
+    for (let y = 0; y < map.heightPixels; y++) {
+        const row = y * map.widthPixels;
+        let x = 0;
+        while (x < map.widthPixels) {
+            if (bits[row + x] === 0) {
+                x++;
+                continue;
+            }
+            const start = x;
+            while (x < map.widthPixels && bits[row + x] === 1) x++;
+            ctx.fillRect(start - 0.5, y - 0.5, x - start, 1);
+        }
+    }
+}
+
+/** Zamalowuje tłem piksele śladu zwolnione w masce (odcinki `[indeks startu, długość, …]` z `trailsErased`). */
+export function eraseTrailPixels(ctx: CanvasRenderingContext2D, state: BoardView, pixelRuns: readonly number[]): void {
+    const width = state.arena.widthPixels;
+    ctx.fillStyle = effectiveColors(state.config).backgroundHex;
+    for (let i = 0; i < pixelRuns.length; i += 2) {
+        const start = pixelRuns[i];
+        ctx.fillRect((start % width) - 0.5, Math.floor(start / width) - 0.5, pixelRuns[i + 1], 1);
+    }
+}
+
+/** Warstwa śladu: tło + ramka – po resecie rundy i po wyczyszczeniu planszy. */
+export function paintBoard(ctx: CanvasRenderingContext2D, state: BoardView): void {
+    const {config, arena} = state;
+    ctx.fillStyle = effectiveColors(config).backgroundHex;
+    ctx.fillRect(0, 0, arena.widthPixels, arena.heightPixels);
+    if (config.ARENA.map) drawObstacles(ctx, config, config.ARENA.map);
+    drawBorder(ctx, config, arena);
+}
+
+/** Warstwa śladu na start rundy: plansza + startowe kropki graczy (zaznaczone też w masce). */
+export function paintRoundStart(ctx: CanvasRenderingContext2D, state: BoardView): void {
+    paintBoard(ctx, state);
+    const wrapBounds = getWrapBounds(state.config, state.arena);
+    state.players.forEach((player, index) =>
+        drawTrailSegment(ctx, state.config, player, undefined, wrapBounds, trailPatternOf(state.config, index))
+    );
+}
+
+/**
+ * Dorysowuje na warstwie śladu skutki kroku symulacji: czyszczenie planszy, znikanie starego śladu
+ * i nowe odcinki śladów (gracze w dziurze nic nie rysują). Zwraca nowe `lastRenderedPositions` do następnej klatki.
+ */
+export function renderFrame(
+    ctx: CanvasRenderingContext2D,
+    state: BoardView,
+    events: SimulationEvent[],
+    lastRenderedPositions: (TrailCursor | undefined)[]
+): (TrailCursor | undefined)[] {
+    let previous = lastRenderedPositions;
+    if (events.some((event) => event.type === "boardCleared")) {
+        paintBoard(ctx, state);
+        previous = [];
+    }
+    for (const event of events) {
+        if (event.type === "trailsErased") eraseTrailPixels(ctx, state, event.pixelRuns);
+    }
+    const wrapBounds = getWrapBounds(state.config, state.arena);
+    return state.players.map((player, index) => {
+        const from = previous[index];
+        if (player.isAlive && !player.gap.isActive) {
+            return drawTrailSegment(ctx, state.config, player, from, wrapBounds, trailPatternOf(state.config, index));
+        }
+        // w dziurze ślad się urywa – następny odcinek zaczyna się od bieżącej pozycji
+        const {x, y} = player.positionPixels;
+        return {x, y, travelledPixels: from?.travelledPixels ?? 0, recentMarks: []};
+    });
+}
+
+/** Krzyżyk w kolorze gracza w miejscu, w którym się rozbił (z ciemną obwódką, żeby odcinał się od śladów). */
+export function drawCrashMarker(ctx: CanvasRenderingContext2D, center: Vector2D, radiusPixels: number, colorHex: string, backgroundHex: string): void {
+    const arm = Math.max(MIN_CRASH_MARKER_PIXELS, radiusPixels * 2.5);
+    ctx.beginPath();
+    ctx.moveTo(center.x - arm, center.y - arm);
+    ctx.lineTo(center.x + arm, center.y + arm);
+    ctx.moveTo(center.x + arm, center.y - arm);
+    ctx.lineTo(center.x - arm, center.y + arm);
+    ctx.lineCap = "round";
+    ctx.strokeStyle = backgroundHex;
+    ctx.lineWidth = 4;
+    ctx.stroke();
+    ctx.strokeStyle = colorHex;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+}
+
+/** Nakładka: ramka sudden death, leżące power-upy, znaczniki zderzeń i głowy żyjących graczy (także w trakcie dziury). */
+export function drawOverlay(ctx: CanvasRenderingContext2D, state: BoardView): void {
+    drawSuddenDeath(ctx, state.config, state.arena, state.suddenDeath);
+    for (const pickup of state.powerUps.pickups) drawPickup(ctx, state.config, pickup);
+    const wrapBounds = getWrapBounds(state.config, state.arena);
+    const {backgroundHex} = effectiveColors(state.config);
+    for (const player of state.players) {
+        if (player.isAlive || !player.crashPositionPixels) continue;
+        const {x, y} = player.crashPositionPixels;
+        const center = wrapBounds ? wrapPoint(wrapBounds, x, y) : player.crashPositionPixels;
+        drawCrashMarker(ctx, center, player.radiusPixels, player.colorHex, backgroundHex);
+    }
+    state.players.forEach((player, index) => {
+        if (player.isAlive) drawWrappedHead(ctx, wrapBounds, player, headShapeOf(state.config, index), backgroundHex);
+    });
+}
@@ -0,0 +1,128 @@
+import {CONFIG, GameConfig} from "./config";
+import {createEmptyMap} from "./maps";
+import {
+    createReplayPlayback,
+    createReplayRecorder,
+    parseReplay,
+    REPLAY_FORMAT_VERSION,
+    recordFrame,
+    recordToggle,
+    seekPlayback,
+    serializeReplay,
+    stepPlayback,
+} from "./replay";
+import {createSimulation, SimulationState, stepSimulation, toggleMovement} from "./simulation";
+import {PlayerInput} from "./types";
+
+const ARENA = {widthPixels: 320, heightPixels: 240};
+const SETUPS = CONFIG.PLAYERS.roster.slice(0, 3);
+
+/** Runda na żywo z nieregularnymi klatkami i zmiennym wejściem; zwraca stan i nagranie. */
+function playRecordedRound(seed: number, frames: number) {
+    const state = createSimulation(CONFIG, ARENA, seed, SETUPS);
+    const recorder = createReplayRecorder(state, SETUPS);
+    toggleMovement(state);
+    recordToggle(recorder);
+
+    for (let frame = 0; frame < frames && !state.hasRoundEnded; frame++) {
+        const deltaTimeSeconds = frame % 7 === 0 ? 1 / 30 : 1 / 60 + (frame % 3) / 1000;
+        const inputs: PlayerInput[] = SETUPS.map((_, index) => ({
+            turnLeft: (frame + index * 11) % 40 < 12,
+            turnRight: (frame + index * 5) % 50 > 40,
+        }));
+        recordFrame(recorder, inputs, deltaTimeSeconds);
+        stepSimulation(state, inputs, deltaTimeSeconds);
+    }
+    return {state, replay: recorder.replay};
+}
+
+function snapshot(state: SimulationState) {
+    return {
+        players: state.players.map(({positionPixels, angleRadians, isAlive, gap, effects}) => ({
+            positionPixels, angleRadians, isAlive, gap, effects,
+        })),
+        pickups: state.powerUps.pickups,
+        owner: Array.from(state.trailMask.owner),
+    };
+}
+
+test("playback reproduces the recorded round exactly", () => {
+    const {state, replay} = playRecordedRound(1234, 400);
+    const playback = createReplayPlayback(parseReplay(serializeReplay(replay)));
+    while (stepPlayback(playback)) { /* do końca */ }
+
+    expect(snapshot(playback.simulation)).toEqual(snapshot(state));
+});
+
+test("only input changes are stored, with timestamps", () => {
+    const {replay} = playRecordedRound(99, 120);
+    expect(replay.inputEvents.length).toBeLessThan(replay.frameDurations.length * SETUPS.length);
+    expect(replay.inputEvents[0]).toMatchObject({frame: 0, timeSeconds: 0});
+    for (let i = 1; i < replay.inputEvents.length; i++) {
+        expect(replay.inputEvents[i].timeSeconds).toBeGreaterThanOrEqual(replay.inputEvents[i - 1].timeSeconds);
+    }
+});
+
+test("seeking backwards and forwards lands on the same state", () => {
+    const {replay} = playRecordedRound(7, 300);
+    const playback = createReplayPlayback(replay);
+
+    seekPlayback(playback, 200);
+    const atFrame200 = snapshot(playback.simulation);
+    seekPlayback(playback, 250);
+    seekPlayback(playback, 50);
+    seekPlayback(playback, 200);
+
+    expect(snapshot(playback.simulation)).toEqual(atFrame200);
+});
+
+test("rejects files that are not replays", () => {
+    expect(() => parseReplay("not json")).toThrow(/not JSON/);
+    expect(() => parseReplay(JSON.stringify({version: 42}))).toThrow(/version/);
+    expect(() => parseReplay(JSON.stringify({version: REPLAY_FORMAT_VERSION, seed: 1}))).toThrow(/missing/);
+});
+
+test("rejects damaged replays at import instead of failing during playback", () => {
+    const {replay} = playRecordedRound(3, 60);
+    const damaged = (changes: object) => JSON.stringify({...replay, ...changes});
+
+    expect(() => parseReplay(damaged({frameDurations: [1 / 60, "x"]}))).toThrow(/frame durations/);
+    expect(() => parseReplay(damaged({inputEvents: [{frame: 0, timeSeconds: 0, playerIndex: 7, turnLeft: true, turnRight: false}]})))
+        .toThrow(/input event/);
+    expect(() => parseReplay(damaged({players: SETUPS.slice(0, 1)}))).toThrow(/players/);
+    expect(() => parseReplay(damaged({arena: {widthPixels: -1, heightPixels: 240}}))).toThrow(/arena/);
+    expect(() => parseReplay(damaged({config: {...replay.config, PHYSICS: {fixedStepSeconds: "fast"}}}))).toThrow(/PHYSICS\.fixedStepSeconds/);
+});
+
+test("rejects configs the game would fail on: unknown choices, broken lists and maps", () => {
+    const {replay} = playRecordedRound(3, 60);
+    const withConfig = <K extends keyof GameConfig>(section: K, changes: object) =>
+        JSON.stringify({...replay, config: {...replay.config, [section]: {...replay.config[section], ...changes}}});
+
+    expect(() => parseReplay(withConfig("ACCESSIBILITY", {palette: "neon"}))).toThrow(/palette/);
+    expect(() => parseReplay(withConfig("ARENA", {mode: "spiral"}))).toThrow(/arenaMode/);
+    expect(() => parseReplay(withConfig("GAME_MODE", {id: "chaos"}))).toThrow(/gameMode/);
+    expect(() => parseReplay(withConfig("SUDDEN_DEATH", {mode: "implode"}))).toThrow(/suddenDeathShrink/);
+    expect(() => parseReplay(withConfig("TEAMS", {passThrough: "walls"}))).toThrow(/teamPassThrough/);
+    expect(() => parseReplay(withConfig("TEAMS", {count: 2.5}))).toThrow(/TEAMS\.count/);
+    expect(() => parseReplay(withConfig("MATCH", {targetScore: -3}))).toThrow(/targetScore/);
+
+    expect(() => parseReplay(withConfig("ACCESSIBILITY", {palettes: {"okabe-ito": []}}))).toThrow(/ACCESSIBILITY\.palettes\.okabe-ito/);
+    expect(() => parseReplay(withConfig("TEAMS", {palettes: [{name: "Red"}]}))).toThrow(/TEAMS\.palettes\[0\]\.colorHexes/);
+    expect(() => parseReplay(withConfig("PLAYERS", {roster: [{...SETUPS[0], name: 7}]}))).toThrow(/PLAYERS\.roster\[0\]\.name/);
+    expect(() => parseReplay(withConfig("POWER_UPS", {offers: [{effect: "teleport", target: "self"}]}))).toThrow(/offers/);
+
+    const brokenMap = {...createEmptyMap("Broken", ARENA), obstacles: [{kind: "blob"}]};
+    expect(() => parseReplay(withConfig("ARENA", {map: brokenMap}))).toThrow(/ARENA\.map/);
+    expect(() => parseReplay(withConfig("ARENA", {map: createEmptyMap("Big", {widthPixels: 400, heightPixels: 300})}))).toThrow(/arena size/);
+    expect(parseReplay(withConfig("ARENA", {map: createEmptyMap("Fits", ARENA)})).config.ARENA.map?.name).toBe("Fits");
+});
+
+test("a partial config is filled in with the defaults", () => {
+    const {replay} = playRecordedRound(3, 60);
+    const {SUDDEN_DEATH: _, ...config} = replay.config;
+    const parsed = parseReplay(JSON.stringify({...replay, config: {...config, PHYSICS: {forwardSpeedPixelsPerSecond: 120}}}));
+
+    expect(parsed.config.SUDDEN_DEATH).toEqual(CONFIG.SUDDEN_DEATH);
+    expect(parsed.config.PHYSICS).toEqual({...CONFIG.PHYSICS, forwardSpeedPixelsPerSecond: 120});
+});
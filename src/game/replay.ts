@@ -0,0 +1,349 @@
+import {CONFIG, GameConfig, PlayerSetup} from "./config";
+import {validateMap} from "./maps";
+import {POWER_UP_SYMBOLS} from "./powerUps";
+import {settingsFromConfig, validateSettings} from "./settings";
+import {createSimulation, SimulationEvent, SimulationState, stepSimulation, toggleMovement} from "./simulation";
+import {ArenaSize, PlayerInput, PowerUpTarget} from "./types";
+
+/* =========================================
+ * Powtórki: nagrywanie, zapis do JSON-a i odtwarzanie przez tę samą symulację
+ * =========================================
+ * Runda jest w pełni wyznaczona przez seed, konfigurację, rozmiar planszy,
+ * długości kolejnych kroków i wejścia graczy – więc tylko to zapisujemy.
+ */
+// 2: kolizje wg właściciela i wieku piksela, 3: ruch liczony na całym odcinku, 4: świeży ogon wg przejechanej drogi,
+// 5: korytarze dziur wygasają
+export const REPLAY_FORMAT_VERSION = 5;
+
+/** Zmiana wejścia gracza, obowiązująca od kroku `frame` (zapisujemy tylko zmiany). */
+export type ReplayInputEvent = {
+    frame: number;
+    timeSeconds: number;
+    playerIndex: number;
+    turnLeft: boolean;
+    turnRight: boolean;
+};
+
+/** Start/pauza wykonane tuż przed krokiem `frame`. */
+export type ReplayToggleEvent = {
+    frame: number;
+    timeSeconds: number;
+};
+
+export type Replay = {
+    version: number;
+    recordedAt: string;
+    seed: number;
+    arena: ArenaSize;
+    config: GameConfig;
+    players: PlayerSetup[];
+    frameDurations: number[]; // s – długość każdego wywołania `stepSimulation`
+    inputEvents: ReplayInputEvent[];
+    toggleEvents: ReplayToggleEvent[];
+};
+
+export type ReplayRecorder = {
+    replay: Replay;
+    lastInputs: PlayerInput[];
+    elapsedSeconds: number;
+};
+
+const NO_INPUT: PlayerInput = {turnLeft: false, turnRight: false};
+
+/* ---------- Nagrywanie ---------- */
+
+/** Zaczyna nagrywanie świeżo zresetowanej rundy (przed pierwszym krokiem). */
+export function createReplayRecorder(state: SimulationState, setups: readonly PlayerSetup[]): ReplayRecorder {
+    return {
+        replay: {
+            version: REPLAY_FORMAT_VERSION,
+            recordedAt: new Date().toISOString(),
+            seed: state.random.seed,
+            arena: {...state.arena},
+            config: state.config,
+            players: [...setups],
+            frameDurations: [],
+            inputEvents: [],
+            toggleEvents: [],
+        },
+        lastInputs: state.players.map(() => NO_INPUT),
+        elapsedSeconds: 0,
+    };
+}
+
+export function recordToggle(recorder: ReplayRecorder): void {
+    recorder.replay.toggleEvents.push({
+        frame: recorder.replay.frameDurations.length,
+        timeSeconds: recorder.elapsedSeconds,
+    });
+}
+
+/** Zapisuje jeden krok: zmienione wejścia graczy i długość kroku. Wywoływać z tymi samymi danymi co `stepSimulation`. */
+export function recordFrame(recorder: ReplayRecorder, inputs: PlayerInput[], deltaTimeSeconds: number): void {
+    const {replay} = recorder;
+    const frame = replay.frameDurations.length;
+    recorder.lastInputs = recorder.lastInputs.map((previous, playerIndex) => {
+        const input = inputs[playerIndex] ?? NO_INPUT;
+        if (input.turnLeft !== previous.turnLeft || input.turnRight !== previous.turnRight) {
+            replay.inputEvents.push({
+                frame,
+                timeSeconds: recorder.elapsedSeconds,
+                playerIndex,
+                turnLeft: input.turnLeft,
+                turnRight: input.turnRight,
+            });
+        }
+        return {turnLeft: input.turnLeft, turnRight: input.turnRight};
+    });
+    replay.frameDurations.push(deltaTimeSeconds);
+    recorder.elapsedSeconds += deltaTimeSeconds;
+}
+
+/* ---------- Eksport / import ---------- */
+
+export function serializeReplay(replay: Replay): string {
+    return JSON.stringify(replay);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value);
+}
+
+function isIndexBelow(value: unknown, limit: number): boolean {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) < limit;
+}
+
+/** Największy bok planszy w powtórce – chroni przed alokacją ogromnej maski z uszkodzonego pliku. */
+const MAX_ARENA_PIXELS = 8192;
+
+/**
+ * `value` z pliku sprawdzony względem wartości domyślnej – ten sam kształt i typy, rekurencyjnie.
+ * Brakujące pola obiektów dostają wartości domyślne (np. z powtórek sprzed nowej opcji), ale elementy list
+ * muszą być kompletne: każdy ma kształt pierwszego elementu listy domyślnej, a lista nie może być pusta.
+ * Pola z domyślnym `null` sprawdza dopiero `configFromReplay`.
+ */
+function withDefaults(defaults: unknown, value: unknown, path: string, isListItem = false): unknown {
+    if (value === undefined && !isListItem) return defaults;
+    if (defaults === null) return value;
+    if (Array.isArray(defaults)) {
+        if (!Array.isArray(value) || value.length === 0) throw new Error(`Invalid replay file: ${path} is not a non-empty list`);
+        return value.map((item, index) => withDefaults(defaults[0], item, `${path}[${index}]`, true));
+    }
+    if (isObject(defaults)) {
+        if (!isObject(value)) throw new Error(`Invalid replay file: ${path} is not an object`);
+        const merged: Record<string, unknown> = {};
+        for (const [key, fieldDefault] of Object.entries(defaults)) {
+            merged[key] = withDefaults(fieldDefault, value[key], `${path}.${key}`, isListItem);
+        }
+        return merged;
+    }
+    if (typeof value !== typeof defaults) throw new Error(`Invalid replay file: ${path} has the wrong type`);
+    return value;
+}
+
+const POWER_UP_EFFECTS = Object.keys(POWER_UP_SYMBOLS);
+const POWER_UP_TARGETS: readonly PowerUpTarget[] = ["self", "opponents"];
+
+/**
+ * Konfiguracja z pliku nałożona na `CONFIG`. Poza kształtem sprawdzamy wartości, na których symulacja
+ * i renderer mogłyby się wywrócić: wybory i zakresy z ekranu ustawień, drużyny, oferty power-upów i mapę.
+ */
+function configFromReplay(data: unknown): GameConfig {
+    const config = withDefaults(CONFIG, data, "config") as GameConfig;
+
+    const {errors} = validateSettings(settingsFromConfig(config), settingsFromConfig(CONFIG));
+    const invalidSettings = Object.keys(errors);
+    if (invalidSettings.length > 0) throw new Error(`Invalid replay file: config has invalid ${invalidSettings.join(", ")}`);
+    if (!Number.isInteger(config.TEAMS.count) || config.TEAMS.count < 0) {
+        throw new Error("Invalid replay file: config.TEAMS.count must be a whole number");
+    }
+    const {targetScore} = config.MATCH;
+    if (targetScore !== null && !(isFiniteNumber(targetScore) && targetScore > 0)) {
+        throw new Error("Invalid replay file: config.MATCH.targetScore must be a positive number or null");
+    }
+    const isKnownOffer = ({effect, target}: GameConfig["POWER_UPS"]["offers"][number]) =>
+        POWER_UP_EFFECTS.includes(effect) && POWER_UP_TARGETS.includes(target);
+    if (!config.POWER_UPS.offers.every(isKnownOffer)) throw new Error("Invalid replay file: config.POWER_UPS.offers has an unknown power-up");
+    if (config.ARENA.map !== null) {
+        try {
+            validateMap(config.ARENA.map);
+        } catch (error) {
+            throw new Error(`Invalid replay file: config.ARENA.map is broken (${(error as Error).message})`);
+        }
+    }
+    return config;
+}
+
+function isPlayerSetup(value: unknown): boolean {
+    return isObject(value)
+        && typeof value.name === "string"
+        && typeof value.colorHex === "string"
+        && typeof value.turnLeftKey === "string"
+        && typeof value.turnRightKey === "string";
+}
+
+/**
+ * Parsuje plik powtórki; rzuca błąd z czytelnym opisem, jeśli plik nie pasuje do formatu.
+ * Sprawdza typy i zakresy wszystkiego, co potem czyta symulacja – zły plik ma się wywrócić tu, przy imporcie,
+ * a nie w pętli gry.
+ */
+export function parseReplay(json: string): Replay {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Invalid replay file: not JSON");
+    }
+
+    if (!isObject(data)) throw new Error("Invalid replay file: expected an object");
+    if (data.version !== REPLAY_FORMAT_VERSION) {
+        throw new Error(`Invalid replay file: unsupported version ${String(data.version)}`);
+    }
+    const {seed, arena, players, frameDurations, inputEvents, toggleEvents} = data;
+    if (!isFiniteNumber(seed) || !isObject(arena) || data.config === undefined) {
+        throw new Error("Invalid replay file: missing seed, arena or config");
+    }
+    if (!Array.isArray(players) || !Array.isArray(frameDurations) || !Array.isArray(inputEvents) || !Array.isArray(toggleEvents)) {
+        throw new Error("Invalid replay file: missing players, frames or events");
+    }
+
+    const config = configFromReplay(data.config);
+    const isArenaSide = (value: unknown) => Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_ARENA_PIXELS;
+    if (!isArenaSide(arena.widthPixels) || !isArenaSide(arena.heightPixels)) {
+        throw new Error("Invalid replay file: bad arena size");
+    }
+    const {map} = config.ARENA;
+    if (map && (map.widthPixels !== arena.widthPixels || map.heightPixels !== arena.heightPixels)) {
+        throw new Error("Invalid replay file: the map does not match the arena size");
+    }
+    const maxPlayers = config.PLAYERS.roster.length;
+    if (players.length < config.PLAYERS.minCount || players.length > maxPlayers || !players.every(isPlayerSetup)) {
+        throw new Error(`Invalid replay file: expected ${config.PLAYERS.minCount}–${maxPlayers} players with names, colors and keys`);
+    }
+    if (!frameDurations.every((duration) => isFiniteNumber(duration) && duration >= 0)) {
+        throw new Error("Invalid replay file: frame durations must be non-negative numbers");
+    }
+    const isFrameEvent = (event: unknown): event is Record<string, unknown> =>
+        isObject(event) && Number.isInteger(event.frame) && (event.frame as number) >= 0 && isFiniteNumber(event.timeSeconds);
+    const isInputEvent = (event: unknown) =>
+        isFrameEvent(event)
+        && isIndexBelow(event.playerIndex, players.length)
+        && typeof event.turnLeft === "boolean"
+        && typeof event.turnRight === "boolean";
+    if (!inputEvents.every(isInputEvent)) throw new Error("Invalid replay file: bad input event");
+    if (!toggleEvents.every(isFrameEvent)) throw new Error("Invalid replay file: bad start/pause event");
+
+    return {
+        version: REPLAY_FORMAT_VERSION,
+        recordedAt: typeof data.recordedAt === "string" ? data.recordedAt : "",
+        seed,
+        arena: {widthPixels: arena.widthPixels as number, heightPixels: arena.heightPixels as number},
+        config,
+        players: players as PlayerSetup[],
+        frameDurations: frameDurations as number[],
+        inputEvents: inputEvents as ReplayInputEvent[],
+        toggleEvents: toggleEvents as ReplayToggleEvent[],
+    };
+}
+
+/* ---------- Odtwarzanie ---------- */
+
+export type ReplayPlayback = {
+    replay: Replay;
+    simulation: SimulationState;
+    frame: number;              // ile kroków już odtworzono
+    frameStartTimes: number[];  // s – czas początku każdego kroku (do przewijania po czasie)
+    durationSeconds: number;
+    currentInputs: PlayerInput[];
+    inputCursor: number;
+    toggleCursor: number;
+};
+
+function createPlaybackSimulation(replay: Replay): SimulationState {
+    return createSimulation(replay.config, {...replay.arena}, replay.seed, replay.players);
+}
+
+export function createReplayPlayback(replay: Replay): ReplayPlayback {
+    const frameStartTimes: number[] = [];
+    let time = 0;
+    for (const duration of replay.frameDurations) {
+        frameStartTimes.push(time);
+        time += duration;
+    }
+    return {
+        replay,
+        simulation: createPlaybackSimulation(replay),
+        frame: 0,
+        frameStartTimes,
+        durationSeconds: time,
+        currentInputs: replay.players.map(() => NO_INPUT),
+        inputCursor: 0,
+        toggleCursor: 0,
+    };
+}
+
+export function isPlaybackFinished(playback: ReplayPlayback): boolean {
+    return playback.frame >= playback.replay.frameDurations.length;
+}
+
+/** Czas powtórki po odtworzeniu bieżącej liczby kroków. */
+export function getPlaybackTime(playback: ReplayPlayback): number {
+    return isPlaybackFinished(playback) ? playback.durationSeconds : playback.frameStartTimes[playback.frame];
+}
+
+/** Odtwarza jeden zapisany krok. Zwraca zdarzenia symulacji albo `null`, gdy powtórka się skończyła. */
+export function stepPlayback(playback: ReplayPlayback): SimulationEvent[] | null {
+    if (isPlaybackFinished(playback)) return null;
+    const {replay, frame} = playback;
+
+    while (playback.toggleCursor < replay.toggleEvents.length && replay.toggleEvents[playback.toggleCursor].frame <= frame) {
+        toggleMovement(playback.simulation);
+        playback.toggleCursor++;
+    }
+    while (playback.inputCursor < replay.inputEvents.length && replay.inputEvents[playback.inputCursor].frame <= frame) {
+        const {playerIndex, turnLeft, turnRight} = replay.inputEvents[playback.inputCursor];
+        playback.currentInputs[playerIndex] = {turnLeft, turnRight};
+        playback.inputCursor++;
+    }
+
+    playback.frame++;
+    return stepSimulation(playback.simulation, playback.currentInputs, replay.frameDurations[frame]);
+}
+
+/** Cofa powtórkę na początek rundy. */
+export function rewindPlayback(playback: ReplayPlayback): void {
+    playback.simulation = createPlaybackSimulation(playback.replay);
+    playback.frame = 0;
+    playback.currentInputs = playback.replay.players.map(() => NO_INPUT);
+    playback.inputCursor = 0;
+    playback.toggleCursor = 0;
+}
+
+/**
+ * Przewija do kroku `targetFrame`. Do tyłu się nie da, więc wtedy liczymy rundę od nowa –
+ * `onFrame` dostaje zdarzenia każdego przeliczonego kroku (np. żeby odrysować ślad).
+ */
+export function seekPlayback(
+    playback: ReplayPlayback,
+    targetFrame: number,
+    onFrame?: (events: SimulationEvent[]) => void
+): void {
+    const target = Math.max(0, Math.min(targetFrame, playback.replay.frameDurations.length));
+    if (target < playback.frame) rewindPlayback(playback);
+    while (playback.frame < target) {
+        const events = stepPlayback(playback);
+        if (events && onFrame) onFrame(events);
+    }
+}
+
+/** Numer kroku, który trzeba odtworzyć, żeby dojść do czasu `timeSeconds`. */
+export function frameAtTime(playback: ReplayPlayback, timeSeconds: number): number {
+    const {frameStartTimes} = playback;
+    let frame = 0;
+    while (frame < frameStartTimes.length && frameStartTimes[frame] < timeSeconds) frame++;
+    return frame;
+}
@@ -0,0 +1,64 @@
+import {CONFIG} from "./config";
+import {
+    applyPreset,
+    applySettings,
+    findMatchingPreset,
+    loadSettings,
+    saveSettings,
+    settingsFromConfig,
+    SETTINGS_STORAGE_KEY,
+    settingsToQuery,
+    settingsValuesFromQuery,
+    validateSettings,
+} from "./settings";
+
+const defaults = settingsFromConfig(CONFIG);
+
+beforeEach(() => localStorage.clear());
+
+test("applying the default settings leaves the config unchanged", () => {
+    const config = applySettings(CONFIG, defaults);
+    expect(config.PHYSICS.turnSpeedRadiansPerSecond).toBeCloseTo(CONFIG.PHYSICS.turnSpeedRadiansPerSecond, 1);
+    expect(config.GAPS).toEqual(CONFIG.GAPS);
+    expect(config.ARENA).toEqual(CONFIG.ARENA);
+});
+
+test("values outside their range are rejected and replaced by the fallback", () => {
+    const {settings, errors} = validateSettings({forwardSpeedPixelsPerSecond: 5000, dotRadiusPixels: NaN, borderHex: "red"}, defaults);
+    expect(Object.keys(errors).sort()).toEqual(["borderHex", "dotRadiusPixels", "forwardSpeedPixelsPerSecond"]);
+    expect(settings).toEqual(defaults);
+});
+
+test("a gap maximum below its minimum is an error", () => {
+    const {settings, errors} = validateSettings({gapMinIntervalSeconds: 3, gapMaxIntervalSeconds: 2}, defaults);
+    expect(errors.gapMaxIntervalSeconds).toBeDefined();
+    expect(settings.gapMaxIntervalSeconds).toBe(3);
+});
+
+test("presets are recognised, edited presets become custom", () => {
+    const fast = applyPreset(defaults, "fast");
+    expect(findMatchingPreset(defaults, fast)).toBe("fast");
+    expect(findMatchingPreset(defaults, defaults)).toBe("classic");
+    expect(findMatchingPreset(defaults, {...fast, dotRadiusPixels: 5})).toBeNull();
+});
+
+test("a settings link carries only the changed values and reads back the same", () => {
+    const settings = {...applyPreset(defaults, "wrap-around"), gapsEnabled: false, backgroundHex: "#102030"};
+    const query = settingsToQuery(settings, defaults);
+    expect(query).toBe("gaps=0&bg=102030&arena=wrap");
+    expect(validateSettings(settingsValuesFromQuery(query), defaults)).toEqual({settings, errors: {}});
+    expect(settingsToQuery(defaults, defaults)).toBe("");
+});
+
+test("link parameters override the saved settings, broken values are ignored", () => {
+    saveSettings({...defaults, forwardSpeedPixelsPerSecond: 120, powerUpsEnabled: false}, localStorage);
+    const settings = loadSettings(defaults, "?speed=150&turn=abc", localStorage);
+    expect(settings.forwardSpeedPixelsPerSecond).toBe(150);
+    expect(settings.turnSpeedDegreesPerSecond).toBe(defaults.turnSpeedDegreesPerSecond);
+    expect(settings.powerUpsEnabled).toBe(false);
+});
+
+test("a corrupt save falls back to the defaults", () => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, "{not json");
+    expect(loadSettings(defaults, "", localStorage)).toEqual(defaults);
+});
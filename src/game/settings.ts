@@ -0,0 +1,274 @@
+import {getLocalStorage, readStoredJson, writeStoredJson} from "../storage/localStorage";
+import {GameConfig} from "./config";
+import {GAME_MODE_IDS} from "./gameModes";
+import {ArenaMode, GameModeId, PlayerPalette, ShrinkMode, TeamPassThrough} from "./types";
+
+/* =========================================
+ * Ustawienia gry zmieniane w trakcie działania (ekran ustawień, localStorage, link z parametrami)
+ * =========================================
+ * Płaska lista wartości w jednostkach dla człowieka (np. skręt w stopniach),
+ * nakładana na `CONFIG` przez `applySettings`.
+ */
+export type GameSettings = {
+    gameMode: GameModeId;
+    forwardSpeedPixelsPerSecond: number;
+    turnSpeedDegreesPerSecond: number;
+    dotRadiusPixels: number;
+    gapsEnabled: boolean;
+    gapMinIntervalSeconds: number;
+    gapMaxIntervalSeconds: number;
+    gapMinDurationSeconds: number;
+    gapMaxDurationSeconds: number;
+    borderThicknessPixels: number;
+    backgroundHex: string;
+    borderHex: string;
+    arenaMode: ArenaMode;
+    powerUpsEnabled: boolean;
+    smoothLines: boolean;
+    suddenDeath: boolean;
+    suddenDeathStartSeconds: number;
+    suddenDeathShrink: ShrinkMode;
+    teams: TeamSetting;
+    teamPassThrough: TeamPassThrough;
+    palette: PlayerPalette;
+    trailPatterns: boolean;
+    headShapes: boolean;
+    reducedMotion: boolean;
+    highContrast: boolean;
+};
+
+/** Liczba drużyn jako wybór na ekranie ustawień (`off` – każdy gra na siebie). */
+export type TeamSetting = "off" | "2" | "3";
+
+export type SettingKey = keyof GameSettings;
+
+export type SettingField =
+    | { key: SettingKey; label: string; queryKey: string; kind: "number"; min: number; max: number; step: number }
+    | { key: SettingKey; label: string; queryKey: string; kind: "boolean" }
+    | { key: SettingKey; label: string; queryKey: string; kind: "color" }
+    | { key: SettingKey; label: string; queryKey: string; kind: "choice"; options: readonly string[] };
+
+/** Pola ekranu ustawień – kolejność, zakresy i krótkie nazwy parametrów w linku. */
+export const SETTING_FIELDS: readonly SettingField[] = [
+    {key: "gameMode", label: "Game mode", queryKey: "mode", kind: "choice", options: GAME_MODE_IDS},
+    {key: "forwardSpeedPixelsPerSecond", label: "Speed (px/s)", queryKey: "speed", kind: "number", min: 30, max: 300, step: 5},
+    {key: "turnSpeedDegreesPerSecond", label: "Turn rate (°/s)", queryKey: "turn", kind: "number", min: 30, max: 360, step: 5},
+    {key: "dotRadiusPixels", label: "Line radius (px)", queryKey: "radius", kind: "number", min: 1, max: 8, step: 0.5},
+    {key: "gapsEnabled", label: "Gaps", queryKey: "gaps", kind: "boolean"},
+    {key: "gapMinIntervalSeconds", label: "Gap every, min (s)", queryKey: "gapMin", kind: "number", min: 0.3, max: 10, step: 0.1},
+    {key: "gapMaxIntervalSeconds", label: "Gap every, max (s)", queryKey: "gapMax", kind: "number", min: 0.3, max: 10, step: 0.1},
+    {key: "gapMinDurationSeconds", label: "Gap length, min (s)", queryKey: "gapLenMin", kind: "number", min: 0.05, max: 1, step: 0.01},
+    {key: "gapMaxDurationSeconds", label: "Gap length, max (s)", queryKey: "gapLenMax", kind: "number", min: 0.05, max: 1, step: 0.01},
+    {key: "borderThicknessPixels", label: "Border thickness (px)", queryKey: "border", kind: "number", min: 1, max: 20, step: 1},
+    {key: "backgroundHex", label: "Background color", queryKey: "bg", kind: "color"},
+    {key: "borderHex", label: "Border color", queryKey: "borderColor", kind: "color"},
+    {key: "arenaMode", label: "Arena", queryKey: "arena", kind: "choice", options: ["walled", "wrap"]},
+    {key: "powerUpsEnabled", label: "Power-ups", queryKey: "powerUps", kind: "boolean"},
+    {key: "smoothLines", label: "Smooth lines", queryKey: "smooth", kind: "boolean"},
+    {key: "suddenDeath", label: "Sudden death", queryKey: "suddenDeath", kind: "boolean"},
+    {key: "suddenDeathStartSeconds", label: "Sudden death after (s)", queryKey: "suddenDeathAfter", kind: "number", min: 10, max: 300, step: 5},
+    {key: "suddenDeathShrink", label: "Arena closes", queryKey: "shrink", kind: "choice", options: ["steps", "steady"]},
+    {key: "teams", label: "Teams", queryKey: "teams", kind: "choice", options: ["off", "2", "3"]},
+    {key: "teamPassThrough", label: "Teammates pass through", queryKey: "teamPass", kind: "choice", options: ["gaps", "trails"]},
+    {key: "palette", label: "Player colors", queryKey: "palette", kind: "choice", options: ["default", "okabe-ito", "tol-bright"]},
+    {key: "trailPatterns", label: "Trail patterns", queryKey: "patterns", kind: "boolean"},
+    {key: "headShapes", label: "Head shapes", queryKey: "shapes", kind: "boolean"},
+    {key: "reducedMotion", label: "Reduced motion", queryKey: "reducedMotion", kind: "boolean"},
+    {key: "highContrast", label: "High contrast", queryKey: "contrast", kind: "boolean"},
+];
+
+export const SETTINGS_STORAGE_KEY = "kurve.settings.v1";
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function settingsFromConfig(config: GameConfig): GameSettings {
+    return {
+        gameMode: config.GAME_MODE.id,
+        forwardSpeedPixelsPerSecond: config.PHYSICS.forwardSpeedPixelsPerSecond,
+        turnSpeedDegreesPerSecond: Math.round((config.PHYSICS.turnSpeedRadiansPerSecond * 180) / Math.PI),
+        dotRadiusPixels: config.DOT.radiusPixels,
+        gapsEnabled: config.GAPS.enabled,
+        gapMinIntervalSeconds: config.GAPS.minIntervalSeconds,
+        gapMaxIntervalSeconds: config.GAPS.maxIntervalSeconds,
+        gapMinDurationSeconds: config.GAPS.minDurationSeconds,
+        gapMaxDurationSeconds: config.GAPS.maxDurationSeconds,
+        borderThicknessPixels: config.BORDER.thicknessPixels,
+        backgroundHex: config.COLORS.backgroundHex,
+        borderHex: config.COLORS.borderHex,
+        arenaMode: config.ARENA.mode,
+        powerUpsEnabled: config.POWER_UPS.enabled,
+        smoothLines: config.RENDER.smoothLines,
+        suddenDeath: config.SUDDEN_DEATH.enabled,
+        suddenDeathStartSeconds: config.SUDDEN_DEATH.startSeconds,
+        suddenDeathShrink: config.SUDDEN_DEATH.mode,
+        teams: config.TEAMS.count === 2 || config.TEAMS.count === 3 ? String(config.TEAMS.count) as TeamSetting : "off",
+        teamPassThrough: config.TEAMS.passThrough,
+        palette: config.ACCESSIBILITY.palette,
+        trailPatterns: config.ACCESSIBILITY.trailPatterns,
+        headShapes: config.ACCESSIBILITY.headShapes,
+        reducedMotion: config.ACCESSIBILITY.reducedMotion,
+        highContrast: config.ACCESSIBILITY.highContrast,
+    };
+}
+
+/** Konfiguracja gry z nałożonymi ustawieniami (reszta pól bez zmian). */
+export function applySettings(config: GameConfig, settings: GameSettings): GameConfig {
+    return {
+        ...config,
+        GAME_MODE: {...config.GAME_MODE, id: settings.gameMode},
+        COLORS: {...config.COLORS, backgroundHex: settings.backgroundHex, borderHex: settings.borderHex},
+        DOT: {...config.DOT, radiusPixels: settings.dotRadiusPixels},
+        PHYSICS: {
+            ...config.PHYSICS,
+            forwardSpeedPixelsPerSecond: settings.forwardSpeedPixelsPerSecond,
+            turnSpeedRadiansPerSecond: (settings.turnSpeedDegreesPerSecond * Math.PI) / 180,
+        },
+        GAPS: {
+            ...config.GAPS,
+            enabled: settings.gapsEnabled,
+            minIntervalSeconds: settings.gapMinIntervalSeconds,
+            maxIntervalSeconds: settings.gapMaxIntervalSeconds,
+            minDurationSeconds: settings.gapMinDurationSeconds,
+            maxDurationSeconds: settings.gapMaxDurationSeconds,
+        },
+        BORDER: {...config.BORDER, thicknessPixels: settings.borderThicknessPixels},
+        ARENA: {...config.ARENA, mode: settings.arenaMode},
+        POWER_UPS: {...config.POWER_UPS, enabled: settings.powerUpsEnabled},
+        RENDER: {...config.RENDER, smoothLines: settings.smoothLines},
+        SUDDEN_DEATH: {
+            ...config.SUDDEN_DEATH,
+            enabled: settings.suddenDeath,
+            startSeconds: settings.suddenDeathStartSeconds,
+            mode: settings.suddenDeathShrink,
+        },
+        TEAMS: {...config.TEAMS, count: settings.teams === "off" ? 0 : Number(settings.teams), passThrough: settings.teamPassThrough},
+        ACCESSIBILITY: {
+            ...config.ACCESSIBILITY,
+            palette: settings.palette,
+            trailPatterns: settings.trailPatterns,
+            headShapes: settings.headShapes,
+            reducedMotion: settings.reducedMotion,
+            highContrast: settings.highContrast,
+        },
+    };
+}
+
+/** Nazwane zestawy – nakładane na domyślne ustawienia. */
+export const SETTINGS_PRESETS: Readonly<Record<string, Partial<GameSettings>>> = {
+    classic: {},
+    fast: {forwardSpeedPixelsPerSecond: 130, turnSpeedDegreesPerSecond: 150},
+    "no gaps": {gapsEnabled: false},
+    "wrap-around": {arenaMode: "wrap"},
+    teams: {teams: "2"},
+    "sudden death": {suddenDeath: true, suddenDeathStartSeconds: 30},
+    "decaying tails": {gameMode: "decaying-tails"},
+    "speed ramp": {gameMode: "speed-ramp"},
+};
+
+export function applyPreset(defaults: GameSettings, presetName: string): GameSettings {
+    return {...defaults, ...SETTINGS_PRESETS[presetName]};
+}
+
+/** Nazwa zestawu, który dokładnie odpowiada ustawieniom (albo `null` – ustawienia własne). */
+export function findMatchingPreset(defaults: GameSettings, settings: GameSettings): string | null {
+    const matches = (name: string) => {
+        const preset = applyPreset(defaults, name);
+        return SETTING_FIELDS.every(({key}) => preset[key] === settings[key]);
+    };
+    return Object.keys(SETTINGS_PRESETS).find(matches) ?? null;
+}
+
+/* ---------- Walidacja ---------- */
+
+export type SettingsErrors = Partial<Record<SettingKey, string>>;
+
+function validateField(field: SettingField, value: unknown): string | null {
+    switch (field.kind) {
+        case "number":
+            if (typeof value !== "number" || !Number.isFinite(value)) return "Enter a number";
+            if (value < field.min || value > field.max) return `Must be between ${field.min} and ${field.max}`;
+            return null;
+        case "boolean":
+            return typeof value === "boolean" ? null : "Must be on or off";
+        case "color":
+            return typeof value === "string" && COLOR_PATTERN.test(value) ? null : "Use a #rrggbb color";
+        case "choice":
+            return typeof value === "string" && field.options.includes(value) ? null : `Pick one of: ${field.options.join(", ")}`;
+    }
+}
+
+/**
+ * Sprawdza zakresy pól i zależności między nimi (min ≤ max). Zwraca błędy do pokazania przy polach
+ * oraz bezpieczne ustawienia, w których każde złe pole zastąpiono wartością z `fallback`.
+ */
+export function validateSettings(
+    values: Partial<Record<SettingKey, unknown>>,
+    fallback: GameSettings
+): { settings: GameSettings; errors: SettingsErrors } {
+    const errors: SettingsErrors = {};
+    const settings = {...fallback} as Record<SettingKey, unknown>;
+    for (const field of SETTING_FIELDS) {
+        if (!(field.key in values)) continue;
+        const error = validateField(field, values[field.key]);
+        if (error) errors[field.key] = error;
+        else settings[field.key] = values[field.key];
+    }
+
+    const checked = settings as GameSettings;
+    if (checked.gapMinIntervalSeconds > checked.gapMaxIntervalSeconds) {
+        errors.gapMaxIntervalSeconds = "Must not be shorter than the minimum";
+        checked.gapMaxIntervalSeconds = checked.gapMinIntervalSeconds;
+    }
+    if (checked.gapMinDurationSeconds > checked.gapMaxDurationSeconds) {
+        errors.gapMaxDurationSeconds = "Must not be shorter than the minimum";
+        checked.gapMaxDurationSeconds = checked.gapMinDurationSeconds;
+    }
+    return {settings: checked, errors};
+}
+
+/* ---------- Link z parametrami ---------- */
+
+/** Parametry linku – tylko pola różne od domyślnych, żeby link był krótki. */
+export function settingsToQuery(settings: GameSettings, defaults: GameSettings): string {
+    const params = new URLSearchParams();
+    for (const field of SETTING_FIELDS) {
+        const value = settings[field.key];
+        if (value === defaults[field.key]) continue;
+        if (field.kind === "boolean") params.set(field.queryKey, value ? "1" : "0");
+        else if (field.kind === "color") params.set(field.queryKey, String(value).replace("#", ""));
+        else params.set(field.queryKey, String(value));
+    }
+    return params.toString();
+}
+
+/** Surowe wartości z linku (do `validateSettings`); nieznane parametry są pomijane. */
+export function settingsValuesFromQuery(search: string): Partial<Record<SettingKey, unknown>> {
+    const params = new URLSearchParams(search);
+    const values: Partial<Record<SettingKey, unknown>> = {};
+    for (const field of SETTING_FIELDS) {
+        const raw = params.get(field.queryKey);
+        if (raw === null) continue;
+        if (field.kind === "number") values[field.key] = raw.trim() === "" ? NaN : Number(raw);
+        else if (field.kind === "boolean") values[field.key] = raw === "1" || raw === "true" ? true : raw === "0" || raw === "false" ? false : raw;
+        else if (field.kind === "color") values[field.key] = `#${raw}`;
+        else values[field.key] = raw;
+    }
+    return values;
+}
+
+/* ---------- localStorage ---------- */
+
+/**
+ * Ustawienia startowe: zapisane w localStorage, a na nie parametry z linku.
+ * Złe wartości (uszkodzony zapis, ręcznie zmieniony link) są po cichu zastępowane domyślnymi.
+ */
+export function loadSettings(defaults: GameSettings, search: string, storage: Storage | null = getLocalStorage()): GameSettings {
+    const saved = readStoredJson(storage, SETTINGS_STORAGE_KEY);
+    const savedValues = saved && typeof saved === "object" ? (saved as Partial<Record<SettingKey, unknown>>) : {};
+    const stored = validateSettings(savedValues, defaults).settings;
+    return validateSettings(settingsValuesFromQuery(search), stored).settings;
+}
+
+export function saveSettings(settings: GameSettings, storage: Storage | null = getLocalStorage()): void {
+    writeStoredJson(storage, SETTINGS_STORAGE_KEY, settings);
+}
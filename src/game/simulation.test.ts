@@ -0,0 +1,287 @@
+import {CONFIG, GameConfig} from "./config";
+import {applyMap, createEmptyMap} from "./maps";
+import {clearBoard} from "./powerUps";
+import {createSimulation, eliminatePlayer, stepSimulation, toggleMovement} from "./simulation";
+import {NO_INPUT, runSteps, setupRound, TEST_ARENA} from "./testing";
+import {isObstacleAt, markGapCorridor, markVisitedCircle, trailOwnerAt} from "./trailMask";
+
+const TWO_PLAYERS = CONFIG.PLAYERS.roster.slice(0, 2);
+
+const NO_GAPS_CONFIG: GameConfig = {...CONFIG, GAPS: {...CONFIG.GAPS, enabled: false}};
+
+test("same seed gives the same round", () => {
+    const first = createSimulation(CONFIG, TEST_ARENA, 42, TWO_PLAYERS);
+    const second = createSimulation(CONFIG, TEST_ARENA, 42, TWO_PLAYERS);
+    toggleMovement(first);
+    toggleMovement(second);
+    runSteps(first, 90);
+    runSteps(second, 90);
+
+    expect(second.players).toEqual(first.players);
+    expect(second.trailMask.owner).toEqual(first.trailMask.owner);
+    expect(second.trailMask.drawnAtTick).toEqual(first.trailMask.drawnAtTick);
+});
+
+test("does not move until started", () => {
+    const state = createSimulation(CONFIG, TEST_ARENA, 7, TWO_PLAYERS);
+    const start = {...state.players[0].positionPixels};
+    runSteps(state, 10);
+    expect(state.players[0].positionPixels).toEqual(start);
+});
+
+test("hitting the border kills the player", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[185, 60, 0], [40, 60, Math.PI]]);
+    const events = runSteps(state, 10);
+
+    expect(state.players[0].isAlive).toBe(false);
+    expect(state.players[0].deathCause).toEqual({kind: "border"});
+    expect(events).toContainEqual({type: "playerCrashed", playerIndex: 0});
+});
+
+test("running into a trail kills the player", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[60, 60, 0], [100, 20, Math.PI]]);
+    for (let y = 40; y <= 80; y++) markVisitedCircle(state.trailMask, 80, y, 2, 1, 0);
+
+    runSteps(state, 30);
+
+    expect(state.players[0].isAlive).toBe(false);
+    expect(state.players[0].deathCause).toEqual({kind: "trail", ownerIndex: 1});
+    expect(state.players[0].positionPixels.x).toBeLessThan(80);
+    // znacznik zderzenia stoi przy śladzie, w który gracz wjechał
+    expect(state.players[0].crashPositionPixels?.x).toBeGreaterThan(state.players[0].positionPixels.x);
+    expect(state.players[0].crashPositionPixels?.x).toBeLessThan(80);
+});
+
+test("own fresh tail does not count as a collision", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[40, 60, 0], [40, 20, 0]]);
+    runSteps(state, 60);
+    expect(state.players.every((player) => player.isAlive)).toBe(true);
+});
+
+test("own trail kills once it is no longer fresh", () => {
+    // ściana gracza 0 z kroku 0 – zanim do niej dojedzie, przestaje być świeża
+    const state = setupRound(NO_GAPS_CONFIG, [[50, 60, 0], [40, 20, 0]]);
+    for (let y = 40; y <= 80; y++) markVisitedCircle(state.trailMask, 80, y, 2, 0, 0);
+
+    runSteps(state, 40);
+
+    expect(state.players[0].isAlive).toBe(false);
+});
+
+test("the trail remembers who drew it", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[40, 60, 0], [40, 20, 0]]);
+    runSteps(state, 30);
+
+    expect(trailOwnerAt(state.trailMask, 50, 60)).toBe(0);
+    expect(trailOwnerAt(state.trailMask, 50, 20)).toBe(1);
+    expect(trailOwnerAt(state.trailMask, 50, 40)).toBeNull();
+});
+
+test("a long step cannot jump through a thin trail", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[40, 60, 0], [40, 20, 0]]);
+    for (let y = 50; y <= 70; y++) markVisitedCircle(state.trailMask, 60, y, 1, 1, 0);
+
+    stepSimulation(state, NO_INPUT, 0.5); // 40 px w jednym kroku
+
+    expect(state.players[0].isAlive).toBe(false);
+});
+
+test("a long step leaves a trail without holes", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[40, 60, 0], [40, 20, 0]]);
+
+    stepSimulation(state, NO_INPUT, 0.5);
+
+    for (let x = 41; x <= 80; x++) expect(trailOwnerAt(state.trailMask, x, 60)).toBe(0);
+});
+
+test("active gap leaves no trail and records a corridor", () => {
+    const state = setupRound(CONFIG, [[40, 60, 0], [40, 20, 0]]);
+    const [player] = state.players;
+    player.gap = {isActive: true, remainingGapTime: 10, timeUntilNextGap: 0};
+
+    runSteps(state, 30);
+
+    const {x, y} = player.positionPixels;
+    const index = Math.round(y) * TEST_ARENA.widthPixels + Math.round(x);
+    expect(state.trailMask.owner[index]).toBe(0);
+    expect(state.trailMask.corridorUntilTick[index]).toBeGreaterThan(state.tick);
+});
+
+test("the start of a gap is reported once", () => {
+    const state = setupRound(CONFIG, [[40, 60, 0], [40, 20, 0]]);
+    state.players[0].gap = {isActive: false, remainingGapTime: 0, timeUntilNextGap: 0.05};
+    state.players[1].gap = {isActive: false, remainingGapTime: 0, timeUntilNextGap: 10};
+
+    const events = runSteps(state, 10);
+
+    expect(events.filter((event) => event.type === "gapStarted")).toEqual([{type: "gapStarted", playerIndex: 0}]);
+});
+
+test("round ends when at most one player is left", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[185, 60, 0], [60, 60, Math.PI], [100, 90, 0]]);
+
+    runSteps(state, 30);
+    expect(state.hasRoundEnded).toBe(false);
+
+    const events = runSteps(state, 60);
+    expect(events).toContainEqual({type: "roundEnded"});
+    expect(state.hasRoundEnded).toBe(true);
+    expect(state.isMoving).toBe(false);
+    expect(state.players.map((player) => player.isAlive)).toEqual([false, false, true]);
+});
+
+test("rejects player counts outside the supported range", () => {
+    expect(() => createSimulation(CONFIG, TEST_ARENA, 1, CONFIG.PLAYERS.roster.slice(0, 1))).toThrow();
+    expect(() => createSimulation(CONFIG, TEST_ARENA, 1, [...CONFIG.PLAYERS.roster, CONFIG.PLAYERS.roster[0]])).toThrow();
+});
+
+test("supports six players with their own names and colors", () => {
+    const state = createSimulation(CONFIG, TEST_ARENA, 3, CONFIG.PLAYERS.roster);
+    expect(state.players.map((player) => player.name)).toEqual(CONFIG.PLAYERS.roster.map((setup) => setup.name));
+    expect(new Set(state.players.map((player) => player.colorHex)).size).toBe(6);
+});
+
+test("any player can pass through another player's gap corridor", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[150, 20, 0], [30, 60, 0], [150, 100, Math.PI]]);
+    const [, crosser] = state.players;
+    for (let y = 40; y <= 80; y++) markVisitedCircle(state.trailMask, 60, y, 2, 0, 0);
+    for (let y = 50; y <= 70; y++) markGapCorridor(state.trailMask, 60, y, 2 + CONFIG.GAPS.corridorExtraMarginPixels, 1);
+
+    runSteps(state, 80);
+
+    expect(crosser.isAlive).toBe(true);
+    expect(crosser.positionPixels.x).toBeGreaterThan(60);
+});
+
+test("a gap stays open after it closes, but trail drawn across it later is deadly", () => {
+    for (const isCrossedLater of [false, true]) {
+        const state = setupRound(CONFIG, [[30, 60, 0], [150, 110, Math.PI]]);
+        const [owner, crosser] = state.players;
+        for (const player of state.players) player.gap = {isActive: false, remainingGapTime: 0, timeUntilNextGap: 60};
+        runSteps(state, 20);
+        owner.gap = {isActive: true, remainingGapTime: 0.1, timeUntilNextGap: 0};
+        runSteps(state, 70);
+        // później właściciel wraca i przejeżdża w poprzek własnej starej dziury
+        if (isCrossedLater) for (let x = 35; x <= 60; x++) markVisitedCircle(state.trailMask, x, 60, 2, 0, state.tick);
+
+        // w poprzek dziury (x 46…49) – głowa zahacza o krawędź narysowaną już po dziurze
+        crosser.positionPixels = {x: 48, y: 90};
+        crosser.angleRadians = -Math.PI / 2;
+        runSteps(state, 75);
+
+        expect(crosser.deathCause).toEqual(isCrossedLater ? {kind: "trail", ownerIndex: 0} : null);
+    }
+});
+
+test("in team mode teammates may drive through each other's trail and the last team standing wins the round", () => {
+    const teamsConfig: GameConfig = {...NO_GAPS_CONFIG, TEAMS: {...CONFIG.TEAMS, count: 2, passThrough: "trails"}};
+    // drużyna 0: gracze 0 i 2, drużyna 1: gracze 1 i 3 (ci jadą prosto w ramkę)
+    const placements: [number, number, number][] = [[40, 60, 0], [160, 20, 0], [100, 30, Math.PI], [160, 100, 0]];
+    const state = setupRound(teamsConfig, placements);
+    for (let y = 40; y <= 80; y++) markVisitedCircle(state.trailMask, 60, y, 2, 2, 0);
+
+    runSteps(state, 40);
+    expect(state.players[0].isAlive).toBe(true);
+    expect(state.players[0].positionPixels.x).toBeGreaterThan(60);
+
+    const events = runSteps(state, 40);
+    expect(events).toContainEqual({type: "roundEnded"});
+    expect(state.players.map((player) => player.isAlive)).toEqual([true, false, true, false]);
+
+    const gapsOnly = setupRound({...teamsConfig, TEAMS: {...teamsConfig.TEAMS, passThrough: "gaps"}}, placements);
+    for (let y = 40; y <= 80; y++) markVisitedCircle(gapsOnly.trailMask, 60, y, 2, 2, 0);
+    runSteps(gapsOnly, 40);
+    expect(gapsOnly.players[0].deathCause).toEqual({kind: "trail", ownerIndex: 2});
+});
+
+test("eliminating a disconnected player counts as a crash and can end the round", () => {
+    const state = setupRound(NO_GAPS_CONFIG, [[40, 20, 0], [40, 60, 0], [40, 100, 0]]);
+    runSteps(state, 5);
+
+    expect(eliminatePlayer(state, 1)).toEqual([{type: "playerCrashed", playerIndex: 1}]);
+    expect(state.players[1].crashedAtTick).toBe(5);
+    expect(state.players[1].deathCause).toEqual({kind: "disconnected"});
+    expect(state.players[1].crashPositionPixels).toBeNull();
+    expect(eliminatePlayer(state, 1)).toEqual([]);
+
+    expect(eliminatePlayer(state, 2)).toEqual([{type: "playerCrashed", playerIndex: 2}, {type: "roundEnded"}]);
+    expect(state.hasRoundEnded).toBe(true);
+});
+
+test("in the wrap-around arena heads leave one edge and come back on the other", () => {
+    const wrapConfig: GameConfig = {...NO_GAPS_CONFIG, ARENA: {...CONFIG.ARENA, mode: "wrap"}};
+    const state = createSimulation(wrapConfig, TEST_ARENA, 1, TWO_PLAYERS);
+    state.players[0].positionPixels = {x: 185, y: 30};
+    state.players[1].positionPixels = {x: 100, y: 90};
+    toggleMovement(state);
+
+    runSteps(state, 20);
+
+    const [crosser] = state.players;
+    expect(crosser.isAlive).toBe(true);
+    expect(crosser.positionPixels.x).toBeLessThan(40);
+    expect(state.trailMask.wrap).not.toBeNull();
+});
+
+test("map obstacles kill and survive clearing the board", () => {
+    const map = {...createEmptyMap("Block", TEST_ARENA), obstacles: [{kind: "rect" as const, x: 120, y: 40, width: 10, height: 40}]};
+    const state = createSimulation(applyMap(NO_GAPS_CONFIG, map), TEST_ARENA, 1, TWO_PLAYERS);
+    state.players[0].positionPixels = {x: 100, y: 60};
+    state.players[0].angleRadians = 0;
+    state.players[1].positionPixels = {x: 40, y: 20};
+    state.players[1].angleRadians = Math.PI;
+    clearBoard(state);
+    expect(isObstacleAt(state.trailMask, 125, 60)).toBe(true);
+
+    toggleMovement(state);
+    const events = runSteps(state, 60);
+    expect(events).toContainEqual({type: "playerCrashed", playerIndex: 0});
+    expect(state.players[0].deathCause).toEqual({kind: "obstacle"});
+    expect(state.players[0].positionPixels.x).toBeLessThan(120);
+});
+
+test("players start on the map's spawn points with their headings, the rest avoid obstacles", () => {
+    const map = {
+        ...createEmptyMap("Spawns", TEST_ARENA),
+        obstacles: [{kind: "rect" as const, x: 0, y: 0, width: 200, height: 80}],
+        spawns: [{x: 50, y: 100, angleRadians: Math.PI}],
+    };
+    for (const seed of [1, 2, 3, 4, 5]) {
+        const state = createSimulation(applyMap(CONFIG, map), TEST_ARENA, seed, CONFIG.PLAYERS.roster.slice(0, 3));
+        const onSpawn = state.players.filter((player) => player.positionPixels.x === 50 && player.positionPixels.y === 100);
+        expect(onSpawn).toHaveLength(1);
+        expect(onSpawn[0].angleRadians).toBe(Math.PI);
+        for (const player of state.players) expect(player.positionPixels.y).toBeGreaterThan(80);
+    }
+});
+
+test("sudden death closes the border in, catching players and pickups outside it", () => {
+    const config: GameConfig = {
+        ...NO_GAPS_CONFIG,
+        POWER_UPS: {...NO_GAPS_CONFIG.POWER_UPS, enabled: false},
+        SUDDEN_DEATH: {
+            ...CONFIG.SUDDEN_DEATH,
+            enabled: true,
+            startSeconds: 0.5,
+            mode: "steps",
+            stepPixels: 20,
+            stepIntervalSeconds: 10,
+            warningSeconds: 0.25,
+            minArenaPixels: 40,
+        },
+    };
+    const state = setupRound(config, [[25, 20, Math.PI / 2], [60, 60, 0], [100, 30, 0]]);
+    state.powerUps.pickups = [{id: 1, effect: "speedUp", target: "self", positionPixels: {x: 15, y: 100}}];
+
+    const warningEvents = runSteps(state, 40);
+    expect(warningEvents).toContainEqual({type: "suddenDeathWarning"});
+    expect(state.players.every((player) => player.isAlive)).toBe(true);
+    expect(state.powerUps.pickups).toHaveLength(1);
+
+    runSteps(state, 24);
+    expect(state.suddenDeath.shrinkPixels).toBe(20);
+    expect(state.players[0].isAlive).toBe(false);
+    expect(state.players[0].deathCause).toEqual({kind: "border"});
+    expect(state.players[1].isAlive).toBe(true);
+    expect(state.powerUps.pickups).toEqual([]);
+});
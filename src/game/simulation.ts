@@ -0,0 +1,360 @@
+import {paletteColorHex} from "./accessibility";
+import {getSafeArea, getWrapBounds, hitsBorder, wrapIntoSafeArea, wrapPoint} from "./border";
+import {GameConfig, PlayerSetup} from "./config";
+import {GameMode, gameModeOf} from "./gameModes";
+import {initGapState, updateGap} from "./gaps";
+import {
+    collectPickup,
+    createPowerUpState,
+    dropClosedOffPickups,
+    findTouchedPickup,
+    hasEffect,
+    PowerUpState,
+    updateEffects,
+    updatePlayerPhysics,
+    updatePowerUpSpawns,
+} from "./powerUps";
+import {rasterizeMap} from "./maps";
+import {createSuddenDeathState, SuddenDeathState, updateSuddenDeath} from "./suddenDeath";
+import {passableOwners, teamColorHex, teamIndexOf} from "./teams";
+import {createRandom, randomInRange, RandomState} from "./random";
+import {
+    collidesWithTrail,
+    createTrailMask,
+    findTrailHit,
+    FreshTail,
+    markGapCorridor,
+    markObstacles,
+    markVisitedCircle,
+    sweepPath,
+} from "./trailMask";
+import {ArenaSize, DeathCause, PlayerInput, PlayerState, PowerUpPickup, SpawnPoint, TrailMask, Vector2D} from "./types";
+
+/* =========================================
+ * Symulacja rundy – czysta logika, bez Reacta i canvasa
+ * ========================================= */
+export type SimulationState = {
+    config: GameConfig;
+    mode: GameMode; // zasady rundy – z `config.GAME_MODE`
+    arena: ArenaSize;
+    random: RandomState;
+    trailMask: TrailMask;
+    players: PlayerState[];
+    powerUps: PowerUpState;
+    suddenDeath: SuddenDeathState;
+    isMoving: boolean;
+    hasRoundEnded: boolean;
+    tick: number; // liczba kroków z ruchem od początku rundy
+};
+
+export type SimulationEvent =
+    | { type: "playerCrashed"; playerIndex: number }
+    | { type: "gapStarted"; playerIndex: number }
+    | { type: "powerUpSpawned"; pickup: PowerUpPickup }
+    | { type: "powerUpCollected"; playerIndex: number; pickup: PowerUpPickup }
+    | { type: "boardCleared" }
+    | { type: "suddenDeathWarning" }
+    | { type: "trailsErased"; pixelRuns: number[] } // odcinki pikseli zwolnionych w masce (`eraseTrailsDrawnBefore`)
+    | { type: "roundEnded" };
+
+/**
+ * Gracz na miejscu `playerIndex`; w trybie drużynowym dostaje odcień koloru swojej drużyny,
+ * a przy wybranej palecie dostępności – jej kolor.
+ */
+function createPlayer(setup: PlayerSetup, config: GameConfig, random: RandomState, playerIndex: number): PlayerState {
+    const player: PlayerState = {
+        name: setup.name,
+        colorHex: teamColorHex(config, playerIndex) ?? paletteColorHex(config, playerIndex) ?? setup.colorHex,
+        angleRadians: 0,
+        positionPixels: {x: 0, y: 0},
+        isAlive: true,
+        crashedAtTick: null,
+        deathCause: null,
+        crashPositionPixels: null,
+        teamIndex: teamIndexOf(config, playerIndex),
+        scoreSeconds: 0,
+        gap: initGapState(config, random),
+        effects: [],
+        speedPixelsPerSecond: 0,
+        turnSpeedRadiansPerSecond: 0,
+        radiusPixels: 0,
+    };
+    updatePlayerPhysics(config, player);
+    return player;
+}
+
+/**
+ * Własny ślad z ostatnich `freshTailRadii` promieni drogi – głowa zawsze na nim leży.
+ * Liczymy drogę, a nie kroki: grubszy albo wolniejszy gracz potrzebuje więcej kroków, żeby zjechać z własnego śladu.
+ */
+export function freshTailOf(state: SimulationState, playerIndex: number): FreshTail {
+    return {playerIndex, sinceTick: state.tick - freshTailTicks(state.config, state.players[playerIndex])};
+}
+
+function freshTailTicks(config: GameConfig, player: PlayerState): number {
+    const stepPixels = player.speedPixelsPerSecond * config.PHYSICS.fixedStepSeconds;
+    return Math.ceil((config.TRAIL.freshTailRadii * player.radiusPixels) / stepPixels);
+}
+
+/**
+ * Tworzy stan symulacji i od razu rozstawia graczy na nowej rundzie.
+ * Kolejność `players` odpowiada kolejności `setups` (i indeksom w `inputs` dla `stepSimulation`).
+ */
+export function createSimulation(
+    config: GameConfig,
+    arena: ArenaSize,
+    seed: number,
+    setups: readonly PlayerSetup[]
+): SimulationState {
+    const maxCount = config.PLAYERS.roster.length;
+    if (setups.length < config.PLAYERS.minCount || setups.length > maxCount) {
+        throw new Error(`Player count must be between ${config.PLAYERS.minCount} and ${maxCount}, got ${setups.length}`);
+    }
+
+    const random = createRandom(seed);
+    const state: SimulationState = {
+        config,
+        mode: gameModeOf(config),
+        arena,
+        random,
+        trailMask: createTrailMask(1, 1),
+        players: setups.map((setup, index) => createPlayer(setup, config, random, index)),
+        powerUps: createPowerUpState(config, random),
+        suddenDeath: createSuddenDeathState(),
+        isMoving: false,
+        hasRoundEnded: false,
+        tick: 0,
+    };
+    resetRound(state, arena, seed);
+    return state;
+}
+
+/** Ile razy losujemy start, zanim pogodzimy się z miejscem przy przeszkodzie. */
+const MAX_SPAWN_ATTEMPTS = 50;
+
+/** Losowy start w bezpiecznym obszarze (nie na ramce), poza przeszkodami mapy. */
+function randomSpawn(state: SimulationState, radius: number): SpawnPoint {
+    const {minX, maxX, minY, maxY} = getSafeArea(state.config, state.arena, radius);
+    let position: Vector2D = {x: 0, y: 0};
+    for (let attempt = 0; attempt < MAX_SPAWN_ATTEMPTS; attempt++) {
+        position = {x: randomInRange(state.random, minX, maxX), y: randomInRange(state.random, minY, maxY)};
+        const center = {x: Math.round(position.x), y: Math.round(position.y)};
+        if (!collidesWithTrail(state.trailMask, center, radius * 2, null)) break;
+    }
+    return {...position, angleRadians: 0};
+}
+
+/** Stałe miejsca startu z mapy w losowej kolejności (bez mapy nie zużywa liczb losowych). */
+function shuffledMapSpawns(state: SimulationState): SpawnPoint[] {
+    const spawns = [...(state.config.ARENA.map?.spawns ?? [])];
+    for (let i = spawns.length - 1; i > 0; i--) {
+        const j = Math.floor(randomInRange(state.random, 0, i + 1));
+        [spawns[i], spawns[j]] = [spawns[j], spawns[i]];
+    }
+    return spawns;
+}
+
+/**
+ * Reset rundy: nowa maska z przeszkodami mapy, starty z mapy (pozostali gracze – losowo w bezpiecznym obszarze)
+ * i świeże zegary gapów.
+ */
+export function resetRound(state: SimulationState, arena: ArenaSize, seed: number): void {
+    const {config} = state;
+    state.arena = arena;
+    state.random = createRandom(seed);
+    state.trailMask = createTrailMask(arena.widthPixels, arena.heightPixels, getWrapBounds(config, arena));
+    const {map} = config.ARENA;
+    if (map && map.widthPixels === arena.widthPixels && map.heightPixels === arena.heightPixels) {
+        markObstacles(state.trailMask, rasterizeMap(map));
+    }
+
+    const radius = config.DOT.radiusPixels; // na starcie nikt nie ma efektów
+    const mapSpawns = shuffledMapSpawns(state);
+
+    state.players.forEach((player, index) => {
+        const spawn = mapSpawns[index] ?? randomSpawn(state, radius);
+        player.positionPixels = {x: spawn.x, y: spawn.y};
+        player.angleRadians = spawn.angleRadians;
+        player.isAlive = true;
+        player.crashedAtTick = null;
+        player.deathCause = null;
+        player.crashPositionPixels = null;
+        player.scoreSeconds = 0;
+        player.gap = initGapState(config, state.random);
+        player.effects = [];
+        updatePlayerPhysics(config, player);
+    });
+    state.powerUps = createPowerUpState(config, state.random);
+    state.suddenDeath = createSuddenDeathState();
+
+    state.isMoving = false;
+    state.hasRoundEnded = false;
+    state.tick = 0;
+
+    // Zaznacz startowe punkty
+    state.players.forEach((player, index) => {
+        const start = {x: Math.round(player.positionPixels.x), y: Math.round(player.positionPixels.y)};
+        markVisitedCircle(state.trailMask, start.x, start.y, radius, index, state.tick);
+    });
+    state.mode.setupRound(state);
+}
+
+/** Przełącza ruch (start/pauza). Po zakończeniu rundy nic nie robi – zostaje tylko restart. */
+export function toggleMovement(state: SimulationState): void {
+    if (state.hasRoundEnded) return;
+    state.isMoving = !state.isMoving;
+}
+
+export function isRunning(state: SimulationState): boolean {
+    return state.isMoving && !state.hasRoundEnded;
+}
+
+/** Zderzenie w kroku: przyczyna i punkt, w którym do niego doszło. */
+type Crash = {
+    cause: DeathCause;
+    positionPixels: Vector2D | null;
+};
+
+/** Ruch gracza o jeden krok. Zwraca zderzenie albo `null`, gdy gracz przeżył krok. */
+function stepPlayer(state: SimulationState, playerIndex: number, deltaTimeSeconds: number): Crash | null {
+    const {config, trailMask} = state;
+    const player = state.players[playerIndex];
+    const radius = player.radiusPixels;
+    const speed = player.speedPixelsPerSecond;
+    let next: Vector2D = {
+        x: player.positionPixels.x + Math.cos(player.angleRadians) * speed * deltaTimeSeconds,
+        y: player.positionPixels.y + Math.sin(player.angleRadians) * speed * deltaTimeSeconds,
+    };
+    // Odcinek ruchu – w trybie `wrap` liczony przed zawinięciem (maska sama zawija piksele przez szew)
+    let path = sweepPath(player.positionPixels, next);
+
+    // 🔴 kolizja z ramką? (z efektem `wallPass` wyjeżdżamy po drugiej stronie; w trybie `wrap` zawsze –
+    // dopóki sudden death nie zacznie zamykać ramki; kto został za zamykającą się ramką, też w nią uderza)
+    const {shrinkPixels} = state.suddenDeath;
+    if (trailMask.wrap && shrinkPixels === 0) {
+        next = wrapPoint(trailMask.wrap, next.x, next.y);
+    } else if (hitsBorder(config, state.arena, next.x, next.y, radius, shrinkPixels)) {
+        const cause: DeathCause = {kind: "border"};
+        if (!hasEffect(player, "wallPass") && state.mode.isDeadlyCrash(state, playerIndex, cause)) return {cause, positionPixels: next};
+        next = wrapIntoSafeArea(config, state.arena, next.x, next.y, radius, shrinkPixels);
+        path = sweepPath(next, next); // przeskok na drugą stronę – bez odcinka przez planszę
+    }
+
+    // kolizja ze śladem na całym odcinku (maska sama pomija świeży ogon, korytarze dziur i ślad kolegów z drużyny;
+    // tryb gry może uznać zderzenie za niegroźne – wtedy sprawdzamy dalej)
+    const freshTail = freshTailOf(state, playerIndex);
+    const teammates = passableOwners(config, state.players, playerIndex);
+    for (const center of path) {
+        const hit = findTrailHit(trailMask, center, radius, freshTail, teammates);
+        if (hit && state.mode.isDeadlyCrash(state, playerIndex, hit)) return {cause: hit, positionPixels: center};
+    }
+
+    player.positionPixels = next;
+    for (const center of path) {
+        if (!player.gap.isActive) {
+            markVisitedCircle(trailMask, center.x, center.y, radius, playerIndex, state.tick);
+        } else {
+            // krawędź za dziurą gracz rysuje jeszcze przez swój świeży ogon – do tego czasu korytarz ją przepuszcza
+            const untilTick = state.tick + freshTailTicks(config, player);
+            markGapCorridor(trailMask, center.x, center.y, radius + config.GAPS.corridorExtraMarginPixels, untilTick);
+        }
+    }
+    player.scoreSeconds += deltaTimeSeconds;
+    return null;
+}
+
+function killPlayer(state: SimulationState, playerIndex: number, crash: Crash, events: SimulationEvent[]): void {
+    const player = state.players[playerIndex];
+    player.isAlive = false;
+    player.crashedAtTick = state.tick;
+    player.deathCause = crash.cause;
+    player.crashPositionPixels = crash.positionPixels;
+    events.push({type: "playerCrashed", playerIndex});
+}
+
+/** Zatrzymuje rundę, gdy tryb gry uzna ją za rozstrzygniętą (klasycznie: została najwyżej jedna strona). */
+function endRoundIfDecided(state: SimulationState, events: SimulationEvent[]): void {
+    if (state.hasRoundEnded || !state.mode.isRoundDecided(state)) return;
+    state.isMoving = false;
+    state.hasRoundEnded = true;
+    events.push({type: "roundEnded"});
+}
+
+/**
+ * Eliminuje gracza z zewnątrz (np. rozłączył się w grze sieciowej) – liczy się jak śmierć w bieżącym kroku.
+ */
+export function eliminatePlayer(state: SimulationState, playerIndex: number): SimulationEvent[] {
+    const player = state.players[playerIndex];
+    const events: SimulationEvent[] = [];
+    if (!player || !player.isAlive || state.hasRoundEnded) return events;
+    killPlayer(state, playerIndex, {cause: {kind: "disconnected"}, positionPixels: null}, events);
+    endRoundIfDecided(state, events);
+    return events;
+}
+
+/**
+ * Jeden krok symulacji. `inputs[i]` odpowiada `state.players[i]`.
+ * Zwraca zdarzenia, które zaszły w tym kroku (dla HUD-u i innych adapterów).
+ */
+export function stepSimulation(
+    state: SimulationState,
+    inputs: PlayerInput[],
+    deltaTimeSeconds: number
+): SimulationEvent[] {
+    const {config} = state;
+    const events: SimulationEvent[] = [];
+
+    // Obrót (działa zawsze; `reverseControls` zamienia strony)
+    state.players.forEach((player, index) => {
+        const input = inputs[index];
+        if (!input) return;
+        const direction = hasEffect(player, "reverseControls") ? -1 : 1;
+        const turnStep = player.turnSpeedRadiansPerSecond * deltaTimeSeconds * direction;
+        if (input.turnLeft) player.angleRadians -= turnStep;
+        if (input.turnRight) player.angleRadians += turnStep;
+    });
+
+    if (!isRunning(state)) return events;
+    state.tick++;
+
+    // Zegary gapów (per żyjący gracz)
+    state.players.forEach((player, index) => {
+        if (!player.isAlive) return;
+        const wasInGap = player.gap.isActive;
+        updateGap(config, state.random, player.gap, deltaTimeSeconds);
+        if (!wasInGap && player.gap.isActive) events.push({type: "gapStarted", playerIndex: index});
+    });
+
+    // Sudden death: ramka wchodzi do środka, power-upy za nią znikają
+    if (updateSuddenDeath(config, state.arena, state.suddenDeath, deltaTimeSeconds)) events.push({type: "suddenDeathWarning"});
+    dropClosedOffPickups(state);
+
+    // Power-upy: wygasanie efektów i spawn nowych
+    for (const player of state.players) {
+        if (player.isAlive) updateEffects(config, player, deltaTimeSeconds);
+    }
+    const spawned = updatePowerUpSpawns(state, deltaTimeSeconds);
+    if (spawned) events.push({type: "powerUpSpawned", pickup: spawned});
+
+    state.mode.updateTick(state, deltaTimeSeconds, events);
+
+    state.players.forEach((player, index) => {
+        if (!player.isAlive) return;
+        const crash = stepPlayer(state, index, deltaTimeSeconds);
+        if (crash) {
+            killPlayer(state, index, crash, events);
+            return;
+        }
+
+        const pickup = findTouchedPickup(state, player);
+        if (pickup) {
+            collectPickup(state, player, pickup);
+            events.push({type: "powerUpCollected", playerIndex: index, pickup});
+            if (pickup.effect === "clearBoard") events.push({type: "boardCleared"});
+        }
+    });
+
+    endRoundIfDecided(state, events);
+    return events;
+}
+
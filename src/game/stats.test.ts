@@ -0,0 +1,66 @@
+import {GameHistory, MatchRecord, RoundPlayerRecord} from "./history";
+import {computeHeadToHead, computeProfileStats} from "./stats";
+
+const ADA = {id: "ada", name: "Ada", colorHex: "#112233"};
+const BOB = {id: "bob", name: "Bob", colorHex: "#445566"};
+const CID = {id: "cid", name: "Cid", colorHex: "#778899"};
+
+function matchRecord(id: string, finishedAt: string, placements: Record<string, number>): MatchRecord {
+    return {
+        id,
+        startedAt: finishedAt,
+        finishedAt,
+        roundCount: 1,
+        players: Object.entries(placements).map(([profileId, placement]) => ({profileId, name: profileId, colorHex: "#000000", points: 0, placement})),
+    };
+}
+
+function roundPlayer(profileId: string, survivalSeconds: number, placement: number, deathCause: RoundPlayerRecord["deathCause"]): RoundPlayerRecord {
+    return {profileId, name: profileId, colorHex: "#000000", survivalSeconds, placement, points: 0, deathCause, killedByName: null};
+}
+
+const HISTORY: GameHistory = {
+    matches: [
+        matchRecord("m1", "2024-01-01", {ada: 1, bob: 2}),
+        matchRecord("m2", "2024-01-03", {ada: 2, bob: 1, cid: 3}),
+        matchRecord("m3", "2024-01-02", {ada: 1, cid: 2}),
+    ],
+    rounds: [
+        {id: "m1/1", matchId: "m1", roundNumber: 1, finishedAt: "2024-01-01", players: [
+            roundPlayer("ada", 12, 1, null),
+            roundPlayer("bob", 8, 2, "border"),
+        ]},
+        {id: "m2/1", matchId: "m2", roundNumber: 1, finishedAt: "2024-01-03", players: [
+            roundPlayer("ada", 4, 2, "trail"),
+            roundPlayer("bob", 20, 1, null),
+        ]},
+    ],
+};
+
+test("profile stats count wins, rounds, survival and causes of death", () => {
+    const stats = computeProfileStats(ADA, HISTORY);
+    expect(stats.matchesPlayed).toBe(3);
+    expect(stats.matchesWon).toBe(2);
+    expect(stats.winRate).toBeCloseTo(2 / 3);
+    expect(stats.roundsWon).toBe(1);
+    expect(stats.roundsPlayed).toBe(2);
+    expect(stats.longestSurvivalSeconds).toBe(12);
+    expect(stats.averageSurvivalSeconds).toBe(8);
+    expect(stats.recentForm).toEqual(["L", "W", "W"]);
+    expect(stats.deathCauses).toEqual({trail: 1});
+});
+
+test("a profile without games has no win rate", () => {
+    const stats = computeProfileStats({id: "new", name: "New", colorHex: "#000000"}, HISTORY);
+    expect(stats.winRate).toBeNull();
+    expect(stats.longestSurvivalSeconds).toBe(0);
+    expect(stats.recentForm).toEqual([]);
+});
+
+test("head to head compares placements in shared matches", () => {
+    const records = computeHeadToHead([ADA, BOB, CID], HISTORY);
+    expect(records).toContainEqual({profileId: "ada", opponentId: "bob", wins: 1, losses: 1});
+    expect(records).toContainEqual({profileId: "ada", opponentId: "cid", wins: 2, losses: 0});
+    expect(records).toContainEqual({profileId: "cid", opponentId: "bob", wins: 0, losses: 1});
+    expect(records).toHaveLength(6);
+});
@@ -0,0 +1,85 @@
+import {DeathCauseKind, GameHistory} from "./history";
+import {PlayerProfile} from "./profiles";
+
+/* =========================================
+ * Statystyki profili liczone z historii gier
+ * ========================================= */
+export type MatchOutcome = "W" | "L";
+
+export type ProfileStats = {
+    profileId: string;
+    matchesPlayed: number;
+    matchesWon: number;
+    winRate: number | null; // null – jeszcze bez rozegranego meczu
+    roundsPlayed: number;
+    roundsWon: number;
+    longestSurvivalSeconds: number;
+    averageSurvivalSeconds: number;
+    recentForm: MatchOutcome[]; // ostatnie mecze, najnowszy pierwszy
+    deathCauses: Partial<Record<DeathCauseKind, number>>;
+};
+
+/** Bilans dwóch profili w meczach, które grali razem (lepsze miejsce = wygrana). */
+export type HeadToHead = {
+    profileId: string;
+    opponentId: string;
+    wins: number;
+    losses: number;
+};
+
+export const RECENT_FORM_MATCH_COUNT = 5;
+
+function byFinishedAtDescending(a: { finishedAt: string }, b: { finishedAt: string }): number {
+    return b.finishedAt.localeCompare(a.finishedAt);
+}
+
+export function computeProfileStats(profile: PlayerProfile, history: GameHistory): ProfileStats {
+    const matches = history.matches
+        .filter((match) => match.players.some((player) => player.profileId === profile.id))
+        .sort(byFinishedAtDescending);
+    const outcomes = matches.map((match): MatchOutcome => {
+        const own = match.players.find((player) => player.profileId === profile.id);
+        return own?.placement === 1 ? "W" : "L";
+    });
+    const matchesWon = outcomes.filter((outcome) => outcome === "W").length;
+
+    const rounds = history.rounds.flatMap((round) => round.players.filter((player) => player.profileId === profile.id));
+    const survivals = rounds.map((round) => round.survivalSeconds);
+    const deathCauses: Partial<Record<DeathCauseKind, number>> = {};
+    for (const round of rounds) {
+        if (round.deathCause) deathCauses[round.deathCause] = (deathCauses[round.deathCause] ?? 0) + 1;
+    }
+
+    return {
+        profileId: profile.id,
+        matchesPlayed: matches.length,
+        matchesWon,
+        winRate: matches.length > 0 ? matchesWon / matches.length : null,
+        roundsPlayed: rounds.length,
+        roundsWon: rounds.filter((round) => round.placement === 1).length,
+        longestSurvivalSeconds: survivals.length > 0 ? Math.max(...survivals) : 0,
+        averageSurvivalSeconds: survivals.length > 0 ? survivals.reduce((total, seconds) => total + seconds, 0) / survivals.length : 0,
+        recentForm: outcomes.slice(0, RECENT_FORM_MATCH_COUNT),
+        deathCauses,
+    };
+}
+
+/** Bilanse wszystkich par profili, które spotkały się w co najmniej jednym meczu. */
+export function computeHeadToHead(profiles: readonly PlayerProfile[], history: GameHistory): HeadToHead[] {
+    const records: HeadToHead[] = [];
+    for (const profile of profiles) {
+        for (const opponent of profiles) {
+            if (opponent.id === profile.id) continue;
+            const record: HeadToHead = {profileId: profile.id, opponentId: opponent.id, wins: 0, losses: 0};
+            for (const match of history.matches) {
+                const own = match.players.find((player) => player.profileId === profile.id);
+                const other = match.players.find((player) => player.profileId === opponent.id);
+                if (!own || !other || own.placement === other.placement) continue;
+                if (own.placement < other.placement) record.wins++;
+                else record.losses++;
+            }
+            if (record.wins + record.losses > 0) records.push(record);
+        }
+    }
+    return records;
+}
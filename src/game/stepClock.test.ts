@@ -0,0 +1,30 @@
+import {createStepClock, takeFixedSteps} from "./stepClock";
+
+const STEP = 1 / 120;
+
+function totalSteps(frameSeconds: number, frames: number): number {
+    const clock = createStepClock();
+    let steps = 0;
+    for (let i = 0; i < frames; i++) steps += takeFixedSteps(clock, frameSeconds, STEP, 12);
+    return steps;
+}
+
+test("one second of frames gives the same number of steps at any refresh rate", () => {
+    expect(totalSteps(1 / 30, 30)).toBe(120);
+    expect(totalSteps(1 / 60, 60)).toBe(120);
+    expect(Math.abs(totalSteps(1 / 144, 144) - 120)).toBeLessThanOrEqual(1);
+});
+
+test("leftover time carries over to the next frame", () => {
+    const clock = createStepClock();
+    expect(takeFixedSteps(clock, STEP * 0.6, STEP, 12)).toBe(0);
+    expect(takeFixedSteps(clock, STEP * 0.6, STEP, 12)).toBe(1);
+    expect(clock.accumulatedSeconds).toBeCloseTo(STEP * 0.2);
+});
+
+test("a long hitch is capped instead of caught up", () => {
+    const clock = createStepClock();
+    expect(takeFixedSteps(clock, 5, STEP, 12)).toBe(12);
+    expect(clock.accumulatedSeconds).toBe(0);
+    expect(takeFixedSteps(clock, -1, STEP, 12)).toBe(0);
+});
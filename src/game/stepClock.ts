@@ -0,0 +1,29 @@
+/* =========================================
+ * Stały krok fizyki
+ * =========================================
+ * Klatki ekranu mają różną długość (30, 60, 144 Hz, przycięcia), a symulacja zawsze
+ * idzie krokami `PHYSICS.fixedStepSeconds` – więc runda przebiega tak samo na każdym ekranie.
+ */
+export type StepClock = {
+    accumulatedSeconds: number; // czas klatek, za który nie wykonano jeszcze kroku
+};
+
+export function createStepClock(): StepClock {
+    return {accumulatedSeconds: 0};
+}
+
+/**
+ * Dolicza czas klatki i zwraca, ile stałych kroków trzeba teraz wykonać (reszta czeka na kolejną klatkę).
+ * Zaległości ponad `maxSteps` są odrzucane – po przełączeniu karty gra nie nadrabia sekund naraz.
+ */
+export function takeFixedSteps(clock: StepClock, frameSeconds: number, stepSeconds: number, maxSteps: number): number {
+    clock.accumulatedSeconds += Math.max(0, frameSeconds);
+    // drobny zapas na błędy zaokrągleń (60 klatek po 1/60 s to dokładnie 60 kroków)
+    const steps = Math.floor(clock.accumulatedSeconds / stepSeconds + 1e-6);
+    if (steps > maxSteps) {
+        clock.accumulatedSeconds = 0;
+        return maxSteps;
+    }
+    clock.accumulatedSeconds = Math.max(0, clock.accumulatedSeconds - steps * stepSeconds);
+    return steps;
+}
@@ -0,0 +1,74 @@
+import {CONFIG, GameConfig} from "./config";
+import {closingShrinkPixels, createSuddenDeathState, maxShrinkPixels, SuddenDeathState, updateSuddenDeath} from "./suddenDeath";
+
+const ARENA = {widthPixels: 400, heightPixels: 300};
+
+function suddenDeathConfig(overrides: Partial<GameConfig["SUDDEN_DEATH"]>): GameConfig {
+    return {
+        ...CONFIG,
+        SUDDEN_DEATH: {
+            ...CONFIG.SUDDEN_DEATH,
+            enabled: true,
+            startSeconds: 10,
+            stepPixels: 20,
+            stepIntervalSeconds: 5,
+            warningSeconds: 2,
+            minArenaPixels: 100,
+            ...overrides,
+        },
+    };
+}
+
+/** Przesuwa zegar o `seconds` i zbiera, ile razy pojawiło się ostrzeżenie. */
+function advance(config: GameConfig, state: SuddenDeathState, seconds: number): number {
+    let warnings = 0;
+    for (let time = 0; time < seconds - 1e-9; time += 0.5) {
+        if (updateSuddenDeath(config, ARENA, state, 0.5)) warnings++;
+    }
+    return warnings;
+}
+
+test("in steps mode the border jumps in after a warning", () => {
+    const config = suddenDeathConfig({mode: "steps"});
+    const state = createSuddenDeathState();
+
+    expect(advance(config, state, 7.5)).toBe(0);
+    expect(state.shrinkPixels).toBe(0);
+    expect(advance(config, state, 1)).toBe(1);
+    expect(state.warningShrinkPixels).toBe(20);
+    expect(closingShrinkPixels(state)).toBe(20);
+
+    advance(config, state, 1.5);
+    expect(state.shrinkPixels).toBe(20);
+    expect(state.warningShrinkPixels).toBeNull();
+
+    expect(advance(config, state, 5)).toBe(1);
+    expect(state.shrinkPixels).toBe(40);
+});
+
+test("in steady mode the border moves every step and warns only before it starts", () => {
+    const config = suddenDeathConfig({mode: "steady", shrinkPixelsPerSecond: 4});
+    const state = createSuddenDeathState();
+
+    expect(advance(config, state, 9)).toBe(1);
+    expect(advance(config, state, 4)).toBe(0);
+    expect(state.shrinkPixels).toBeCloseTo(12);
+    expect(state.warningShrinkPixels).toBeNull();
+});
+
+test("the border stops before the arena gets smaller than the minimum", () => {
+    const config = suddenDeathConfig({mode: "steady", shrinkPixelsPerSecond: 100});
+    const state = createSuddenDeathState();
+    advance(config, state, 60);
+
+    const limit = maxShrinkPixels(config, ARENA);
+    expect(state.shrinkPixels).toBe(limit);
+    // krótszy bok pola wewnątrz ramki: 300 − 2 × (4 + 4) − 2 × limit
+    expect(300 - 16 - 2 * limit).toBeCloseTo(100);
+});
+
+test("nothing happens when sudden death is off", () => {
+    const state = createSuddenDeathState();
+    expect(advance(CONFIG, state, 200)).toBe(0);
+    expect(state.shrinkPixels).toBe(0);
+});
@@ -0,0 +1,61 @@
+import {getSafeArea} from "./border";
+import {GameConfig} from "./config";
+import {ArenaSize} from "./types";
+
+/* =========================================
+ * Sudden death: zamykająca się ramka
+ * =========================================
+ * Po `SUDDEN_DEATH.startSeconds` ruchu ramka wchodzi do środka – płynnie albo skokami.
+ * Przesunięcie zależy tylko od czasu rundy, więc powtórki i goście widzą to samo co host.
+ * Kto zostanie za ramką, ginie jak przy zderzeniu z nią; w trybie `wrap` ramka od tej chwili zabija.
+ */
+export type SuddenDeathState = {
+    elapsedSeconds: number;             // czas ruchu od startu rundy
+    shrinkPixels: number;               // o tyle ramka weszła już do środka (z każdej strony)
+    warningShrinkPixels: number | null; // zapowiedziane położenie ramki – ostrzeżenie przed startem albo skokiem
+};
+
+/** Widok do rysowania (także u gościa i w powtórce). */
+export type SuddenDeathView = Pick<SuddenDeathState, "shrinkPixels" | "warningShrinkPixels">;
+
+export function createSuddenDeathState(): SuddenDeathState {
+    return {elapsedSeconds: 0, shrinkPixels: 0, warningShrinkPixels: null};
+}
+
+/** Najdalej, jak ramka może wejść – zostaje pole o krótszym boku co najmniej `minArenaPixels`. */
+export function maxShrinkPixels(config: GameConfig, arena: ArenaSize): number {
+    const {minX, maxX, minY, maxY} = getSafeArea(config, arena, 0);
+    return Math.max(0, (Math.min(maxX - minX, maxY - minY) - config.SUDDEN_DEATH.minArenaPixels) / 2);
+}
+
+/** Przesunięcie ramki po `seconds` ruchu (bez ograniczenia `maxShrinkPixels`). */
+function shrinkAt(config: GameConfig, seconds: number): number {
+    const {startSeconds, mode, shrinkPixelsPerSecond, stepPixels, stepIntervalSeconds} = config.SUDDEN_DEATH;
+    const sinceStart = seconds - startSeconds;
+    if (sinceStart < 0) return 0;
+    if (mode === "steady") return sinceStart * shrinkPixelsPerSecond;
+    return (Math.floor(sinceStart / stepIntervalSeconds) + 1) * stepPixels;
+}
+
+/**
+ * Dolicza krok rundy i przesuwa ramkę. Zwraca `true`, gdy właśnie pojawiło się ostrzeżenie
+ * (przed startem zamykania, a w trybie `steps` – przed każdym skokiem).
+ */
+export function updateSuddenDeath(config: GameConfig, arena: ArenaSize, state: SuddenDeathState, deltaTimeSeconds: number): boolean {
+    if (!config.SUDDEN_DEATH.enabled) return false;
+    state.elapsedSeconds += deltaTimeSeconds;
+    const limit = maxShrinkPixels(config, arena);
+    state.shrinkPixels = Math.min(limit, shrinkAt(config, state.elapsedSeconds));
+
+    // płynne zamykanie zapowiadamy tylko przed startem – potem ramka i tak cały czas idzie
+    const upcoming = Math.min(limit, shrinkAt(config, state.elapsedSeconds + config.SUDDEN_DEATH.warningSeconds));
+    const isWarning = upcoming > state.shrinkPixels && (config.SUDDEN_DEATH.mode === "steps" || state.shrinkPixels === 0);
+    const wasWarning = state.warningShrinkPixels !== null;
+    state.warningShrinkPixels = isWarning ? upcoming : null;
+    return isWarning && !wasWarning;
+}
+
+/** Ramka, za którą nic nowego nie powinno się pojawić – bieżąca albo zapowiedziana, jeśli dalej. */
+export function closingShrinkPixels(state: SuddenDeathView): number {
+    return Math.max(state.shrinkPixels, state.warningShrinkPixels ?? 0);
+}
@@ -0,0 +1,38 @@
+import {CONFIG, GameConfig} from "./config";
+import {isOneSideLeft, passableOwners, teamColorHex, teamIndexOf} from "./teams";
+
+const TWO_TEAMS: GameConfig = {...CONFIG, TEAMS: {...CONFIG.TEAMS, count: 2}};
+
+test("players alternate between teams and get shades of the team color", () => {
+    expect([0, 1, 2, 3].map((index) => teamIndexOf(TWO_TEAMS, index))).toEqual([0, 1, 0, 1]);
+    expect(teamIndexOf(CONFIG, 2)).toBeNull();
+
+    const [blue, orange] = CONFIG.TEAMS.palettes;
+    expect([0, 1, 2, 3].map((index) => teamColorHex(TWO_TEAMS, index))).toEqual([
+        blue.colorHexes[0], orange.colorHexes[0], blue.colorHexes[1], orange.colorHexes[1],
+    ]);
+    expect(teamColorHex(CONFIG, 0)).toBeNull();
+});
+
+test("the round is decided when only one team is alive", () => {
+    const players = [
+        {isAlive: true, teamIndex: 0},
+        {isAlive: false, teamIndex: 1},
+        {isAlive: true, teamIndex: 0},
+        {isAlive: true, teamIndex: 1},
+    ];
+    expect(isOneSideLeft(players)).toBe(false);
+
+    players[3].isAlive = false;
+    expect(isOneSideLeft(players)).toBe(true);
+    expect(isOneSideLeft([{isAlive: true, teamIndex: null}, {isAlive: true, teamIndex: null}])).toBe(false);
+});
+
+test("teammates' trails are passable only with the trails option", () => {
+    const players = [0, 1, 2, 3].map((index) => ({teamIndex: teamIndexOf(TWO_TEAMS, index)}));
+    expect(passableOwners(TWO_TEAMS, players, 0)).toEqual([]);
+
+    const trailsConfig: GameConfig = {...TWO_TEAMS, TEAMS: {...TWO_TEAMS.TEAMS, passThrough: "trails"}};
+    expect(passableOwners(trailsConfig, players, 0)).toEqual([2]);
+    expect(passableOwners(trailsConfig, players, 3)).toEqual([1]);
+});
@@ -0,0 +1,54 @@
+import {GameConfig} from "./config";
+import {PlayerState} from "./types";
+
+/* =========================================
+ * Drużyny: przydział graczy, kolory i „strony” do punktacji
+ * =========================================
+ * Strona to drużyna albo – bez drużyn – pojedynczy gracz. Runda kończy się, gdy żyje
+ * najwyżej jedna strona, a punkty dostaje cała strona naraz.
+ */
+
+/** Drużyny grają, gdy jest ich co najmniej dwie. */
+export function isTeamMode(config: GameConfig): boolean {
+    return config.TEAMS.count >= 2;
+}
+
+/** Drużyna gracza na miejscu `playerIndex` (na przemian: 1. i 3. gracz razem itd.) albo `null` bez drużyn. */
+export function teamIndexOf(config: GameConfig, playerIndex: number): number | null {
+    return isTeamMode(config) ? playerIndex % config.TEAMS.count : null;
+}
+
+/** Kolor gracza w drużynie – kolejni członkowie dostają kolejne odcienie koloru drużyny. */
+export function teamColorHex(config: GameConfig, playerIndex: number): string | null {
+    const teamIndex = teamIndexOf(config, playerIndex);
+    if (teamIndex === null) return null;
+    const {colorHexes} = config.TEAMS.palettes[teamIndex % config.TEAMS.palettes.length];
+    return colorHexes[Math.floor(playerIndex / config.TEAMS.count) % colorHexes.length];
+}
+
+export function teamName(config: GameConfig, teamIndex: number): string {
+    return `Team ${config.TEAMS.palettes[teamIndex % config.TEAMS.palettes.length].name}`;
+}
+
+/** Klucz strony: gracze z tą samą drużyną mają ten sam klucz, bez drużyny – każdy własny. */
+export function sideKey(teamIndex: number | null, playerIndex: number): string {
+    return teamIndex === null ? `player ${playerIndex}` : `team ${teamIndex}`;
+}
+
+/** Czy runda jest rozstrzygnięta: żyje najwyżej jedna strona. */
+export function isOneSideLeft(players: readonly Pick<PlayerState, "isAlive" | "teamIndex">[]): boolean {
+    const aliveSides = new Set<string>();
+    players.forEach((player, index) => {
+        if (player.isAlive) aliveSides.add(sideKey(player.teamIndex, index));
+    });
+    return aliveSides.size <= 1;
+}
+
+/** Gracze, których ślad nie zabija `playerIndex` – koledzy z drużyny przy `passThrough: "trails"`. */
+export function passableOwners(config: GameConfig, players: readonly Pick<PlayerState, "teamIndex">[], playerIndex: number): number[] {
+    const teamIndex = players[playerIndex].teamIndex;
+    if (teamIndex === null || config.TEAMS.passThrough !== "trails") return [];
+    return players
+        .map((player, index) => (index !== playerIndex && player.teamIndex === teamIndex ? index : -1))
+        .filter((index) => index >= 0);
+}
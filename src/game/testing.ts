@@ -0,0 +1,36 @@
+import {CONFIG, GameConfig} from "./config";
+import {createSimulation, SimulationEvent, SimulationState, stepSimulation, toggleMovement} from "./simulation";
+import {createTrailMask} from "./trailMask";
+import {ArenaSize, PlayerInput} from "./types";
+
+/* =========================================
+ * Wspólne przygotowanie rund do testów symulacji
+ * =========================================
+ */
+
+export const FIXED_STEP_SECONDS = CONFIG.PHYSICS.fixedStepSeconds;
+export const TEST_ARENA: ArenaSize = {widthPixels: 200, heightPixels: 120};
+export const NO_INPUT: PlayerInput[] = CONFIG.PLAYERS.roster.map(() => ({turnLeft: false, turnRight: false}));
+
+/** Ustawienie gracza na starcie: (x, y, kąt). */
+export type Placement = [number, number, number];
+
+/** Czysta plansza (bez przeszkód i losowych startów) z graczami ustawionymi ręcznie, runda już ruszyła. */
+export function setupRound(config: GameConfig, placements: Placement[], arena: ArenaSize = TEST_ARENA, seed = 1): SimulationState {
+    const state = createSimulation(config, arena, seed, config.PLAYERS.roster.slice(0, placements.length));
+    state.trailMask = createTrailMask(arena.widthPixels, arena.heightPixels);
+    state.players.forEach((player, index) => {
+        const [x, y, angleRadians] = placements[index];
+        player.positionPixels = {x, y};
+        player.angleRadians = angleRadians;
+    });
+    toggleMovement(state);
+    return state;
+}
+
+/** `count` kroków symulacji ze stałym wejściem; zwraca wszystkie zdarzenia po kolei. */
+export function runSteps(state: SimulationState, count: number, inputs: PlayerInput[] = NO_INPUT): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    for (let i = 0; i < count; i++) events.push(...stepSimulation(state, inputs, FIXED_STEP_SECONDS));
+    return events;
+}
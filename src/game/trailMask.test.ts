@@ -0,0 +1,108 @@
+import {
+    clearTrails,
+    collidesWithTrail,
+    createTrailMask,
+    eraseTrailsDrawnBefore,
+    findTrailHit,
+    isObstacleAt,
+    markGapCorridor,
+    markObstacles,
+    markVisitedCircle,
+    trailOwnerAt,
+} from "./trailMask";
+
+const WRAP = {minX: 10, minY: 10, widthPixels: 100, heightPixels: 60};
+
+test("a circle on the seam marks pixels on both sides of the wrapped field", () => {
+    const mask = createTrailMask(120, 80, WRAP);
+    markVisitedCircle(mask, 109, 40, 3, 0, 0);
+
+    expect(trailOwnerAt(mask, 109, 40)).toBe(0);
+    expect(mask.owner[40 * 120 + 11]).toBe(1); // 111 po zawinięciu
+    expect(mask.owner[40 * 120 + 111]).toBe(0); // poza polem nic nie zaznaczamy
+});
+
+test("collisions are detected across the seam", () => {
+    const mask = createTrailMask(120, 80, WRAP);
+    markVisitedCircle(mask, 11, 40, 2, 0, 0);
+
+    expect(collidesWithTrail(mask, {x: 109, y: 40}, 2, null)).toBe(true);
+    expect(collidesWithTrail(mask, {x: 100, y: 40}, 2, null)).toBe(false);
+});
+
+test("own fresh tail is skipped, even across the seam", () => {
+    const mask = createTrailMask(120, 80, WRAP);
+    markVisitedCircle(mask, 11, 40, 2, 0, 5);
+
+    expect(collidesWithTrail(mask, {x: 109, y: 40}, 2, {playerIndex: 0, sinceTick: 5})).toBe(false);
+    expect(collidesWithTrail(mask, {x: 109, y: 40}, 2, {playerIndex: 0, sinceTick: 6})).toBe(true);
+    expect(collidesWithTrail(mask, {x: 109, y: 40}, 2, {playerIndex: 1, sinceTick: 0})).toBe(true);
+});
+
+test("pixels keep their first owner", () => {
+    const mask = createTrailMask(40, 40);
+    markVisitedCircle(mask, 20, 20, 2, 1, 3);
+    markVisitedCircle(mask, 21, 20, 2, 0, 4);
+
+    expect(trailOwnerAt(mask, 20, 20)).toBe(1);
+    expect(mask.drawnAtTick[20 * 40 + 20]).toBe(3);
+    expect(trailOwnerAt(mask, 23, 20)).toBe(0);
+});
+
+test("trail inside a gap corridor does not collide", () => {
+    const mask = createTrailMask(40, 40);
+    markVisitedCircle(mask, 20, 20, 2, 1, 0);
+    markGapCorridor(mask, 20, 20, 3, 5);
+
+    expect(collidesWithTrail(mask, {x: 20, y: 20}, 2, null)).toBe(false);
+});
+
+test("trail drawn in a gap corridor after it expires collides again", () => {
+    const mask = createTrailMask(40, 40);
+    markGapCorridor(mask, 20, 20, 3, 5);
+    markVisitedCircle(mask, 20, 20, 2, 1, 6);
+
+    expect(findTrailHit(mask, {x: 20, y: 20}, 2, null)).toEqual({kind: "trail", ownerIndex: 1});
+});
+
+test("without wrapping the mask is clipped at its edges", () => {
+    const mask = createTrailMask(120, 80);
+    markVisitedCircle(mask, 119, 40, 3, 0, 0);
+
+    expect(trailOwnerAt(mask, 119, 40)).toBe(0);
+    expect(trailOwnerAt(mask, 1, 40)).toBeNull();
+});
+
+test("obstacles block even inside a gap corridor, belong to nobody and survive clearing trails", () => {
+    const mask = createTrailMask(40, 40);
+    const obstacles = new Uint8Array(40 * 40);
+    obstacles[20 * 40 + 20] = 1;
+    markObstacles(mask, obstacles);
+    markVisitedCircle(mask, 20, 20, 2, 0, 0);
+    markGapCorridor(mask, 20, 20, 3, 5);
+
+    expect(collidesWithTrail(mask, {x: 20, y: 20}, 2, {playerIndex: 0, sinceTick: 0})).toBe(true);
+    expect(trailOwnerAt(mask, 20, 20)).toBeNull();
+
+    clearTrails(mask);
+    expect(isObstacleAt(mask, 20, 20)).toBe(true);
+    expect(trailOwnerAt(mask, 21, 20)).toBeNull();
+    expect(collidesWithTrail(mask, {x: 25, y: 20}, 2, null)).toBe(false);
+});
+
+test("erasing old trails frees only older player pixels and reports them as row runs", () => {
+    const mask = createTrailMask(10, 4);
+    const obstacles = new Uint8Array(10 * 4);
+    obstacles[3] = 1;
+    markObstacles(mask, obstacles);
+    for (let x = 0; x < 10; x++) markVisitedCircle(mask, x, 1, 0, 0, 5);
+    markVisitedCircle(mask, 0, 2, 0, 1, 5);
+    markVisitedCircle(mask, 4, 2, 0, 1, 20);
+
+    // wiersz 1 i pierwszy piksel wiersza 2 leżą obok siebie w tablicy, ale to osobne odcinki
+    expect(eraseTrailsDrawnBefore(mask, 10)).toEqual([10, 10, 20, 1]);
+    expect(trailOwnerAt(mask, 5, 1)).toBeNull();
+    expect(trailOwnerAt(mask, 4, 2)).toBe(1);
+    expect(isObstacleAt(mask, 3, 0)).toBe(true);
+    expect(eraseTrailsDrawnBefore(mask, 10)).toEqual([]);
+});
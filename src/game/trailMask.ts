@@ -0,0 +1,248 @@
+import {wrapPoint} from "./border";
+import {DeathCause, TrailMask, Vector2D, WrapBounds} from "./types";
+
+/* ==================================
+ * Maska śladu i kolizje
+ * ==================================
+ * Każdy piksel pamięta, kto go narysował i w którym kroku, więc „świeży ogon” gracza
+ * to proste porównanie przy pikselu, bez list punktów do przeszukiwania.
+ * Przy `wrap` okrąg przy krawędzi pola zajmuje też piksele po drugiej stronie szwu.
+ */
+export function createTrailMask(widthPixels: number, heightPixels: number, wrap: WrapBounds | null = null): TrailMask {
+    const pixelCount = widthPixels * heightPixels;
+    return {
+        widthPixels,
+        heightPixels,
+        owner: new Uint8Array(pixelCount),
+        drawnAtTick: new Uint32Array(pixelCount),
+        corridorUntilTick: new Uint32Array(pixelCount),
+        wrap,
+    };
+}
+
+/** Znacznik pikseli przeszkód mapy w `owner` (gracze mają 1…6). Przeszkód nie otwiera żaden korytarz dziury. */
+export const OBSTACLE_TAG = 255;
+
+/** Wpisuje przeszkody mapy (`obstacles[i] === 1`, ten sam rozmiar co maska). */
+export function markObstacles(trailMask: TrailMask, obstacles: Uint8Array): void {
+    for (let index = 0; index < obstacles.length; index++) {
+        if (obstacles[index] === 1) trailMask.owner[index] = OBSTACLE_TAG;
+    }
+}
+
+/** Czyści ślady i korytarze dziur; przeszkody mapy zostają. */
+export function clearTrails(trailMask: TrailMask): void {
+    for (let index = 0; index < trailMask.owner.length; index++) {
+        if (trailMask.owner[index] !== OBSTACLE_TAG) trailMask.owner[index] = 0;
+    }
+    trailMask.drawnAtTick.fill(0);
+    trailMask.corridorUntilTick.fill(0);
+}
+
+/**
+ * Usuwa ślady narysowane przed krokiem `beforeTick` (przeszkody i korytarze zostają).
+ * Zwraca zwolnione piksele jako płaską listę odcinków w wierszach: `[indeks startu, długość, …]`.
+ */
+export function eraseTrailsDrawnBefore(trailMask: TrailMask, beforeTick: number): number[] {
+    const {owner, drawnAtTick, widthPixels} = trailMask;
+    const runs: number[] = [];
+    let runStart = -1;
+    for (let index = 0; index <= owner.length; index++) {
+        const isErased = index < owner.length && owner[index] !== 0 && owner[index] !== OBSTACLE_TAG && drawnAtTick[index] < beforeTick;
+        // odcinek kończy się na pierwszym pikselu, którego nie zwalniamy, i na końcu wiersza
+        if (runStart >= 0 && (!isErased || index % widthPixels === 0)) {
+            runs.push(runStart, index - runStart);
+            runStart = -1;
+        }
+        if (!isErased) continue;
+        owner[index] = 0;
+        drawnAtTick[index] = 0;
+        if (runStart < 0) runStart = index;
+    }
+    return runs;
+}
+
+/** Świeży ogon gracza – jego piksele narysowane od kroku `sinceTick` nie zabijają. */
+export type FreshTail = {
+    playerIndex: number;
+    sinceTick: number;
+};
+
+/** Odstęp kolejnych okręgów na przejechanym odcinku – mniejszy od każdej grubości linii. */
+const SWEEP_SPACING_PIXELS = 1;
+
+/**
+ * Środki okręgów (w całych pikselach) wzdłuż odcinka ruchu `from` → `to`, bez punktu startowego.
+ * Kolizję i ślad liczymy na całym odcinku, więc długi krok nie przeskoczy cienkiej linii ani nie zostawi dziury.
+ */
+export function sweepPath(from: Vector2D, to: Vector2D): Vector2D[] {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const count = Math.max(1, Math.ceil(distance / SWEEP_SPACING_PIXELS));
+    const centers: Vector2D[] = [];
+    for (let i = 1; i <= count; i++) {
+        const x = Math.round(from.x + ((to.x - from.x) * i) / count);
+        const y = Math.round(from.y + ((to.y - from.y) * i) / count);
+        const last = centers[centers.length - 1];
+        if (!last || last.x !== x || last.y !== y) centers.push({x, y});
+    }
+    return centers;
+}
+
+/** Indeks piksela w tablicach maski (po zawinięciu przez szew) albo −1, gdy wypada poza maskę. */
+function pixelIndex(trailMask: TrailMask, pixelX: number, pixelY: number): number {
+    let x = pixelX;
+    let y = pixelY;
+    if (trailMask.wrap) ({x, y} = wrapPoint(trailMask.wrap, pixelX, pixelY));
+    if (x < 0 || y < 0 || x >= trailMask.widthPixels || y >= trailMask.heightPixels) return -1;
+    return y * trailMask.widthPixels + x;
+}
+
+/**
+ * Wywołuje `visit` dla każdego piksela (x, y) okręgu, bez zawijania i przycinania.
+ * Tak samo rasteryzuje ślad maska i renderer – na ekranie widać dokładnie to, w co można uderzyć.
+ */
+export function forEachCirclePixel(
+    centerX: number,
+    centerY: number,
+    radiusPixels: number,
+    visit: (pixelX: number, pixelY: number) => void
+): void {
+    const minX = Math.floor(centerX - radiusPixels);
+    const maxX = Math.ceil(centerX + radiusPixels);
+    const minY = Math.floor(centerY - radiusPixels);
+    const maxY = Math.ceil(centerY + radiusPixels);
+    const radiusSquared = radiusPixels * radiusPixels;
+
+    for (let pixelY = minY; pixelY <= maxY; pixelY++) {
+        const deltaY = pixelY - centerY;
+        const deltaYSquared = deltaY * deltaY;
+
+        for (let pixelX = minX; pixelX <= maxX; pixelX++) {
+            const deltaX = pixelX - centerX;
+            if (deltaX * deltaX + deltaYSquared <= radiusSquared) visit(pixelX, pixelY);
+        }
+    }
+}
+
+/** Wywołuje `visit` dla indeksu każdego piksela maski w okręgu (przez szew przy `wrap`). */
+function forEachPixelInCircle(
+    trailMask: TrailMask,
+    centerX: number,
+    centerY: number,
+    radiusPixels: number,
+    visit: (index: number) => void
+): void {
+    forEachCirclePixel(centerX, centerY, radiusPixels, (pixelX, pixelY) => {
+        const index = pixelIndex(trailMask, pixelX, pixelY);
+        if (index >= 0) visit(index);
+    });
+}
+
+/**
+ * Zaznacza okrąg śladu gracza `playerIndex` w kroku `tick`. Cudzych pikseli nie przejmujemy –
+ * zostaje ten, kto narysował je pierwszy; własnym odświeżamy krok.
+ */
+export function markVisitedCircle(
+    trailMask: TrailMask,
+    centerX: number,
+    centerY: number,
+    radiusPixels: number,
+    playerIndex: number,
+    tick: number
+): void {
+    const ownerTag = playerIndex + 1;
+    forEachPixelInCircle(trailMask, centerX, centerY, radiusPixels, (index) => {
+        const owner = trailMask.owner[index];
+        if (owner !== 0 && owner !== ownerTag) return;
+        trailMask.owner[index] = ownerTag;
+        trailMask.drawnAtTick[index] = tick;
+    });
+}
+
+/**
+ * Zaznacza okrąg korytarza dziury – ślad w nim narysowany do kroku `untilTick` (krawędzie dziury) nie zabija nikogo.
+ * Późniejszy ślad w poprzek starej dziury już zabija, jak każdy inny.
+ */
+export function markGapCorridor(trailMask: TrailMask, centerX: number, centerY: number, radiusPixels: number, untilTick: number): void {
+    forEachPixelInCircle(trailMask, centerX, centerY, radiusPixels, (index) => {
+        trailMask.corridorUntilTick[index] = Math.max(trailMask.corridorUntilTick[index], untilTick);
+    });
+}
+
+/** Indeks gracza, który narysował piksel (x, y), albo `null` – piksel wolny, przeszkoda lub poza maską. */
+export function trailOwnerAt(trailMask: TrailMask, pixelX: number, pixelY: number): number | null {
+    const index = pixelIndex(trailMask, pixelX, pixelY);
+    if (index < 0) return null;
+    const owner = trailMask.owner[index];
+    return owner !== 0 && owner !== OBSTACLE_TAG ? owner - 1 : null;
+}
+
+export function isObstacleAt(trailMask: TrailMask, pixelX: number, pixelY: number): boolean {
+    const index = pixelIndex(trailMask, pixelX, pixelY);
+    return index >= 0 && trailMask.owner[index] === OBSTACLE_TAG;
+}
+
+/** W co uderzył okrąg: ślad (czyj) albo przeszkoda mapy. */
+export type TrailHit = Extract<DeathCause, { kind: "trail" | "obstacle" }>;
+
+/** Co zabija w pikselu `index` (z wyjątkami jak w `findTrailHit`) albo `null`. */
+function hitAtPixel(
+    trailMask: TrailMask,
+    index: number,
+    freshTail: FreshTail | null,
+    passableOwners: readonly number[]
+): TrailHit | null {
+    const owner = trailMask.owner[index];
+    if (owner === 0) return null;
+    if (owner === OBSTACLE_TAG) return {kind: "obstacle"};
+    const corridorUntilTick = trailMask.corridorUntilTick[index];
+    if (corridorUntilTick > 0 && trailMask.drawnAtTick[index] <= corridorUntilTick) return null;
+    if (freshTail && owner === freshTail.playerIndex + 1 && trailMask.drawnAtTick[index] >= freshTail.sinceTick) return null;
+    if (passableOwners.includes(owner - 1)) return null;
+    return {kind: "trail", ownerIndex: owner - 1};
+}
+
+/**
+ * Pierwszy piksel śladu lub przeszkody pod okręgiem (albo `null`). Pomija krawędzie dziur (ślad w ich korytarzach),
+ * świeży ogon `freshTail` (jeśli podany) i cały ślad graczy z `passableOwners` (koledzy z drużyny).
+ */
+export function findTrailHit(
+    trailMask: TrailMask,
+    center: Vector2D,
+    radiusPixels: number,
+    freshTail: FreshTail | null,
+    passableOwners: readonly number[] = []
+): TrailHit | null {
+    let hit: TrailHit | null = null;
+    forEachPixelInCircle(trailMask, center.x, center.y, radiusPixels, (index) => {
+        hit = hit ?? hitAtPixel(trailMask, index, freshTail, passableOwners);
+    });
+    return hit;
+}
+
+/** Wszystkie piksele maski pod okręgiem, które zabijają (te same wyjątki co `findTrailHit`) – do podglądu zderzeń. */
+export function trailHitPixels(
+    trailMask: TrailMask,
+    center: Vector2D,
+    radiusPixels: number,
+    freshTail: FreshTail | null,
+    passableOwners: readonly number[] = []
+): Vector2D[] {
+    const pixels: Vector2D[] = [];
+    forEachPixelInCircle(trailMask, center.x, center.y, radiusPixels, (index) => {
+        if (!hitAtPixel(trailMask, index, freshTail, passableOwners)) return;
+        pixels.push({x: index % trailMask.widthPixels, y: Math.floor(index / trailMask.widthPixels)});
+    });
+    return pixels;
+}
+
+/** Czy okrąg uderza w ślad albo przeszkodę (z tymi samymi wyjątkami co `findTrailHit`). */
+export function collidesWithTrail(
+    trailMask: TrailMask,
+    center: Vector2D,
+    radiusPixels: number,
+    freshTail: FreshTail | null,
+    passableOwners: readonly number[] = []
+): boolean {
+    return findTrailHit(trailMask, center, radiusPixels, freshTail, passableOwners) !== null;
+}
@@ -0,0 +1,138 @@
+/* =========================
+ * Typy wspólne symulacji
+ * ========================= */
+export type Vector2D = { x: number; y: number };
+
+export type ArenaSize = {
+    widthPixels: number;
+    heightPixels: number;
+};
+
+/** `walled` – ramka zabija; `wrap` – kto wyjedzie za krawędź, wraca z przeciwnej strony (torus). */
+export type ArenaMode = "walled" | "wrap";
+
+/**
+ * Co z trybem drużynowym przepuszcza kolegów z drużyny: `gaps` – tylko dziury (jak wszystkich graczy),
+ * `trails` – także cały ślad kolegi.
+ */
+export type TeamPassThrough = "gaps" | "trails";
+
+/** Sudden death: `steady` – ramka wchodzi płynnie, `steps` – skokami, każdy zapowiedziany ostrzeżeniem. */
+export type ShrinkMode = "steady" | "steps";
+
+/** Wariant zasad gry (`src/game/gameModes.ts`): `classic` – zwykłe Kurve. */
+export type GameModeId = "classic" | "decaying-tails" | "speed-ramp";
+
+/** Paleta kolorów graczy: `default` – kolory z rosteru (albo profili), pozostałe są bezpieczne przy daltonizmie. */
+export type PlayerPalette = "default" | "okabe-ito" | "tol-bright";
+
+/** Wzór na śladzie gracza (rysowany w kolorze tła na linii – kolizje się nie zmieniają). */
+export type TrailPattern = "solid" | "dotted" | "hollow" | "dashed";
+
+/** Kształt głowy gracza na nakładce. */
+export type HeadShape = "circle" | "square" | "triangle" | "diamond" | "pentagon" | "hexagon";
+
+/** Przeszkoda mapy w pikselach logicznych. `bitmap` pokrywa całą mapę (np. z zaimportowanego PNG). */
+export type MapObstacle =
+    | { kind: "rect"; x: number; y: number; width: number; height: number }
+    | { kind: "circle"; x: number; y: number; radius: number }
+    | { kind: "wall"; points: Vector2D[]; thickness: number } // ściana rysowana odręcznie (łamana)
+    | { kind: "bitmap"; runs: number[] }; // wiersz po wierszu: na zmianę długości wolnych i zajętych pikseli
+
+/** Stałe miejsce startu z kierunkiem jazdy. */
+export type SpawnPoint = {
+    x: number;
+    y: number;
+    angleRadians: number;
+};
+
+/** Mapa planszy: rozmiar pola, przeszkody i (opcjonalnie) miejsca startu. */
+export type ArenaMap = {
+    version: number;
+    name: string;
+    widthPixels: number;
+    heightPixels: number;
+    obstacles: MapObstacle[];
+    spawns: SpawnPoint[];
+};
+
+/** Prostokąt (w całych pikselach), którego przeciwne krawędzie są sklejone w trybie `wrap`. */
+export type WrapBounds = {
+    minX: number;
+    minY: number;
+    widthPixels: number;
+    heightPixels: number;
+};
+
+export type TrailMask = {
+    widthPixels: number;
+    heightPixels: number;
+    owner: Uint8Array;        // 0 = wolny piksel, n = ślad gracza o indeksie n − 1, 255 = przeszkoda mapy
+    drawnAtTick: Uint32Array; // krok symulacji, w którym właściciel ostatnio narysował piksel
+    corridorUntilTick: Uint32Array; // ślad narysowany do tego kroku w korytarzu dziury jest przejezdny (0 = poza korytarzem)
+    wrap: WrapBounds | null; // null = zwykła plansza, bez zawijania
+};
+
+export type GapState = {
+    isActive: boolean;
+    timeUntilNextGap: number; // s
+    remainingGapTime: number; // s
+};
+
+/** Rodzaje efektów power-upów. `clearBoard` działa natychmiast, pozostałe przez określony czas. */
+export type PowerUpEffect = "speedUp" | "slowDown" | "thick" | "thin" | "wallPass" | "reverseControls" | "clearBoard";
+
+/** Kogo dotyczy power-up: zbierającego czy jego przeciwników. */
+export type PowerUpTarget = "self" | "opponents";
+
+export type ActiveEffect = {
+    effect: PowerUpEffect;
+    remainingSeconds: number;
+};
+
+export type PowerUpPickup = {
+    id: number;
+    effect: PowerUpEffect;
+    target: PowerUpTarget;
+    positionPixels: Vector2D;
+};
+
+export type PlayerState = {
+    name: string;
+    colorHex: string;
+    angleRadians: number;
+    positionPixels: Vector2D;
+    isAlive: boolean;
+    crashedAtTick: number | null; // krok symulacji, w którym gracz zginął (null = wciąż żyje)
+    deathCause: DeathCause | null;
+    crashPositionPixels: Vector2D | null; // punkt zderzenia – tam rysujemy znacznik (null przy rozłączeniu)
+    teamIndex: number | null;             // null – gra bez drużyn
+    scoreSeconds: number;
+    gap: GapState;
+    effects: ActiveEffect[];           // aktywne efekty power-upów (mogą się powtarzać – wtedy się kumulują)
+    speedPixelsPerSecond: number;      // fizyka gracza wyliczana z konfiguracji i efektów
+    turnSpeedRadiansPerSecond: number;
+    radiusPixels: number;
+};
+
+/** Przyczyna śmierci gracza. `trail` – ślad gracza o indeksie `ownerIndex` (także własny). */
+export type DeathCause =
+    | { kind: "border" }
+    | { kind: "trail"; ownerIndex: number }
+    | { kind: "obstacle" }
+    | { kind: "disconnected" };
+
+/** Stan wejścia jednego gracza w danym kroku (niezależny od źródła: klawiatura, bot, sieć). */
+export type PlayerInput = {
+    turnLeft: boolean;
+    turnRight: boolean;
+};
+
+/** Poziomy trudności botów – różnią się zasięgiem „wzroku” i czasem reakcji. */
+export type BotDifficulty = "easy" | "medium" | "hard";
+
+/** Kto steruje danym graczem. `remote` = gość w grze sieciowej (wejście przychodzi przez serwer). */
+export type PlayerController =
+    | { kind: "human" }
+    | { kind: "bot"; difficulty: BotDifficulty }
+    | { kind: "remote"; clientId: string };
@@ -0,0 +1,73 @@
+import {CONFIG} from "../game/config";
+import {
+    assignBinding,
+    CONTROLS_STORAGE_KEY,
+    createDefaultBindings,
+    describeBinding,
+    detectGamepadBinding,
+    isReservedKeyCode,
+    loadBindings,
+    readPlayerInput,
+    saveBindings,
+} from "./bindings";
+import {GamepadSnapshot} from "./gamepads";
+
+function gamepad(buttons: boolean[], axes: number[]): GamepadSnapshot {
+    return {index: 0, id: "Test pad", buttons, axes};
+}
+
+beforeEach(() => localStorage.clear());
+
+test("defaults come from the roster keys", () => {
+    const [first] = createDefaultBindings(CONFIG);
+    expect(first).toEqual({turnLeft: {kind: "key", code: "KeyA"}, turnRight: {kind: "key", code: "KeyD"}});
+    expect(describeBinding(first.turnLeft)).toBe("A");
+});
+
+test("bindings survive a save and load round trip", () => {
+    const bindings = assignBinding(createDefaultBindings(CONFIG), 1, "turnLeft", {kind: "gamepadButton", gamepadIndex: 0, button: 14});
+    saveBindings(bindings, localStorage);
+    expect(loadBindings(CONFIG, localStorage)).toEqual(bindings);
+});
+
+test("broken saved bindings fall back to defaults", () => {
+    localStorage.setItem(CONTROLS_STORAGE_KEY, "not json");
+    expect(loadBindings(CONFIG, localStorage)).toEqual(createDefaultBindings(CONFIG));
+
+    localStorage.setItem(CONTROLS_STORAGE_KEY, JSON.stringify([{turnLeft: {kind: "key"}, turnRight: {kind: "key", code: "KeyZ"}}]));
+    expect(loadBindings(CONFIG, localStorage)[0]).toEqual(createDefaultBindings(CONFIG)[0]);
+});
+
+test("assigning a key that is already taken swaps the two bindings", () => {
+    const bindings = assignBinding(createDefaultBindings(CONFIG), 0, "turnLeft", {kind: "key", code: "KeyJ"});
+    expect(bindings[0].turnLeft).toEqual({kind: "key", code: "KeyJ"});
+    expect(bindings[1].turnLeft).toEqual({kind: "key", code: "KeyA"});
+});
+
+test("game keys cannot be bound to turning", () => {
+    expect(isReservedKeyCode(CONFIG, "Space")).toBe(true);
+    expect(isReservedKeyCode(CONFIG, "Digit3")).toBe(true);
+    expect(isReservedKeyCode(CONFIG, "KeyZ")).toBe(false);
+});
+
+test("reads turning from keys, buttons and the analog stick", () => {
+    const bindings = {
+        turnLeft: {kind: "gamepadAxis", gamepadIndex: 0, axis: 0, direction: -1},
+        turnRight: {kind: "gamepadButton", gamepadIndex: 0, button: 5},
+    } as const;
+    const pad = gamepad([false, false, false, false, false, true], [-0.8, 0]);
+    expect(readPlayerInput(CONFIG, bindings, new Set(), [pad])).toEqual({turnLeft: true, turnRight: true});
+    expect(readPlayerInput(CONFIG, bindings, new Set(), [])).toEqual({turnLeft: false, turnRight: false});
+
+    const keys = createDefaultBindings(CONFIG)[0];
+    expect(readPlayerInput(CONFIG, keys, new Set(["KeyD"]), [])).toEqual({turnLeft: false, turnRight: true});
+});
+
+test("detects only newly pressed gamepad inputs", () => {
+    const idle = gamepad([true, false], [0, 0]);
+    expect(detectGamepadBinding(CONFIG, [idle], [idle])).toBeNull();
+    expect(detectGamepadBinding(CONFIG, [idle], [gamepad([true, true], [0, 0])]))
+        .toEqual({kind: "gamepadButton", gamepadIndex: 0, button: 1});
+    expect(detectGamepadBinding(CONFIG, [idle], [gamepad([true, false], [0.9, 0])]))
+        .toEqual({kind: "gamepadAxis", gamepadIndex: 0, axis: 0, direction: 1});
+});
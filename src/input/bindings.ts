@@ -0,0 +1,193 @@
+import {GameConfig} from "../game/config";
+import {PlayerInput} from "../game/types";
+import {getLocalStorage, readStoredJson, writeStoredJson} from "../storage/localStorage";
+import {GamepadSnapshot} from "./gamepads";
+
+/* =========================================
+ * Przypisania sterowania: klawisze (`event.code`) i pady, zapis w localStorage
+ * ========================================= */
+export type InputBinding =
+    | { kind: "key"; code: string }
+    | { kind: "gamepadButton"; gamepadIndex: number; button: number }
+    | { kind: "gamepadAxis"; gamepadIndex: number; axis: number; direction: -1 | 1 };
+
+export type PlayerBindings = {
+    turnLeft: InputBinding;
+    turnRight: InputBinding;
+};
+
+export type TurnSide = keyof PlayerBindings;
+
+export const CONTROLS_STORAGE_KEY = "kurve.controls.v1";
+
+/** Nazwy przycisków w standardowym układzie pada (https://w3c.github.io/gamepad/#remapping). */
+const STANDARD_BUTTON_NAMES = [
+    "A", "B", "X", "Y", "LB", "RB", "LT", "RT", "Back", "Start", "L3", "R3", "D-pad ↑", "D-pad ↓", "D-pad ←", "D-pad →",
+];
+
+const KEY_CODE_NAMES: Record<string, string> = {
+    ArrowLeft: "←",
+    ArrowRight: "→",
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+    Comma: ",",
+    Period: ".",
+    Slash: "/",
+    Semicolon: ";",
+    Quote: "'",
+    BracketLeft: "[",
+    BracketRight: "]",
+    Backslash: "\\",
+    Minus: "-",
+    Equal: "=",
+    Backquote: "`",
+};
+
+/** Domyślne przypisania – klawisze z `CONFIG.PLAYERS.roster`. */
+export function createDefaultBindings(config: GameConfig): PlayerBindings[] {
+    return config.PLAYERS.roster.map((setup) => ({
+        turnLeft: {kind: "key", code: setup.turnLeftKey},
+        turnRight: {kind: "key", code: setup.turnRightKey},
+    }));
+}
+
+/** Klawisze zajęte przez grę (start, restart, powtórki…) – nie można ich przypisać do skrętu. */
+export function isReservedKeyCode(config: GameConfig, code: string): boolean {
+    return Object.values(config.INPUT).includes(code) || /^(Digit|Numpad)\d$/.test(code) || code === "Escape";
+}
+
+export function isSameBinding(a: InputBinding, b: InputBinding): boolean {
+    if (a.kind === "key" && b.kind === "key") return a.code === b.code;
+    if (a.kind === "gamepadButton" && b.kind === "gamepadButton") {
+        return a.gamepadIndex === b.gamepadIndex && a.button === b.button;
+    }
+    if (a.kind === "gamepadAxis" && b.kind === "gamepadAxis") {
+        return a.gamepadIndex === b.gamepadIndex && a.axis === b.axis && a.direction === b.direction;
+    }
+    return false;
+}
+
+/**
+ * Przypisuje wejście do skrętu gracza. Jeśli ktoś już go używał, dostaje w zamian
+ * poprzednie wejście tego gracza – dzięki temu dwa skręty nigdy nie dzielą klawisza.
+ */
+export function assignBinding(
+    bindings: readonly PlayerBindings[],
+    playerIndex: number,
+    side: TurnSide,
+    binding: InputBinding
+): PlayerBindings[] {
+    const previous = bindings[playerIndex][side];
+    return bindings.map((player, index) => {
+        const updated = {...player};
+        for (const otherSide of ["turnLeft", "turnRight"] as TurnSide[]) {
+            if (index === playerIndex && otherSide === side) updated[otherSide] = binding;
+            else if (isSameBinding(player[otherSide], binding)) updated[otherSide] = previous;
+        }
+        return updated;
+    });
+}
+
+/** Czytelna nazwa klawisza (`event.code`) do HUD-u i ekranu sterowania. */
+export function describeKeyCode(code: string): string {
+    if (KEY_CODE_NAMES[code]) return KEY_CODE_NAMES[code];
+    const match = /^(Key|Digit|Numpad)(.+)$/.exec(code);
+    return match ? match[2] : code;
+}
+
+export function describeBinding(binding: InputBinding): string {
+    if (binding.kind === "key") return describeKeyCode(binding.code);
+    const pad = `Pad ${binding.gamepadIndex + 1}`;
+    if (binding.kind === "gamepadButton") {
+        return `${pad} ${STANDARD_BUTTON_NAMES[binding.button] ?? `button ${binding.button}`}`;
+    }
+    const stick = binding.axis < 2 ? "left stick" : binding.axis < 4 ? "right stick" : `axis ${binding.axis}`;
+    const direction = binding.axis % 2 === 0 ? (binding.direction < 0 ? "←" : "→") : (binding.direction < 0 ? "↑" : "↓");
+    return `${pad} ${stick} ${direction}`;
+}
+
+function isBindingActive(
+    config: GameConfig,
+    binding: InputBinding,
+    pressedCodes: ReadonlySet<string>,
+    gamepads: readonly GamepadSnapshot[]
+): boolean {
+    if (binding.kind === "key") return pressedCodes.has(binding.code);
+    const gamepad = gamepads.find((candidate) => candidate.index === binding.gamepadIndex);
+    if (!gamepad) return false;
+    if (binding.kind === "gamepadButton") return gamepad.buttons[binding.button] ?? false;
+    return (gamepad.axes[binding.axis] ?? 0) * binding.direction >= config.INPUT.gamepadAxisThreshold;
+}
+
+/** Wejście gracza z wciśniętych klawiszy i bieżącego stanu padów. */
+export function readPlayerInput(
+    config: GameConfig,
+    bindings: PlayerBindings,
+    pressedCodes: ReadonlySet<string>,
+    gamepads: readonly GamepadSnapshot[]
+): PlayerInput {
+    return {
+        turnLeft: isBindingActive(config, bindings.turnLeft, pressedCodes, gamepads),
+        turnRight: isBindingActive(config, bindings.turnRight, pressedCodes, gamepads),
+    };
+}
+
+/**
+ * Pierwsze wejście pada, które zostało wciśnięte między dwoma odczytami – do przypisywania
+ * skrętu „naciśnij przycisk”. Porównujemy z poprzednim stanem, żeby nie złapać trzymanego przycisku.
+ */
+export function detectGamepadBinding(
+    config: GameConfig,
+    previous: readonly GamepadSnapshot[],
+    current: readonly GamepadSnapshot[]
+): InputBinding | null {
+    const threshold = config.INPUT.gamepadAxisThreshold;
+    for (const gamepad of current) {
+        const before = previous.find((candidate) => candidate.index === gamepad.index);
+        const buttonIndex = gamepad.buttons.findIndex((pressed, button) => pressed && !before?.buttons[button]);
+        if (buttonIndex >= 0) return {kind: "gamepadButton", gamepadIndex: gamepad.index, button: buttonIndex};
+
+        for (let axis = 0; axis < gamepad.axes.length; axis++) {
+            const value = gamepad.axes[axis];
+            const wasPushed = Math.abs(before?.axes[axis] ?? 0) >= threshold;
+            if (Math.abs(value) >= threshold && !wasPushed) {
+                return {kind: "gamepadAxis", gamepadIndex: gamepad.index, axis, direction: value < 0 ? -1 : 1};
+            }
+        }
+    }
+    return null;
+}
+
+/* ---------- localStorage ---------- */
+
+function isValidBinding(value: unknown): value is InputBinding {
+    const binding = value as Partial<Record<string, unknown>> | null;
+    if (!binding || typeof binding !== "object") return false;
+    if (binding.kind === "key") return typeof binding.code === "string" && binding.code !== "";
+    if (binding.kind === "gamepadButton") {
+        return Number.isInteger(binding.gamepadIndex) && Number.isInteger(binding.button);
+    }
+    if (binding.kind === "gamepadAxis") {
+        return Number.isInteger(binding.gamepadIndex) && Number.isInteger(binding.axis)
+            && (binding.direction === -1 || binding.direction === 1);
+    }
+    return false;
+}
+
+/** Wczytuje przypisania; brakujące albo uszkodzone wpisy zastępuje domyślnymi. */
+export function loadBindings(config: GameConfig, storage: Storage | null = getLocalStorage()): PlayerBindings[] {
+    const defaults = createDefaultBindings(config);
+    const saved = readStoredJson(storage, CONTROLS_STORAGE_KEY);
+    if (!Array.isArray(saved)) return defaults;
+    const entries: unknown[] = saved;
+
+    return defaults.map((fallback, index) => {
+        const entry = entries[index] as Partial<PlayerBindings> | undefined;
+        if (!entry || !isValidBinding(entry.turnLeft) || !isValidBinding(entry.turnRight)) return fallback;
+        return {turnLeft: entry.turnLeft, turnRight: entry.turnRight};
+    });
+}
+
+export function saveBindings(bindings: readonly PlayerBindings[], storage: Storage | null = getLocalStorage()): void {
+    writeStoredJson(storage, CONTROLS_STORAGE_KEY, bindings);
+}
@@ -0,0 +1,44 @@
+/* =========================================
+ * Pady przez Gamepad API: odczyt stanu i wykrywanie podłączeń
+ * =========================================
+ * Przeglądarka nie wysyła zdarzeń o przyciskach pada – stan czytamy co klatkę.
+ */
+export type GamepadSnapshot = {
+    index: number;
+    id: string;
+    buttons: boolean[];
+    axes: number[];
+};
+
+/** Podłączone pady (puste, gdy przeglądarka nie ma Gamepad API, np. w testach). */
+export function readGamepads(): GamepadSnapshot[] {
+    if (typeof navigator === "undefined" || typeof navigator.getGamepads !== "function") return [];
+    const snapshots: GamepadSnapshot[] = [];
+    for (const gamepad of navigator.getGamepads()) {
+        if (!gamepad || !gamepad.connected) continue;
+        snapshots.push({
+            index: gamepad.index,
+            id: gamepad.id,
+            buttons: gamepad.buttons.map((button) => button.pressed),
+            axes: [...gamepad.axes],
+        });
+    }
+    return snapshots;
+}
+
+/** Woła `onChange` z aktualną listą padów przy każdym podłączeniu i odłączeniu. Zwraca funkcję sprzątającą. */
+export function watchGamepadConnections(onChange: (gamepads: GamepadSnapshot[]) => void): () => void {
+    const handleChange = () => onChange(readGamepads());
+    window.addEventListener("gamepadconnected", handleChange);
+    window.addEventListener("gamepaddisconnected", handleChange);
+    return () => {
+        window.removeEventListener("gamepadconnected", handleChange);
+        window.removeEventListener("gamepaddisconnected", handleChange);
+    };
+}
+
+/** Krótka nazwa pada do list w UI – `id` bywa bardzo długie (producent, vendor/product id). */
+export function describeGamepad(gamepad: GamepadSnapshot): string {
+    const name = gamepad.id.replace(/\s*\(.*\)\s*$/, "").trim() || "Gamepad";
+    return `Pad ${gamepad.index + 1}: ${name}`;
+}
@@ -0,0 +1,43 @@
+import {findTouchZone, layoutTouchZones, touchInputsFromZones, withTouchInput} from "./touch";
+
+const LANDSCAPE = {width: 800, height: 400};
+const PORTRAIT = {width: 400, height: 800};
+
+test("a single player turns with the left and right half of the screen", () => {
+    const zones = layoutTouchZones(LANDSCAPE, [0]);
+    expect(findTouchZone(zones, 100, 200)).toMatchObject({playerIndex: 0, side: "turnLeft"});
+    expect(findTouchZone(zones, 700, 200)).toMatchObject({playerIndex: 0, side: "turnRight"});
+});
+
+test("two players split the screen along its longer side", () => {
+    const landscape = layoutTouchZones(LANDSCAPE, [0, 1]);
+    expect(findTouchZone(landscape, 250, 200)).toMatchObject({playerIndex: 0, side: "turnRight"});
+    expect(findTouchZone(landscape, 450, 200)).toMatchObject({playerIndex: 1, side: "turnLeft"});
+
+    // w pionie drugi gracz siedzi naprzeciwko – jego lewa strona to prawa strona ekranu
+    const portrait = layoutTouchZones(PORTRAIT, [0, 1]);
+    expect(findTouchZone(portrait, 100, 600)).toMatchObject({playerIndex: 0, side: "turnLeft"});
+    expect(findTouchZone(portrait, 300, 200)).toMatchObject({playerIndex: 1, side: "turnLeft", isFlipped: true});
+});
+
+test("more players get separate corner buttons", () => {
+    const zones = layoutTouchZones(LANDSCAPE, [0, 1, 2, 3, 4, 5]);
+    expect(zones).toHaveLength(12);
+    for (const zone of zones) {
+        expect(zone.x).toBeGreaterThanOrEqual(0);
+        expect(zone.y).toBeGreaterThanOrEqual(0);
+        expect(zone.x + zone.width).toBeLessThanOrEqual(LANDSCAPE.width);
+        expect(zone.y + zone.height).toBeLessThanOrEqual(LANDSCAPE.height);
+        const others = zones.filter((other) => other !== zone);
+        expect(findTouchZone(others, zone.x + zone.width / 2, zone.y + zone.height / 2)).toBeNull();
+    }
+    expect(findTouchZone(zones, 400, 200)).toBeNull();
+});
+
+test("several fingers drive several players at once", () => {
+    const zones = layoutTouchZones(LANDSCAPE, [0, 1]);
+    const touched = [findTouchZone(zones, 50, 200), findTouchZone(zones, 750, 200)].flatMap((zone) => (zone ? [zone] : []));
+    const inputs = touchInputsFromZones(touched, 2);
+    expect(inputs).toEqual([{turnLeft: true, turnRight: false}, {turnLeft: false, turnRight: true}]);
+    expect(withTouchInput({turnLeft: false, turnRight: true}, inputs[0])).toEqual({turnLeft: true, turnRight: true});
+});
@@ -0,0 +1,111 @@
+import {PlayerInput} from "../game/types";
+import {TurnSide} from "./bindings";
+
+/* =========================================
+ * Sterowanie dotykiem: strefy skrętu na ekranie
+ * =========================================
+ * 1 gracz: lewa i prawa połowa ekranu. 2 graczy: każdy dostaje połowę ekranu
+ * (poziomo – lewą/prawą, pionowo – dolną/górną) podzieloną na skręty.
+ * 3+ graczy: pary przycisków w rogach i na środkach boków.
+ */
+export type TouchZone = {
+    playerIndex: number;
+    side: TurnSide;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    isFlipped: boolean; // gracz siedzi po drugiej stronie tabletu – strefy i napisy obrócone o 180°
+};
+
+export type Viewport = {
+    width: number;
+    height: number;
+};
+
+/** Rozmiar przycisku w układzie „w rogach” jako ułamek krótszego boku ekranu. */
+const CORNER_BUTTON_FRACTION = 0.14;
+const MIN_CORNER_BUTTON_PIXELS = 56;
+
+/** Dwie strefy obok siebie w prostokącie; u obróconego gracza lewa strefa jest po prawej stronie ekranu. */
+function splitIntoTurnZones(
+    playerIndex: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    isFlipped: boolean
+): TouchZone[] {
+    const half = width / 2;
+    const [leftX, rightX] = isFlipped ? [x + half, x] : [x, x + half];
+    return [
+        {playerIndex, side: "turnLeft", x: leftX, y, width: half, height, isFlipped},
+        {playerIndex, side: "turnRight", x: rightX, y, width: half, height, isFlipped},
+    ];
+}
+
+/** Strefy dotyku dla graczy o podanych indeksach (zwykle: ludzie przy tym urządzeniu). */
+export function layoutTouchZones(viewport: Viewport, playerIndices: readonly number[]): TouchZone[] {
+    const {width, height} = viewport;
+    const isLandscape = width >= height;
+
+    if (playerIndices.length === 1) {
+        return splitIntoTurnZones(playerIndices[0], 0, 0, width, height, false);
+    }
+
+    if (playerIndices.length === 2) {
+        const [first, second] = playerIndices;
+        if (isLandscape) {
+            return [
+                ...splitIntoTurnZones(first, 0, 0, width / 2, height, false),
+                ...splitIntoTurnZones(second, width / 2, 0, width / 2, height, false),
+            ];
+        }
+        return [
+            ...splitIntoTurnZones(first, 0, height / 2, width, height / 2, false),
+            ...splitIntoTurnZones(second, 0, 0, width, height / 2, true),
+        ];
+    }
+
+    const size = Math.max(MIN_CORNER_BUTTON_PIXELS, Math.min(width, height) * CORNER_BUTTON_FRACTION);
+    const margin = size / 4;
+    const pairWidth = 2 * size;
+    const left = margin;
+    const right = width - margin - pairWidth;
+    const top = margin;
+    const bottom = height - margin - size;
+    const middleY = (height - size) / 2;
+    // Kolejność miejsc: dolne rogi, górne rogi (gracze naprzeciwko), środki boków
+    const slots: [number, number, boolean][] = [
+        [left, bottom, false],
+        [right, bottom, false],
+        [right, top, true],
+        [left, top, true],
+        [left, middleY, false],
+        [right, middleY, false],
+    ];
+    return playerIndices.flatMap((playerIndex, slot) => {
+        const [x, y, isFlipped] = slots[slot % slots.length];
+        return splitIntoTurnZones(playerIndex, x, y, pairWidth, size, isFlipped);
+    });
+}
+
+export function findTouchZone(zones: readonly TouchZone[], x: number, y: number): TouchZone | null {
+    return zones.find((zone) => x >= zone.x && x < zone.x + zone.width && y >= zone.y && y < zone.y + zone.height) ?? null;
+}
+
+/** Wejście każdego gracza z aktualnie dotykanych stref (kilka palców naraz = multi-touch). */
+export function touchInputsFromZones(activeZones: readonly TouchZone[], playerCount: number): PlayerInput[] {
+    const inputs: PlayerInput[] = Array.from({length: playerCount}, () => ({turnLeft: false, turnRight: false}));
+    for (const zone of activeZones) {
+        const input = inputs[zone.playerIndex];
+        if (input) input[zone.side] = true;
+    }
+    return inputs;
+}
+
+/** Klawiatura/pad i dotyk tego samego gracza działają razem. */
+export function withTouchInput(input: PlayerInput, touch: PlayerInput | undefined): PlayerInput {
+    if (!touch) return input;
+    return {turnLeft: input.turnLeft || touch.turnLeft, turnRight: input.turnRight || touch.turnRight};
+}
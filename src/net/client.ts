@@ -0,0 +1,63 @@
+import {ClientMessage, ServerMessage} from "./protocol";
+
+/* =========================================
+ * Połączenie z serwerem pokoi
+ * ========================================= */
+export type NetClient = {
+    send: (message: ClientMessage) => void;
+    close: () => void;
+    getLatencyMs: () => number | null;
+};
+
+export type NetClientHandlers = {
+    onOpen: () => void;
+    onMessage: (message: ServerMessage) => void;
+    onClose: () => void;
+};
+
+const PING_INTERVAL_MS = 1000;
+
+/** Łączy się z serwerem; co sekundę mierzy opóźnienie (ping/pong) i zgłasza je do pokoju. */
+export function connectNetClient(url: string, handlers: NetClientHandlers): NetClient {
+    const socket = new WebSocket(url);
+    let latencyMs: number | null = null;
+    let pingTimer: number | undefined;
+
+    const send = (message: ClientMessage) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    socket.addEventListener("open", () => {
+        pingTimer = window.setInterval(() => send({type: "ping", sentAtMs: performance.now()}), PING_INTERVAL_MS);
+        handlers.onOpen();
+    });
+
+    socket.addEventListener("message", (event) => {
+        let message: ServerMessage;
+        try {
+            message = JSON.parse(String(event.data));
+        } catch {
+            return;
+        }
+        if (message.type === "pong") {
+            latencyMs = Math.round(performance.now() - message.sentAtMs);
+            send({type: "latency", latencyMs});
+            return;
+        }
+        handlers.onMessage(message);
+    });
+
+    socket.addEventListener("close", () => {
+        window.clearInterval(pingTimer);
+        handlers.onClose();
+    });
+
+    return {
+        send,
+        close: () => {
+            window.clearInterval(pingTimer);
+            socket.close();
+        },
+        getLatencyMs: () => latencyMs,
+    };
+}
@@ -0,0 +1,76 @@
+import {MatchState} from "../game/match";
+import {SimulationEvent} from "../game/simulation";
+import {GameSettings} from "../game/settings";
+import {SuddenDeathView} from "../game/suddenDeath";
+import {ArenaMap, ArenaSize, DeathCause, PlayerInput, PowerUpPickup, Vector2D} from "../game/types";
+
+/* =========================================
+ * Protokół gry sieciowej (JSON przez WebSocket)
+ * =========================================
+ * Serwer (`server/index.js`) tylko trzyma pokoje i przekazuje wiadomości.
+ * Host pokoju liczy symulację i jest jedynym źródłem prawdy o pozycjach,
+ * masce śladu i śmierciach; goście wysyłają mu tylko skręty.
+ */
+export const DEFAULT_SERVER_URL = "ws://localhost:8787";
+
+export type NetMember = {
+    clientId: string;
+    name: string;
+    isHost: boolean;
+    latencyMs: number | null;
+};
+
+/** Głowa gracza w takim kształcie, jakiego potrzebuje renderer. */
+export type NetPlayerView = {
+    name: string;
+    colorHex: string;
+    positionPixels: Vector2D;
+    radiusPixels: number;
+    gap: { isActive: boolean };
+    isAlive: boolean;
+    deathCause: DeathCause | null;
+    crashPositionPixels: Vector2D | null;
+    teamIndex: number | null;
+    scoreSeconds: number;
+    effects: { effect: PowerUpPickup["effect"]; remainingSeconds: number }[];
+};
+
+/** Stan rundy wysyłany przez hosta po każdym kroku. */
+export type NetSnapshot = {
+    roundId: number;
+    arena: ArenaSize;
+    settings: GameSettings | null; // ustawienia hosta – tylko w pierwszym snapshocie rundy
+    map: ArenaMap | null;          // mapa hosta – wysyłana razem z ustawieniami (`null` też bez mapy)
+    isMoving: boolean;
+    countdownNumber: number | null; // odliczanie hosta przed startem albo wznowieniem rundy
+    hasRoundEnded: boolean;
+    tick: number;
+    players: NetPlayerView[];
+    pickups: PowerUpPickup[];
+    suddenDeath: SuddenDeathView;
+    events: SimulationEvent[];
+    matchTotals: number[];
+    finishedMatch: MatchState | null;
+};
+
+export type ClientMessage =
+    | { type: "createRoom"; name: string }
+    | { type: "joinRoom"; roomCode: string; name: string }
+    | { type: "leaveRoom" }
+    | { type: "ping"; sentAtMs: number }
+    | { type: "latency"; latencyMs: number }
+    | { type: "input"; input: PlayerInput }
+    | { type: "startMatch"; playerOrder: string[] }
+    | { type: "endMatch" }
+    | { type: "snapshot"; snapshot: NetSnapshot };
+
+export type ServerMessage =
+    | { type: "roomJoined"; roomCode: string; clientId: string; isHost: boolean }
+    | { type: "roomState"; roomCode: string; members: NetMember[] }
+    | { type: "pong"; sentAtMs: number }
+    | { type: "input"; clientId: string; input: PlayerInput }
+    | { type: "matchStarted"; playerOrder: string[] }
+    | { type: "snapshot"; snapshot: NetSnapshot }
+    | { type: "memberLeft"; clientId: string; name: string }
+    | { type: "roomClosed"; reason: string }
+    | { type: "error"; message: string };
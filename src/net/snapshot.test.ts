@@ -0,0 +1,82 @@
+import {CONFIG} from "../game/config";
+import {applyMap, createEmptyMap} from "../game/maps";
+import {createMatch} from "../game/match";
+import {applySettings, settingsFromConfig} from "../game/settings";
+import {createSimulation, toggleMovement} from "../game/simulation";
+import {applySnapshot, buildSnapshot, createGuestView, describeGuestStatus} from "./snapshot";
+
+const ARENA = {widthPixels: 200, heightPixels: 120};
+const TWO_PLAYERS = CONFIG.PLAYERS.roster.slice(0, 2);
+
+test("snapshot carries what guests need to draw the board", () => {
+    const state = createSimulation(CONFIG, ARENA, 5, TWO_PLAYERS);
+    const match = createMatch(CONFIG, TWO_PLAYERS.map((setup) => setup.name));
+    state.players[0].isAlive = false;
+    state.players[0].deathCause = {kind: "trail", ownerIndex: 1};
+    state.players[0].crashPositionPixels = {x: 50, y: 60};
+    const events = [{type: "gapStarted" as const, playerIndex: 1}, {type: "playerCrashed" as const, playerIndex: 0}, {type: "boardCleared" as const}];
+    const snapshot = buildSnapshot(state, 3, events, match, false);
+
+    expect(snapshot.roundId).toBe(3);
+    expect(snapshot.players.map((player) => player.positionPixels)).toEqual(state.players.map((player) => player.positionPixels));
+    expect(snapshot.events).toEqual([{type: "playerCrashed", playerIndex: 0}, {type: "boardCleared"}]);
+    expect(snapshot.players[0]).toMatchObject({deathCause: {kind: "trail", ownerIndex: 1}, crashPositionPixels: {x: 50, y: 60}});
+    expect(snapshot.finishedMatch).toBeNull();
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+});
+
+test("guest view detects a new round from the round id", () => {
+    const state = createSimulation(CONFIG, ARENA, 5, TWO_PLAYERS);
+    const match = createMatch(CONFIG, TWO_PLAYERS.map((setup) => setup.name));
+    const view = createGuestView(CONFIG, buildSnapshot(state, 1, [], match, false));
+
+    expect(applySnapshot(view, buildSnapshot(state, 1, [], match, false))).toBe(false);
+    expect(applySnapshot(view, buildSnapshot(state, 2, [], match, false))).toBe(true);
+    expect(view.roundId).toBe(2);
+});
+
+test("guest status follows the host's round", () => {
+    const state = createSimulation(CONFIG, ARENA, 5, TWO_PLAYERS);
+    const match = createMatch(CONFIG, TWO_PLAYERS.map((setup) => setup.name));
+    expect(describeGuestStatus(buildSnapshot(state, 1, [], match, false))).toBe("Waiting for the host to start");
+    expect(describeGuestStatus(buildSnapshot(state, 1, [], match, false, 3))).toBe("");
+
+    toggleMovement(state);
+    expect(describeGuestStatus(buildSnapshot(state, 1, [], match, false))).toBe("");
+});
+
+test("guests draw the board with the host's settings from the first snapshot of a round", () => {
+    const hostConfig = applySettings(CONFIG, {...settingsFromConfig(CONFIG), arenaMode: "wrap", borderThicknessPixels: 9});
+    const state = createSimulation(hostConfig, ARENA, 5, TWO_PLAYERS);
+    const match = createMatch(hostConfig, TWO_PLAYERS.map((setup) => setup.name));
+    const view = createGuestView(CONFIG, buildSnapshot(state, 1, [], match, true));
+
+    expect(view.config.ARENA.mode).toBe("wrap");
+    expect(view.config.BORDER.thicknessPixels).toBe(9);
+    expect(buildSnapshot(state, 1, [], match, false).settings).toBeNull();
+});
+
+test("the host's map travels with the settings and a later round without a map removes it", () => {
+    const map = {...createEmptyMap("Pillar", ARENA), obstacles: [{kind: "circle" as const, x: 100, y: 60, radius: 10}]};
+    const state = createSimulation(applyMap(CONFIG, map), ARENA, 5, TWO_PLAYERS);
+    const match = createMatch(CONFIG, TWO_PLAYERS.map((setup) => setup.name));
+    const view = createGuestView(CONFIG, buildSnapshot(state, 1, [], match, true));
+    expect(view.config.ARENA.map).toEqual(map);
+
+    applySnapshot(view, buildSnapshot(state, 1, [], match, false));
+    expect(view.config.ARENA.map).toEqual(map);
+
+    const plain = createSimulation(CONFIG, ARENA, 6, TWO_PLAYERS);
+    applySnapshot(view, buildSnapshot(plain, 2, [], match, true));
+    expect(view.config.ARENA.map).toBeNull();
+});
+
+test("guests keep their own accessibility options and palette over the host's settings", () => {
+    const state = createSimulation(CONFIG, ARENA, 5, TWO_PLAYERS);
+    const match = createMatch(CONFIG, TWO_PLAYERS.map((setup) => setup.name));
+    const guestConfig = applySettings(CONFIG, {...settingsFromConfig(CONFIG), palette: "tol-bright", highContrast: true});
+    const view = createGuestView(guestConfig, buildSnapshot(state, 1, [], match, true));
+
+    expect(view.config.ACCESSIBILITY.highContrast).toBe(true);
+    expect(view.players.map((player) => player.colorHex)).toEqual(CONFIG.ACCESSIBILITY.palettes["tol-bright"].slice(0, 2));
+});
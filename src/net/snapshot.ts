@@ -0,0 +1,119 @@
+import {paletteColorHex} from "../game/accessibility";
+import {GameConfig} from "../game/config";
+import {applyMap} from "../game/maps";
+import {MatchState} from "../game/match";
+import {BoardView} from "../game/render";
+import {applySettings, settingsFromConfig} from "../game/settings";
+import {SimulationEvent, SimulationState} from "../game/simulation";
+import {NetPlayerView, NetSnapshot} from "./protocol";
+
+/* =========================================
+ * Snapshoty: host → goście
+ * ========================================= */
+
+/** Zdarzenia, które goście muszą znać, żeby narysować planszę i kill feed tak jak host. */
+const FORWARDED_EVENT_TYPES: SimulationEvent["type"][] = [
+    "playerCrashed",
+    "powerUpSpawned",
+    "powerUpCollected",
+    "boardCleared",
+    "suddenDeathWarning",
+    "trailsErased",
+    "roundEnded",
+];
+
+export function buildSnapshot(
+    state: SimulationState,
+    roundId: number,
+    events: SimulationEvent[],
+    match: MatchState,
+    includeSettings: boolean,
+    countdownNumber: number | null = null
+): NetSnapshot {
+    return {
+        roundId,
+        arena: state.arena,
+        settings: includeSettings ? settingsFromConfig(state.config) : null,
+        map: includeSettings ? state.config.ARENA.map : null,
+        isMoving: state.isMoving,
+        countdownNumber,
+        hasRoundEnded: state.hasRoundEnded,
+        tick: state.tick,
+        players: state.players.map((player): NetPlayerView => ({
+            name: player.name,
+            colorHex: player.colorHex,
+            positionPixels: player.positionPixels,
+            radiusPixels: player.radiusPixels,
+            gap: {isActive: player.gap.isActive},
+            isAlive: player.isAlive,
+            deathCause: player.deathCause,
+            crashPositionPixels: player.crashPositionPixels,
+            teamIndex: player.teamIndex,
+            scoreSeconds: player.scoreSeconds,
+            effects: player.effects,
+        })),
+        pickups: state.powerUps.pickups,
+        suddenDeath: {shrinkPixels: state.suddenDeath.shrinkPixels, warningShrinkPixels: state.suddenDeath.warningShrinkPixels},
+        events: events.filter((event) => FORWARDED_EVENT_TYPES.includes(event.type)),
+        matchTotals: match.totals,
+        finishedMatch: match.winnerIndex !== null ? match : null,
+    };
+}
+
+/** Widok planszy po stronie gościa – odbudowywany z kolejnych snapshotów hosta. */
+export type GuestView = BoardView & {
+    roundId: number;
+    players: NetPlayerView[];
+    latest: NetSnapshot;
+};
+
+/**
+ * Konfiguracja z ustawieniami i mapą hosta (gdy snapshot je niesie) – plansza rysowana jak u hosta.
+ * Opcje dostępności (paleta, wzory, kontrast) zostają własne gościa.
+ */
+function hostConfig(config: GameConfig, snapshot: NetSnapshot): GameConfig {
+    if (!snapshot.settings) return config;
+    return {...applyMap(applySettings(config, snapshot.settings), snapshot.map), ACCESSIBILITY: config.ACCESSIBILITY};
+}
+
+/** Gracze hosta w kolorach z palety gościa (drużyny zostają w kolorach drużyn). */
+function withGuestPalette(config: GameConfig, players: NetPlayerView[]): NetPlayerView[] {
+    return players.map((player, index) => {
+        const colorHex = player.teamIndex === null ? paletteColorHex(config, index) : null;
+        return colorHex ? {...player, colorHex} : player;
+    });
+}
+
+export function createGuestView(config: GameConfig, snapshot: NetSnapshot): GuestView {
+    return {
+        config: hostConfig(config, snapshot),
+        arena: snapshot.arena,
+        powerUps: {pickups: snapshot.pickups},
+        suddenDeath: snapshot.suddenDeath,
+        players: withGuestPalette(config, snapshot.players),
+        roundId: snapshot.roundId,
+        latest: snapshot,
+    };
+}
+
+/** Wpisuje snapshot do widoku. Zwraca `true`, gdy host zaczął nową rundę (trzeba odmalować planszę). */
+export function applySnapshot(view: GuestView, snapshot: NetSnapshot): boolean {
+    const isNewRound = snapshot.roundId !== view.roundId;
+    view.config = hostConfig(view.config, snapshot);
+    view.arena = snapshot.arena;
+    view.powerUps = {pickups: snapshot.pickups};
+    view.suddenDeath = snapshot.suddenDeath;
+    view.players = withGuestPalette(view.config, snapshot.players);
+    view.roundId = snapshot.roundId;
+    view.latest = snapshot;
+    return isNewRound;
+}
+
+/** Status rundy dla gościa (host ma własny, bogatszy tekst w HUD-zie). */
+export function describeGuestStatus(snapshot: NetSnapshot): string {
+    if (snapshot.finishedMatch) return "Match over • Waiting for the host";
+    if (snapshot.hasRoundEnded) return "Round over • Next round starting…";
+    if (snapshot.countdownNumber !== null) return "";
+    if (!snapshot.isMoving) return snapshot.tick === 0 ? "Waiting for the host to start" : "Paused by the host";
+    return "";
+}
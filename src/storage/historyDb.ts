@@ -0,0 +1,103 @@
+import {GameHistory, MatchRecord, RoundRecord} from "../game/history";
+
+/* =========================================
+ * Historia gier w IndexedDB
+ * =========================================
+ * Gdy przeglądarka nie udostępnia IndexedDB (albo baza się nie otworzy), zapis jest pomijany,
+ * a odczyt zwraca pustą historię – gra działa dalej bez statystyk.
+ */
+const DB_NAME = "kurve-history";
+const DB_VERSION = 1;
+const ROUNDS_STORE = "rounds";
+const MATCHES_STORE = "matches";
+
+let openedDb: Promise<IDBDatabase | null> | null = null;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+function openHistoryDb(): Promise<IDBDatabase | null> {
+    if (openedDb) return openedDb;
+    openedDb = new Promise((resolve) => {
+        let factory: IDBFactory | undefined;
+        try {
+            factory = window.indexedDB;
+        } catch {
+            factory = undefined;
+        }
+        if (!factory) {
+            resolve(null);
+            return;
+        }
+        const request = factory.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(ROUNDS_STORE, {keyPath: "id"});
+            request.result.createObjectStore(MATCHES_STORE, {keyPath: "id"});
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+    });
+    return openedDb;
+}
+
+async function putRecord(storeName: string, record: RoundRecord | MatchRecord): Promise<void> {
+    const db = await openHistoryDb();
+    if (!db) return;
+    try {
+        const transaction = db.transaction(storeName, "readwrite");
+        transaction.objectStore(storeName).put(record);
+        await transactionDone(transaction);
+    } catch {
+        // patrz komentarz na górze pliku
+    }
+}
+
+export function saveRoundRecord(record: RoundRecord): Promise<void> {
+    return putRecord(ROUNDS_STORE, record);
+}
+
+export function saveMatchRecord(record: MatchRecord): Promise<void> {
+    return putRecord(MATCHES_STORE, record);
+}
+
+export async function loadHistory(): Promise<GameHistory> {
+    const db = await openHistoryDb();
+    if (!db) return {rounds: [], matches: []};
+    try {
+        const transaction = db.transaction([ROUNDS_STORE, MATCHES_STORE], "readonly");
+        const [rounds, matches] = await Promise.all([
+            requestResult(transaction.objectStore(ROUNDS_STORE).getAll() as IDBRequest<RoundRecord[]>),
+            requestResult(transaction.objectStore(MATCHES_STORE).getAll() as IDBRequest<MatchRecord[]>),
+        ]);
+        return {rounds, matches};
+    } catch {
+        return {rounds: [], matches: []};
+    }
+}
+
+/** Zastępuje całą historię (import kopii zapasowej). */
+export async function replaceHistory(history: GameHistory): Promise<void> {
+    const db = await openHistoryDb();
+    if (!db) return;
+    const transaction = db.transaction([ROUNDS_STORE, MATCHES_STORE], "readwrite");
+    const rounds = transaction.objectStore(ROUNDS_STORE);
+    const matches = transaction.objectStore(MATCHES_STORE);
+    rounds.clear();
+    matches.clear();
+    history.rounds.forEach((record) => rounds.put(record));
+    history.matches.forEach((record) => matches.put(record));
+    await transactionDone(transaction);
+}
@@ -0,0 +1,31 @@
+/* =========================================
+ * Dostęp do localStorage
+ * ========================================= */
+
+/** `localStorage` albo `null`, gdy przeglądarka go nie udostępnia (np. tryb prywatny z blokadą). */
+export function getLocalStorage(): Storage | null {
+    try {
+        return window.localStorage;
+    } catch {
+        return null;
+    }
+}
+
+/** Odczytany i sparsowany JSON albo `undefined`, gdy wpisu nie ma lub jest uszkodzony. */
+export function readStoredJson(storage: Storage | null, key: string): unknown {
+    try {
+        const text = storage?.getItem(key);
+        return text == null ? undefined : JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/** Zapisuje JSON; pełny albo zablokowany storage po cichu pomija – dane zostają tylko do końca sesji. */
+export function writeStoredJson(storage: Storage | null, key: string, value: unknown): void {
+    try {
+        storage?.setItem(key, JSON.stringify(value));
+    } catch {
+        // patrz wyżej
+    }
+}
@@ -0,0 +1,75 @@
+import React from "react";
+import {AudioSettings} from "../audio/audioSettings";
+import {CONFIG} from "../game/config";
+
+type AudioControlsProps = {
+    settings: AudioSettings;
+    onChange: (settings: AudioSettings) => void;
+};
+
+/**
+ * Głośność, wyciszenie (też klawisz U) i muzyka w rogu ekranu. Kontrolki oddają fokus po kliknięciu –
+ * inaczej SPACE i strzałki gracza trafiałyby do nich zamiast do gry.
+ */
+export default function AudioControls({settings, onChange}: AudioControlsProps) {
+    const releaseFocus = (event: React.PointerEvent<HTMLElement>) => event.currentTarget.blur();
+
+    const buttonStyle: React.CSSProperties = {
+        background: "transparent",
+        color: CONFIG.COLORS.hudTextHex,
+        border: `1px solid ${CONFIG.COLORS.hudDimHex}`,
+        borderRadius: 4,
+        padding: "2px 8px",
+        cursor: "pointer",
+        font: "inherit",
+    };
+
+    return (
+        <div
+            role="group"
+            aria-label="Sound"
+            style={{
+                position: "fixed",
+                right: 12,
+                top: 12,
+                display: "flex",
+                alignItems: "center",
+                gap: 8,
+                color: CONFIG.COLORS.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 13,
+                userSelect: "none",
+            }}
+        >
+            <button
+                style={buttonStyle}
+                aria-pressed={settings.muted}
+                title="Mute (U)"
+                onClick={() => onChange({...settings, muted: !settings.muted})}
+                onPointerUp={releaseFocus}
+            >
+                {settings.muted ? "🔇" : "🔊"}
+            </button>
+            <input
+                type="range"
+                aria-label="Volume"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.volume}
+                disabled={settings.muted}
+                onChange={(event) => onChange({...settings, volume: Number(event.target.value)})}
+                onPointerUp={releaseFocus}
+            />
+            <label>
+                <input
+                    type="checkbox"
+                    checked={settings.musicEnabled}
+                    onChange={(event) => onChange({...settings, musicEnabled: event.target.checked})}
+                    onPointerUp={releaseFocus}
+                />
+                {" "}Music
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,159 @@
+import React, {useEffect, useState} from "react";
+import {CONFIG, PlayerSetup} from "../game/config";
+import {
+    assignBinding,
+    createDefaultBindings,
+    describeBinding,
+    detectGamepadBinding,
+    InputBinding,
+    isReservedKeyCode,
+    PlayerBindings,
+    TurnSide,
+} from "../input/bindings";
+import {describeGamepad, GamepadSnapshot, readGamepads, watchGamepadConnections} from "../input/gamepads";
+
+type ControlsScreenProps = {
+    players: readonly PlayerSetup[];
+    bindings: readonly PlayerBindings[];
+    onChange: (bindings: PlayerBindings[]) => void;
+    onClose: () => void;
+};
+
+type WaitingFor = { playerIndex: number; side: TurnSide };
+
+/**
+ * Ekran sterowania: klik w skręt, potem klawisz albo przycisk/gałka pada. ESC anuluje albo zamyka.
+ * Dopóki jest otwarty, przejmuje klawiaturę – gra nie dostaje żadnych klawiszy.
+ */
+export default function ControlsScreen({players, bindings, onChange, onClose}: ControlsScreenProps) {
+    const [waitingFor, setWaitingFor] = useState<WaitingFor | null>(null);
+    const [gamepads, setGamepads] = useState<GamepadSnapshot[]>(readGamepads);
+    const [errorText, setErrorText] = useState("");
+
+    useEffect(() => watchGamepadConnections(setGamepads), []);
+
+    // Klawisze łapiemy w fazie capture, żeby nie dotarły do gry
+    useEffect(() => {
+        const bind = (binding: InputBinding) => {
+            if (!waitingFor) return;
+            onChange(assignBinding(bindings, waitingFor.playerIndex, waitingFor.side, binding));
+            setWaitingFor(null);
+        };
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            event.stopPropagation();
+            if (!waitingFor) {
+                if (event.code === "Escape") onClose();
+                return;
+            }
+            event.preventDefault();
+            if (event.code === "Escape") {
+                setWaitingFor(null);
+                return;
+            }
+            if (isReservedKeyCode(CONFIG, event.code)) {
+                setErrorText(`${event.code} is used by the game – pick another key`);
+                return;
+            }
+            bind({kind: "key", code: event.code});
+        };
+
+        // Pad nie ma zdarzeń przycisków – czekając na przypisanie, odpytujemy go co klatkę
+        let previous = readGamepads();
+        let frame = waitingFor && requestAnimationFrame(function pollGamepads() {
+            const current = readGamepads();
+            const binding = detectGamepadBinding(CONFIG, previous, current);
+            previous = current;
+            if (binding) bind(binding);
+            else frame = requestAnimationFrame(pollGamepads);
+        });
+
+        // `keyup` przepuszczamy – gra musi zwolnić klawisze wciśnięte przed otwarciem ekranu
+        window.addEventListener("keydown", handleKeyDown, true);
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown, true);
+            if (frame) cancelAnimationFrame(frame);
+        };
+    }, [waitingFor, bindings, onChange, onClose]);
+
+    const buttonStyle: React.CSSProperties = {
+        background: "rgba(255, 255, 255, 0.06)",
+        color: CONFIG.COLORS.hudTextHex,
+        border: `1px solid ${CONFIG.COLORS.hudDimHex}`,
+        borderRadius: 4,
+        padding: "4px 8px",
+        minWidth: 120,
+        cursor: "pointer",
+        font: "inherit",
+    };
+    const cellStyle: React.CSSProperties = {padding: "4px 8px"};
+
+    const startWaiting = (playerIndex: number, side: TurnSide) => {
+        setErrorText("");
+        setWaitingFor({playerIndex, side});
+    };
+
+    return (
+        <div
+            role="dialog"
+            aria-label="Controls"
+            style={{
+                position: "fixed",
+                inset: 0,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                background: "rgba(11, 16, 32, 0.85)",
+                color: CONFIG.COLORS.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 14,
+            }}
+        >
+            <div style={{display: "flex", flexDirection: "column", gap: 10}}>
+                <h1 style={{fontSize: 22, margin: 0}}>Controls</h1>
+                <table style={{borderCollapse: "collapse"}}>
+                    <thead>
+                        <tr style={{color: CONFIG.COLORS.hudDimHex}}>
+                            <th style={{...cellStyle, textAlign: "left"}}>Player</th>
+                            <th style={cellStyle}>Turn left</th>
+                            <th style={cellStyle}>Turn right</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {players.map((player, playerIndex) => (
+                            <tr key={player.name}>
+                                <td style={{...cellStyle, color: player.colorHex, fontWeight: 600}}>{player.name}</td>
+                                {(["turnLeft", "turnRight"] as TurnSide[]).map((side) => {
+                                    const isWaiting = waitingFor?.playerIndex === playerIndex && waitingFor.side === side;
+                                    return (
+                                        <td key={side} style={cellStyle}>
+                                            <button
+                                                style={{...buttonStyle, borderColor: isWaiting ? player.colorHex : buttonStyle.borderColor}}
+                                                aria-label={`${player.name} ${side === "turnLeft" ? "turn left" : "turn right"}`}
+                                                onClick={() => startWaiting(playerIndex, side)}
+                                            >
+                                                {isWaiting ? "Press a key…" : describeBinding(bindings[playerIndex][side])}
+                                            </button>
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <div style={{color: CONFIG.COLORS.hudDimHex}}>
+                    {gamepads.length === 0
+                        ? "No gamepads – press a button on a pad to connect it"
+                        : gamepads.map((gamepad) => <div key={gamepad.index}>{describeGamepad(gamepad)}</div>)}
+                </div>
+                {errorText && <div style={{color: CONFIG.COLORS.powerUpOpponentsHex}}>{errorText}</div>}
+
+                <div style={{display: "flex", gap: 8}}>
+                    <button style={buttonStyle} onClick={() => onChange(createDefaultBindings(CONFIG))}>Reset to defaults</button>
+                    <button style={buttonStyle} onClick={onClose}>Done</button>
+                </div>
+            </div>
+        </div>
+    );
+}
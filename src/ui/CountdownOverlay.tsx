@@ -0,0 +1,32 @@
+import React from "react";
+import {GameConfig} from "../game/config";
+
+type CountdownOverlayProps = {
+    value: number;
+    colors: GameConfig["COLORS"];
+};
+
+/** Duża liczba 3-2-1 na środku planszy; czytnik ekranu dostaje odliczanie z regionu live w HUD-zie. */
+export default function CountdownOverlay({value, colors}: CountdownOverlayProps) {
+    return (
+        <div
+            aria-hidden="true"
+            style={{
+                position: "fixed",
+                inset: 0,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                color: colors.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 120,
+                fontWeight: 700,
+                textShadow: `0 0 12px ${colors.backgroundHex}`,
+                userSelect: "none",
+                pointerEvents: "none",
+            }}
+        >
+            {value}
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+import React, {useEffect, useState} from "react";
+import {CONFIG, GameConfig} from "../game/config";
+
+/** Wpis kill feedu. `isPersistent` – linia podsumowania rundy, która nie blednie. */
+export type KillFeedEntry = {
+    id: number;
+    text: string;
+    colorHex: string;
+    isPersistent: boolean;
+};
+
+type KillFeedProps = {
+    title: string | null; // np. „Round 3” – podsumowanie zakończonej rundy
+    entries: KillFeedEntry[];
+    colors: GameConfig["COLORS"]; // z wysokim kontrastem, gdy włączony
+    reducedMotion: boolean; // wpisy znikają bez wygaszania
+};
+
+const FADE_SECONDS = 0.6;
+
+function KillFeedLine({entry, reducedMotion}: { entry: KillFeedEntry; reducedMotion: boolean }) {
+    const [isFading, setFading] = useState(false);
+
+    useEffect(() => {
+        if (entry.isPersistent) return;
+        const timer = window.setTimeout(() => setFading(true), (CONFIG.KILL_FEED.entrySeconds - FADE_SECONDS) * 1000);
+        return () => window.clearTimeout(timer);
+    }, [entry.isPersistent]);
+
+
+    return (
+        <div style={reducedMotion ? undefined : {opacity: isFading ? 0 : 1, transition: `opacity ${FADE_SECONDS}s`}}>
+            <span style={{color: entry.colorHex}}>●</span> {entry.text}
+        </div>
+    );
+}
+
+/** Kto zginął i od czego – w prawym górnym rogu, pod dźwiękiem; po rundzie zostaje jej podsumowanie. */
+export default function KillFeed({title, entries, colors, reducedMotion}: KillFeedProps) {
+    if (!title && entries.length === 0) return null;
+    return (
+        <div
+            aria-label="Kill feed"
+            style={{
+                position: "fixed",
+                right: 12,
+                top: 48,
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "flex-end",
+                gap: 2,
+                color: colors.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 13,
+                userSelect: "none",
+                pointerEvents: "none",
+            }}
+        >
+            {title && <div style={{color: colors.hudDimHex}}>{title}</div>}
+            {entries.map((entry) => <KillFeedLine key={entry.id} entry={entry} reducedMotion={reducedMotion}/>)}
+        </div>
+    );
+}
@@ -0,0 +1,146 @@
+import React, {useState} from "react";
+import {CONFIG} from "../game/config";
+import {GAME_MODE_IDS, GAME_MODES} from "../game/gameModes";
+import {GameModeId} from "../game/types";
+import {DEFAULT_SERVER_URL, NetMember} from "../net/protocol";
+
+export type LobbyStatus = {
+    connection: "disconnected" | "connecting" | "connected";
+    roomCode: string | null;
+    clientId: string | null;
+    isHost: boolean;
+    members: NetMember[];
+    errorText: string;
+    gameMode: GameModeId; // tryb gry hosta na następny mecz
+};
+
+type LobbyProps = {
+    status: LobbyStatus;
+    onConnect: (url: string) => void;
+    onCreateRoom: (name: string) => void;
+    onJoinRoom: (roomCode: string, name: string) => void;
+    onStartMatch: () => void;
+    onGameModeChange: (gameMode: GameModeId) => void;
+    onLeave: () => void;
+    onClose: () => void;
+};
+
+/** Lobby gry sieciowej: połączenie z serwerem, tworzenie/dołączanie po kodzie, lista graczy z pingiem i wybór trybu gry (host). */
+export default function Lobby({status, onConnect, onCreateRoom, onJoinRoom, onStartMatch, onGameModeChange, onLeave, onClose}: LobbyProps) {
+    const [serverUrl, setServerUrl] = useState(DEFAULT_SERVER_URL);
+    const [name, setName] = useState("Player");
+    const [roomCode, setRoomCode] = useState("");
+
+    const fieldStyle: React.CSSProperties = {
+        background: "rgba(255, 255, 255, 0.06)",
+        color: CONFIG.COLORS.hudTextHex,
+        border: `1px solid ${CONFIG.COLORS.hudDimHex}`,
+        borderRadius: 4,
+        padding: "4px 8px",
+        font: "inherit",
+    };
+    const buttonStyle: React.CSSProperties = {...fieldStyle, cursor: "pointer"};
+    const canStart = status.isHost && status.members.length >= CONFIG.PLAYERS.minCount;
+
+    return (
+        <div
+            role="dialog"
+            aria-label="Online lobby"
+            onKeyDown={(event) => event.stopPropagation()}
+            style={{
+                position: "fixed",
+                inset: 0,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                background: "rgba(11, 16, 32, 0.85)",
+                color: CONFIG.COLORS.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 14,
+            }}
+        >
+            <div style={{display: "flex", flexDirection: "column", gap: 10, minWidth: 320}}>
+                <h1 style={{fontSize: 22, margin: 0}}>Online play</h1>
+
+                {status.connection !== "connected" && (
+                    <>
+                        <label>
+                            Server{" "}
+                            <input style={fieldStyle} value={serverUrl} onChange={(e) => setServerUrl(e.target.value)}/>
+                        </label>
+                        <button
+                            style={buttonStyle}
+                            disabled={status.connection === "connecting"}
+                            onClick={() => onConnect(serverUrl)}
+                        >
+                            {status.connection === "connecting" ? "Connecting…" : "Connect"}
+                        </button>
+                    </>
+                )}
+
+                {status.connection === "connected" && !status.roomCode && (
+                    <>
+                        <label>
+                            Name <input style={fieldStyle} value={name} maxLength={24} onChange={(e) => setName(e.target.value)}/>
+                        </label>
+                        <button style={buttonStyle} onClick={() => onCreateRoom(name)}>Create room</button>
+                        <div style={{display: "flex", gap: 8}}>
+                            <input
+                                style={{...fieldStyle, width: 80, textTransform: "uppercase"}}
+                                aria-label="Room code"
+                                placeholder="CODE"
+                                value={roomCode}
+                                onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                            />
+                            <button style={buttonStyle} onClick={() => onJoinRoom(roomCode, name)}>Join room</button>
+                        </div>
+                    </>
+                )}
+
+                {status.roomCode && (
+                    <>
+                        <div>
+                            Room code: <strong style={{letterSpacing: 2}}>{status.roomCode}</strong>
+                        </div>
+                        <ul style={{margin: 0, paddingLeft: 18}}>
+                            {status.members.map((member, index) => (
+                                <li key={member.clientId} style={{color: CONFIG.PLAYERS.roster[index]?.colorHex}}>
+                                    {member.name}
+                                    {member.isHost ? " (host)" : ""}
+                                    {member.clientId === status.clientId ? " (you)" : ""}
+                                    <span style={{color: CONFIG.COLORS.hudDimHex}}>
+                                        {" "}• {member.latencyMs === null ? "…" : `${member.latencyMs} ms`}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                        {status.isHost && (
+                            <label>
+                                Game mode{" "}
+                                <select
+                                    style={fieldStyle}
+                                    value={status.gameMode}
+                                    onChange={(e) => onGameModeChange(e.target.value as GameModeId)}
+                                >
+                                    {GAME_MODE_IDS.map((id) => <option key={id} value={id}>{GAME_MODES[id].name}</option>)}
+                                </select>
+                                <div style={{color: CONFIG.COLORS.hudDimHex, fontSize: 12}}>{GAME_MODES[status.gameMode].description}</div>
+                            </label>
+                        )}
+                        {status.isHost ? (
+                            <button style={buttonStyle} disabled={!canStart} onClick={onStartMatch}>
+                                {canStart ? "Start match" : "Waiting for players…"}
+                            </button>
+                        ) : (
+                            <div style={{color: CONFIG.COLORS.hudDimHex}}>Waiting for the host to start…</div>
+                        )}
+                        <button style={buttonStyle} onClick={onLeave}>Leave room</button>
+                    </>
+                )}
+
+                {status.errorText && <div style={{color: CONFIG.COLORS.powerUpOpponentsHex}}>{status.errorText}</div>}
+                <button style={buttonStyle} onClick={onClose}>Back to local game</button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,378 @@
+import React, {useEffect, useMemo, useRef, useState} from "react";
+import {CONFIG} from "../game/config";
+import {
+    bitmapFromImageData,
+    createEmptyMap,
+    deleteMapFromLibrary,
+    encodeBitmapRuns,
+    findObstacleAt,
+    findSpawnAt,
+    loadMapLibrary,
+    parseArenaMap,
+    saveMapToLibrary,
+    serializeArenaMap,
+} from "../game/maps";
+import {drawObstacles} from "../game/render";
+import {ArenaMap, MapObstacle, Vector2D} from "../game/types";
+import {downloadTextFile} from "./download";
+
+type MapEditorProps = {
+    map: ArenaMap;
+    onPlay: (map: ArenaMap | null) => void;
+    onClose: () => void;
+};
+
+type Tool = "rect" | "circle" | "wall" | "spawn" | "erase";
+
+const TOOLS: readonly { tool: Tool; label: string }[] = [
+    {tool: "rect", label: "Rectangle"},
+    {tool: "circle", label: "Circle"},
+    {tool: "wall", label: "Wall"},
+    {tool: "spawn", label: "Spawn point"},
+    {tool: "erase", label: "Erase"},
+];
+
+const MIN_SHAPE_PIXELS = 3;          // krótsze przeciągnięcia to przypadkowe kliknięcia
+const WALL_POINT_SPACING_PIXELS = 4; // gęstość punktów ściany rysowanej odręcznie
+const SPAWN_REACH_PIXELS = 12;       // promień trafienia w miejsce startu gumką
+const SPAWN_ARROW_PIXELS = 20;
+
+type Drag = {
+    start: Vector2D;
+    current: Vector2D;
+    points: Vector2D[];
+};
+
+/** Kształt z przeciągnięcia myszą (albo `null`, gdy za mały). */
+function obstacleFromDrag(tool: Tool, drag: Drag, wallThickness: number): MapObstacle | null {
+    const {start, current} = drag;
+    switch (tool) {
+        case "rect": {
+            const width = Math.abs(current.x - start.x);
+            const height = Math.abs(current.y - start.y);
+            if (width < MIN_SHAPE_PIXELS || height < MIN_SHAPE_PIXELS) return null;
+            return {kind: "rect", x: Math.min(start.x, current.x), y: Math.min(start.y, current.y), width, height};
+        }
+        case "circle": {
+            const radius = Math.round(Math.hypot(current.x - start.x, current.y - start.y));
+            return radius < MIN_SHAPE_PIXELS ? null : {kind: "circle", x: start.x, y: start.y, radius};
+        }
+        case "wall":
+            return {kind: "wall", points: drag.points, thickness: wallThickness};
+        default:
+            return null;
+    }
+}
+
+function spawnAngle(drag: Drag): number {
+    const dx = drag.current.x - drag.start.x;
+    const dy = drag.current.y - drag.start.y;
+    return Math.hypot(dx, dy) < MIN_SHAPE_PIXELS ? 0 : Math.atan2(dy, dx);
+}
+
+function drawSpawnArrow(ctx: CanvasRenderingContext2D, x: number, y: number, angleRadians: number): void {
+    ctx.strokeStyle = CONFIG.COLORS.hudTextHex;
+    ctx.fillStyle = CONFIG.COLORS.hudTextHex;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(x, y, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + Math.cos(angleRadians) * SPAWN_ARROW_PIXELS, y + Math.sin(angleRadians) * SPAWN_ARROW_PIXELS);
+    ctx.stroke();
+}
+
+/** Obrazek PNG przeskalowany do rozmiaru mapy → przeszkoda-bitmapa (ciemne piksele to ściany). */
+async function obstacleFromImage(file: File, map: ArenaMap): Promise<MapObstacle> {
+    const image = await createImageBitmap(file);
+    const canvas = document.createElement("canvas");
+    canvas.width = map.widthPixels;
+    canvas.height = map.heightPixels;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.drawImage(image, 0, 0, map.widthPixels, map.heightPixels);
+    const {data} = ctx.getImageData(0, 0, map.widthPixels, map.heightPixels);
+    return {kind: "bitmap", runs: encodeBitmapRuns(bitmapFromImageData(data, map.widthPixels, map.heightPixels))};
+}
+
+/**
+ * Edytor map: prostokąty, koła, ściany rysowane odręcznie i miejsca startu (przeciągnięcie ustawia kierunek).
+ * Mapy zapisuje w bibliotece w localStorage, eksportuje i importuje jako JSON; PNG staje się przeszkodą-bitmapą.
+ * Dopóki jest otwarty, przejmuje klawiaturę – gra nie dostaje żadnych klawiszy.
+ */
+export default function MapEditor({map, onPlay, onClose}: MapEditorProps) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+    const [draft, setDraft] = useState<ArenaMap>(map);
+    const [tool, setTool] = useState<Tool>("rect");
+    const [wallThickness, setWallThickness] = useState(8);
+    const [drag, setDrag] = useState<Drag | null>(null);
+    const [library, setLibrary] = useState<ArenaMap[]>(() => loadMapLibrary());
+    const [selectedName, setSelectedName] = useState("");
+    const [messageText, setMessageText] = useState("");
+
+    // Wciśnięcia łapiemy w fazie capture, żeby nie dotarły do gry (ESC zamyka, pola tekstowe dostają resztę).
+    // `keyup` przepuszczamy – gra musi zwolnić klawisze trzymane przy otwieraniu edytora.
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            event.stopPropagation();
+            if (event.code === "Escape") onClose();
+        };
+        window.addEventListener("keydown", handleKeyDown, true);
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown, true);
+        };
+    }, [onClose]);
+
+    // Przeszkody rasteryzujemy tylko po zmianie kształtów – przeciąganie rysuje sam podgląd
+    const obstacleLayer = useMemo(() => {
+        const layer = document.createElement("canvas");
+        layer.width = draft.widthPixels;
+        layer.height = draft.heightPixels;
+        const ctx = layer.getContext("2d");
+        if (ctx) {
+            ctx.translate(0.5, 0.5); // piksel (x, y) maski ma środek w (x, y)
+            drawObstacles(ctx, CONFIG, draft);
+        }
+        return layer;
+    }, [draft]);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext("2d");
+        if (!ctx) return;
+        ctx.fillStyle = CONFIG.COLORS.backgroundHex;
+        ctx.fillRect(0, 0, draft.widthPixels, draft.heightPixels);
+        ctx.drawImage(obstacleLayer, 0, 0);
+        ctx.strokeStyle = CONFIG.COLORS.borderHex;
+        ctx.lineWidth = CONFIG.BORDER.thicknessPixels;
+        ctx.strokeRect(0, 0, draft.widthPixels, draft.heightPixels);
+        draft.spawns.forEach((spawn) => drawSpawnArrow(ctx, spawn.x, spawn.y, spawn.angleRadians));
+        if (!drag) return;
+
+        if (tool === "spawn") {
+            drawSpawnArrow(ctx, drag.start.x, drag.start.y, spawnAngle(drag));
+            return;
+        }
+        const preview = obstacleFromDrag(tool, drag, wallThickness);
+        if (!preview) return;
+        ctx.save();
+        ctx.translate(0.5, 0.5);
+        drawObstacles(ctx, CONFIG, {...draft, obstacles: [preview]});
+        ctx.restore();
+    }, [draft, drag, obstacleLayer, tool, wallThickness]);
+
+    const toMapPoint = (event: React.PointerEvent<HTMLCanvasElement>): Vector2D => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return {
+            x: Math.round(((event.clientX - rect.left) / rect.width) * draft.widthPixels),
+            y: Math.round(((event.clientY - rect.top) / rect.height) * draft.heightPixels),
+        };
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const point = toMapPoint(event);
+        if (tool === "erase") {
+            const spawnIndex = findSpawnAt(draft, point.x, point.y, SPAWN_REACH_PIXELS);
+            if (spawnIndex >= 0) {
+                setDraft({...draft, spawns: draft.spawns.filter((_, index) => index !== spawnIndex)});
+                return;
+            }
+            const obstacleIndex = findObstacleAt(draft, point.x, point.y);
+            if (obstacleIndex >= 0) setDraft({...draft, obstacles: draft.obstacles.filter((_, index) => index !== obstacleIndex)});
+            return;
+        }
+        event.currentTarget.setPointerCapture(event.pointerId);
+        setDrag({start: point, current: point, points: [point]});
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!drag) return;
+        const point = toMapPoint(event);
+        const last = drag.points[drag.points.length - 1];
+        const isFarEnough = Math.hypot(point.x - last.x, point.y - last.y) >= WALL_POINT_SPACING_PIXELS;
+        setDrag({...drag, current: point, points: isFarEnough ? [...drag.points, point] : drag.points});
+    };
+
+    const handlePointerUp = () => {
+        if (!drag) return;
+        setDrag(null);
+        if (tool === "spawn") {
+            setDraft({...draft, spawns: [...draft.spawns, {x: drag.start.x, y: drag.start.y, angleRadians: spawnAngle(drag)}]});
+            return;
+        }
+        const obstacle = obstacleFromDrag(tool, drag, wallThickness);
+        if (obstacle) setDraft({...draft, obstacles: [...draft.obstacles, obstacle]});
+    };
+
+    const saveToLibrary = () => {
+        const name = draft.name.trim();
+        if (!name) {
+            setMessageText("Give the map a name first");
+            return;
+        }
+        setLibrary(saveMapToLibrary({...draft, name}));
+        setSelectedName(name);
+        setMessageText(`Saved “${name}”`);
+    };
+
+    const importFile = async (file: File) => {
+        try {
+            if (file.type === "image/png" || file.name.toLowerCase().endsWith(".png")) {
+                const bitmap = await obstacleFromImage(file, draft);
+                setDraft({...draft, obstacles: [...draft.obstacles.filter((obstacle) => obstacle.kind !== "bitmap"), bitmap]});
+                setMessageText("Image imported – dark pixels are walls");
+                return;
+            }
+            setDraft(parseArenaMap(await file.text()));
+            setMessageText("");
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            setMessageText(`Could not import: ${message}`);
+        }
+    };
+
+    const fieldStyle: React.CSSProperties = {
+        background: "rgba(255, 255, 255, 0.06)",
+        color: CONFIG.COLORS.hudTextHex,
+        border: `1px solid ${CONFIG.COLORS.hudDimHex}`,
+        borderRadius: 4,
+        padding: "4px 8px",
+        font: "inherit",
+    };
+    const buttonStyle: React.CSSProperties = {...fieldStyle, cursor: "pointer"};
+    const rowStyle: React.CSSProperties = {display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8};
+
+    return (
+        <div
+            role="dialog"
+            aria-label="Map editor"
+            style={{
+                position: "fixed",
+                inset: 0,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                background: "rgba(11, 16, 32, 0.92)",
+                color: CONFIG.COLORS.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 14,
+                overflowY: "auto",
+            }}
+        >
+            <div style={{display: "flex", flexDirection: "column", gap: 10, width: "min(960px, 96vw)", maxHeight: "100%", padding: 12}}>
+                <h1 style={{fontSize: 22, margin: 0}}>Map editor</h1>
+
+                <div style={rowStyle}>
+                    {TOOLS.map(({tool: option, label}) => (
+                        <button
+                            key={option}
+                            style={{...buttonStyle, borderColor: option === tool ? CONFIG.COLORS.hudTextHex : CONFIG.COLORS.hudDimHex}}
+                            aria-pressed={option === tool}
+                            onClick={() => setTool(option)}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                    <label>
+                        Wall thickness{" "}
+                        <input
+                            type="number"
+                            aria-label="Wall thickness"
+                            style={{...fieldStyle, width: 60}}
+                            min={2}
+                            max={60}
+                            value={wallThickness}
+                            onChange={(event) => setWallThickness(Math.max(2, Math.min(60, Number(event.target.value) || 2)))}
+                        />
+                    </label>
+                    <button style={buttonStyle} onClick={() => setDraft(createEmptyMap(draft.name, draft))}>Clear</button>
+                </div>
+
+                <canvas
+                    ref={canvasRef}
+                    width={draft.widthPixels}
+                    height={draft.heightPixels}
+                    style={{width: "100%", cursor: tool === "erase" ? "not-allowed" : "crosshair", touchAction: "none"}}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={() => setDrag(null)}
+                />
+                <div style={{color: CONFIG.COLORS.hudDimHex}}>
+                    {draft.obstacles.length} obstacles • {draft.spawns.length} spawn points (other players start at random)
+                    {" "}• drag a spawn point to set its heading
+                </div>
+
+                <div style={rowStyle}>
+                    <label>
+                        Name{" "}
+                        <input
+                            aria-label="Map name"
+                            style={fieldStyle}
+                            value={draft.name}
+                            onChange={(event) => setDraft({...draft, name: event.target.value})}
+                        />
+                    </label>
+                    <button style={buttonStyle} onClick={saveToLibrary}>Save</button>
+                    <select
+                        style={fieldStyle}
+                        aria-label="Saved maps"
+                        value={selectedName}
+                        onChange={(event) => setSelectedName(event.target.value)}
+                    >
+                        <option value="">Saved maps…</option>
+                        {library.map((saved) => <option key={saved.name} value={saved.name}>{saved.name}</option>)}
+                    </select>
+                    <button
+                        style={buttonStyle}
+                        disabled={!selectedName}
+                        onClick={() => {
+                            const saved = library.find((entry) => entry.name === selectedName);
+                            if (saved) setDraft(saved);
+                        }}
+                    >
+                        Load
+                    </button>
+                    <button
+                        style={buttonStyle}
+                        disabled={!selectedName}
+                        onClick={() => {
+                            setLibrary(deleteMapFromLibrary(selectedName));
+                            setSelectedName("");
+                        }}
+                    >
+                        Delete
+                    </button>
+                    <button
+                        style={buttonStyle}
+                        onClick={() => downloadTextFile(`kurve-map-${draft.name.trim().replace(/\W+/g, "-") || "untitled"}.json`, serializeArenaMap(draft))}
+                    >
+                        Export
+                    </button>
+                    <button style={buttonStyle} onClick={() => fileInputRef.current?.click()}>Import JSON/PNG</button>
+                </div>
+
+                {messageText && <div role="status">{messageText}</div>}
+
+                <div style={rowStyle}>
+                    <button style={buttonStyle} onClick={() => onPlay({...draft, name: draft.name.trim() || "Untitled"})}>Play this map</button>
+                    <button style={buttonStyle} onClick={() => onPlay(null)}>Play without a map</button>
+                    <button style={buttonStyle} onClick={onClose}>Close</button>
+                </div>
+            </div>
+
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json,image/png,.png"
+                style={{display: "none"}}
+                onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) void importFile(file);
+                }}
+            />
+        </div>
+    );
+}
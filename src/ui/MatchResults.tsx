@@ -0,0 +1,79 @@
+import React from "react";
+import {CONFIG} from "../game/config";
+import {describeMatchWinner} from "../game/announcements";
+import {describeDeath} from "../game/killFeed";
+import {MatchState} from "../game/match";
+
+type MatchResultsProps = {
+    match: MatchState;
+    playerColors: string[];
+};
+
+/** Ekran końca meczu: zwycięzca, suma punktów, rozbicie na rundy i przebieg każdej rundy. */
+export default function MatchResults({match, playerColors}: MatchResultsProps) {
+    const winnerIndex = match.winnerIndex;
+    const cellStyle: React.CSSProperties = {padding: "4px 10px", textAlign: "right"};
+
+    return (
+        <div
+            role="dialog"
+            aria-label="Match results"
+            style={{
+                position: "fixed",
+                inset: 0,
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                justifyContent: "center",
+                background: "rgba(11, 16, 32, 0.85)",
+                color: CONFIG.COLORS.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 14,
+                userSelect: "none",
+            }}
+        >
+            {winnerIndex !== null && (
+                <h1 style={{fontSize: 28, margin: "0 0 16px", color: playerColors[winnerIndex]}}>
+                    {describeMatchWinner(CONFIG, match)}
+                </h1>
+            )}
+            <table style={{borderCollapse: "collapse"}}>
+                <thead>
+                    <tr style={{color: CONFIG.COLORS.hudDimHex}}>
+                        <th style={{...cellStyle, textAlign: "left"}}>Player</th>
+                        {match.rounds.map((round) => (
+                            <th key={round.roundNumber} style={cellStyle}>R{round.roundNumber}</th>
+                        ))}
+                        <th style={cellStyle}>Total</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {match.playerNames.map((name, playerIndex) => (
+                        <tr key={name}>
+                            <td style={{...cellStyle, textAlign: "left", color: playerColors[playerIndex], fontWeight: 600}}>
+                                {name}
+                            </td>
+                            {match.rounds.map((round) => (
+                                <td key={round.roundNumber} style={cellStyle}>
+                                    {round.pointsByPlayer[playerIndex]}
+                                </td>
+                            ))}
+                            <td style={{...cellStyle, fontWeight: 600}}>{match.totals[playerIndex]}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div style={{marginTop: 16, maxHeight: "30vh", overflowY: "auto", lineHeight: 1.4}}>
+                {match.rounds.map((round) => (
+                    <div key={round.roundNumber}>
+                        <span style={{color: CONFIG.COLORS.hudDimHex}}>R{round.roundNumber}:</span>{" "}
+                        {round.deaths.length > 0
+                            ? round.deaths.map((report) => describeDeath(match.playerNames, report)).join(" • ")
+                            : "Nobody crashed"}
+                    </div>
+                ))}
+            </div>
+            <div style={{marginTop: 16, color: CONFIG.COLORS.hudDimHex}}>Press R for a new match</div>
+        </div>
+    );
+}
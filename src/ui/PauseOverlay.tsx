@@ -0,0 +1,51 @@
+import React from "react";
+import {GameConfig} from "../game/config";
+
+type PauseOverlayProps = {
+    colors: GameConfig["COLORS"];
+    onResume: () => void;
+    onRestart: () => void;
+    onSettings: () => void;
+    onQuit: () => void;
+};
+
+/** Menu pauzy w trakcie rundy. Klawisze działają dalej: SPACE/ESC wznawia, R restartuje, S otwiera ustawienia. */
+export default function PauseOverlay({colors, onResume, onRestart, onSettings, onQuit}: PauseOverlayProps) {
+    const buttonStyle: React.CSSProperties = {
+        background: "rgba(255, 255, 255, 0.06)",
+        color: colors.hudTextHex,
+        border: `1px solid ${colors.hudDimHex}`,
+        borderRadius: 4,
+        padding: "6px 12px",
+        minWidth: 200,
+        cursor: "pointer",
+        font: "inherit",
+    };
+
+    return (
+        <div
+            role="dialog"
+            aria-label="Paused"
+            style={{
+                position: "fixed",
+                inset: 0,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                background: "rgba(11, 16, 32, 0.6)",
+                color: colors.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 14,
+                userSelect: "none",
+            }}
+        >
+            <div style={{display: "flex", flexDirection: "column", alignItems: "center", gap: 8}}>
+                <h1 style={{fontSize: 28, margin: "0 0 8px"}}>Paused</h1>
+                <button style={buttonStyle} onClick={onResume} autoFocus>Resume (SPACE)</button>
+                <button style={buttonStyle} onClick={onRestart}>Restart round (R)</button>
+                <button style={buttonStyle} onClick={onSettings}>Settings (S)</button>
+                <button style={buttonStyle} onClick={onQuit}>Quit match</button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+import React from "react";
+import {CONFIG} from "../game/config";
+
+export type ReplayStatus = {
+    timeSeconds: number;
+    durationSeconds: number;
+    isPaused: boolean;
+    speed: number;
+};
+
+type ReplayControlsProps = {
+    status: ReplayStatus;
+    onTogglePause: () => void;
+    onSpeedChange: (speed: number) => void;
+    onSeek: (timeSeconds: number) => void;
+    onClose: () => void;
+};
+
+/** Pasek sterowania powtórką: pauza, prędkość, przewijanie i wyjście. */
+export default function ReplayControls({status, onTogglePause, onSpeedChange, onSeek, onClose}: ReplayControlsProps) {
+    const buttonStyle: React.CSSProperties = {
+        background: "transparent",
+        color: CONFIG.COLORS.hudTextHex,
+        border: `1px solid ${CONFIG.COLORS.hudDimHex}`,
+        borderRadius: 4,
+        padding: "2px 8px",
+        cursor: "pointer",
+        font: "inherit",
+    };
+
+    return (
+        <div
+            role="toolbar"
+            aria-label="Replay controls"
+            style={{
+                position: "fixed",
+                left: "50%",
+                bottom: 14,
+                transform: "translateX(-50%)",
+                display: "flex",
+                alignItems: "center",
+                gap: 8,
+                padding: "6px 10px",
+                background: "rgba(11, 16, 32, 0.85)",
+                color: CONFIG.COLORS.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 13,
+                userSelect: "none",
+            }}
+        >
+            <span style={{color: CONFIG.COLORS.hudDimHex}}>Replay</span>
+            <button style={buttonStyle} onClick={onTogglePause}>{status.isPaused ? "Play" : "Pause"}</button>
+            <input
+                type="range"
+                aria-label="Replay position"
+                min={0}
+                max={status.durationSeconds}
+                step={0.01}
+                value={status.timeSeconds}
+                onChange={(event) => onSeek(Number(event.target.value))}
+                style={{width: 260}}
+            />
+            <span>{status.timeSeconds.toFixed(1)}s / {status.durationSeconds.toFixed(1)}s</span>
+            <select
+                aria-label="Playback speed"
+                value={status.speed}
+                onChange={(event) => onSpeedChange(Number(event.target.value))}
+                style={{...buttonStyle, padding: "2px 4px"}}
+            >
+                {CONFIG.REPLAY.playbackSpeeds.map((speed) => (
+                    <option key={speed} value={speed} style={{color: "initial"}}>{speed}×</option>
+                ))}
+            </select>
+            <button style={buttonStyle} onClick={onClose}>Close</button>
+        </div>
+    );
+}
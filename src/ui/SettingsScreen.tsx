@@ -0,0 +1,162 @@
+import React, {useEffect, useState} from "react";
+import {CONFIG} from "../game/config";
+import {
+    applyPreset,
+    findMatchingPreset,
+    GameSettings,
+    SETTING_FIELDS,
+    SettingKey,
+    SETTINGS_PRESETS,
+    settingsToQuery,
+    validateSettings,
+} from "../game/settings";
+
+type SettingsScreenProps = {
+    settings: GameSettings;
+    defaults: GameSettings;
+    onApply: (settings: GameSettings) => void;
+    onClose: () => void;
+};
+
+const CUSTOM_PRESET = "custom";
+
+/** Ekran ustawień: zestawy, pola z walidacją zakresów i link do udostępnienia. Zastosowanie zaczyna nowy mecz. */
+export default function SettingsScreen({settings, defaults, onApply, onClose}: SettingsScreenProps) {
+    const [draft, setDraft] = useState<Record<SettingKey, unknown>>(settings);
+    const [linkText, setLinkText] = useState("");
+
+    // Dopóki ekran jest otwarty, wciśnięcia nie docierają do gry (ESC zamyka); `keyup` przepuszczamy, żeby gra zwolniła trzymane klawisze
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            event.stopPropagation();
+            if (event.code === "Escape") onClose();
+        };
+        window.addEventListener("keydown", handleKeyDown, true);
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown, true);
+        };
+    }, [onClose]);
+    const {settings: validated, errors} = validateSettings(draft, settings);
+    const hasErrors = Object.keys(errors).length > 0;
+    const presetName = hasErrors ? CUSTOM_PRESET : findMatchingPreset(defaults, validated) ?? CUSTOM_PRESET;
+
+    const setValue = (key: SettingKey, value: unknown) => {
+        setDraft((current) => ({...current, [key]: value}));
+        setLinkText("");
+    };
+
+    const copyLink = () => {
+        const query = settingsToQuery(validated, defaults);
+        const link = `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ""}`;
+        navigator.clipboard?.writeText(link).catch(() => undefined);
+        setLinkText(link);
+    };
+
+    const fieldStyle: React.CSSProperties = {
+        background: "rgba(255, 255, 255, 0.06)",
+        color: CONFIG.COLORS.hudTextHex,
+        border: `1px solid ${CONFIG.COLORS.hudDimHex}`,
+        borderRadius: 4,
+        padding: "4px 8px",
+        font: "inherit",
+    };
+    const buttonStyle: React.CSSProperties = {...fieldStyle, cursor: "pointer"};
+    const cellStyle: React.CSSProperties = {padding: "3px 8px"};
+
+    const renderInput = (field: (typeof SETTING_FIELDS)[number]) => {
+        const value = draft[field.key];
+        switch (field.kind) {
+            case "number":
+                return (
+                    <input
+                        type="number"
+                        aria-label={field.label}
+                        style={{...fieldStyle, width: 90}}
+                        min={field.min}
+                        max={field.max}
+                        step={field.step}
+                        value={typeof value === "number" && Number.isFinite(value) ? value : ""}
+                        onChange={(event) => setValue(field.key, event.target.value === "" ? NaN : Number(event.target.value))}
+                    />
+                );
+            case "boolean":
+                return <input type="checkbox" aria-label={field.label} checked={value === true} onChange={(event) => setValue(field.key, event.target.checked)}/>;
+            case "color":
+                return <input type="color" aria-label={field.label} value={String(value)} onChange={(event) => setValue(field.key, event.target.value)}/>;
+            case "choice":
+                return (
+                    <select style={fieldStyle} aria-label={field.label} value={String(value)} onChange={(event) => setValue(field.key, event.target.value)}>
+                        {field.options.map((option) => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                );
+        }
+    };
+
+    return (
+        <div
+            role="dialog"
+            aria-label="Settings"
+            style={{
+                position: "fixed",
+                inset: 0,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                background: "rgba(11, 16, 32, 0.85)",
+                color: CONFIG.COLORS.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 14,
+                overflowY: "auto",
+            }}
+        >
+            <div style={{display: "flex", flexDirection: "column", gap: 10, maxHeight: "100%", padding: 12}}>
+                <h1 style={{fontSize: 22, margin: 0}}>Settings</h1>
+                <label>
+                    Preset{" "}
+                    <select
+                        style={fieldStyle}
+                        value={presetName}
+                        onChange={(event) => {
+                            if (event.target.value === CUSTOM_PRESET) return;
+                            setDraft(applyPreset(defaults, event.target.value));
+                            setLinkText("");
+                        }}
+                    >
+                        {Object.keys(SETTINGS_PRESETS).map((name) => <option key={name} value={name}>{name}</option>)}
+                        <option value={CUSTOM_PRESET} disabled>custom</option>
+                    </select>
+                </label>
+
+                <table style={{borderCollapse: "collapse"}}>
+                    <tbody>
+                        {SETTING_FIELDS.map((field) => (
+                            <tr key={field.key}>
+                                <td style={{...cellStyle, color: CONFIG.COLORS.hudDimHex}}>{field.label}</td>
+                                <td style={cellStyle}>{renderInput(field)}</td>
+                                <td style={{...cellStyle, color: CONFIG.COLORS.powerUpOpponentsHex}}>{errors[field.key] ?? ""}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {linkText && (
+                    <input
+                        readOnly
+                        aria-label="Settings link"
+                        style={{...fieldStyle, width: "100%"}}
+                        value={linkText}
+                        onFocus={(event) => event.target.select()}
+                    />
+                )}
+
+                <div style={{display: "flex", gap: 8}}>
+                    <button style={buttonStyle} disabled={hasErrors} onClick={() => onApply(validated)}>
+                        Apply and start a new match
+                    </button>
+                    <button style={buttonStyle} disabled={hasErrors} onClick={copyLink}>Copy link</button>
+                    <button style={buttonStyle} onClick={onClose}>Cancel</button>
+                </div>
+            </div>
+        </div>
+    );
+}
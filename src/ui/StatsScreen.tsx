@@ -0,0 +1,275 @@
+import React, {useEffect, useRef, useState} from "react";
+import {CONFIG} from "../game/config";
+import {DeathCauseKind, GameHistory, parseHistoryExport, serializeHistoryExport} from "../game/history";
+import {
+    assignSeat,
+    createProfileId,
+    MAX_PROFILE_NAME_LENGTH,
+    PlayerProfile,
+    SeatAssignment,
+    validateProfile,
+} from "../game/profiles";
+import {computeHeadToHead, computeProfileStats} from "../game/stats";
+import {loadHistory, replaceHistory} from "../storage/historyDb";
+import {downloadTextFile} from "./download";
+
+type StatsScreenProps = {
+    profiles: PlayerProfile[];
+    seats: SeatAssignment;
+    seatCount: number; // liczba miejsc w bieżącym składzie
+    onChange: (profiles: PlayerProfile[], seats: SeatAssignment) => void;
+    onClose: () => void;
+};
+
+type ProfileForm = {
+    editedId: string | null; // null – nowy profil
+    name: string;
+    colorHex: string;
+};
+
+const DEATH_CAUSE_LABELS: Record<DeathCauseKind, string> = {
+    border: "wall",
+    trail: "opponent's trail",
+    ownTrail: "own trail",
+    obstacle: "obstacle",
+    disconnected: "disconnected",
+};
+
+function emptyForm(profiles: readonly PlayerProfile[]): ProfileForm {
+    const colorHex = CONFIG.PLAYERS.roster[profiles.length % CONFIG.PLAYERS.roster.length].colorHex;
+    return {editedId: null, name: "", colorHex};
+}
+
+function mostCommonCause(causes: Partial<Record<DeathCauseKind, number>>): string {
+    const [top] = (Object.entries(causes) as [DeathCauseKind, number][]).sort((a, b) => b[1] - a[1]);
+    return top ? `${DEATH_CAUSE_LABELS[top[0]]} (${top[1]})` : "–";
+}
+
+/**
+ * Profile graczy i statystyki: dodawanie/edycja profili, przypisanie do miejsc w składzie,
+ * bilans z historii (IndexedDB), mecze bezpośrednie oraz eksport/import kopii zapasowej.
+ */
+export default function StatsScreen({profiles, seats, seatCount, onChange, onClose}: StatsScreenProps) {
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+    const [history, setHistory] = useState<GameHistory>({rounds: [], matches: []});
+    const [form, setForm] = useState<ProfileForm>(() => emptyForm(profiles));
+    const [messageText, setMessageText] = useState("");
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadHistory().then((loaded) => {
+            if (isCurrent) setHistory(loaded);
+        });
+        return () => {
+            isCurrent = false;
+        };
+    }, []);
+
+    // Dopóki ekran jest otwarty, wciśnięcia nie docierają do gry (ESC zamyka); `keyup` przepuszczamy, żeby gra zwolniła trzymane klawisze
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            event.stopPropagation();
+            if (event.code === "Escape") onClose();
+        };
+        window.addEventListener("keydown", handleKeyDown, true);
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown, true);
+        };
+    }, [onClose]);
+
+    const formError = form.name === "" ? null : validateProfile(form.name, form.colorHex, profiles, form.editedId);
+
+    const submitForm = () => {
+        if (validateProfile(form.name, form.colorHex, profiles, form.editedId)) return;
+        const profile = {id: form.editedId ?? createProfileId(), name: form.name.trim(), colorHex: form.colorHex};
+        const updated = form.editedId
+            ? profiles.map((existing) => (existing.id === form.editedId ? profile : existing))
+            : [...profiles, profile];
+        onChange(updated, seats);
+        setForm(emptyForm(updated));
+    };
+
+    const deleteProfile = (profileId: string) => {
+        const updated = profiles.filter((profile) => profile.id !== profileId);
+        onChange(updated, seats.map((seat) => (seat === profileId ? null : seat)));
+        if (form.editedId === profileId) setForm(emptyForm(updated));
+    };
+
+    const importFile = async (file: File) => {
+        try {
+            const imported = parseHistoryExport(await file.text());
+            await replaceHistory(imported);
+            setHistory({rounds: imported.rounds, matches: imported.matches});
+            onChange(imported.profiles, seats.map((seat) => (imported.profiles.some((profile) => profile.id === seat) ? seat : null)));
+            setMessageText(`Imported ${imported.profiles.length} profiles and ${imported.matches.length} matches`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            setMessageText(`Could not import: ${message}`);
+        }
+    };
+
+    const stats = profiles.map((profile) => ({profile, stats: computeProfileStats(profile, history)}));
+    const headToHead = computeHeadToHead(profiles, history);
+    const nameOf = (profileId: string) => profiles.find((profile) => profile.id === profileId)?.name ?? "?";
+
+    const fieldStyle: React.CSSProperties = {
+        background: "rgba(255, 255, 255, 0.06)",
+        color: CONFIG.COLORS.hudTextHex,
+        border: `1px solid ${CONFIG.COLORS.hudDimHex}`,
+        borderRadius: 4,
+        padding: "4px 8px",
+        font: "inherit",
+    };
+    const buttonStyle: React.CSSProperties = {...fieldStyle, cursor: "pointer"};
+    const cellStyle: React.CSSProperties = {padding: "3px 8px", textAlign: "left"};
+    const headStyle: React.CSSProperties = {...cellStyle, color: CONFIG.COLORS.hudDimHex, fontWeight: 500};
+    const rowStyle: React.CSSProperties = {display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8};
+    const swatch = (colorHex: string) => (
+        <span style={{display: "inline-block", width: 10, height: 10, borderRadius: 5, background: colorHex, marginRight: 6}}/>
+    );
+
+    return (
+        <div
+            role="dialog"
+            aria-label="Players and stats"
+            style={{
+                position: "fixed",
+                inset: 0,
+                display: "flex",
+                alignItems: "flex-start",
+                justifyContent: "center",
+                background: "rgba(11, 16, 32, 0.92)",
+                color: CONFIG.COLORS.hudTextHex,
+                fontFamily: "system-ui, ui-sans-serif, Segoe UI, Roboto, Helvetica, Arial",
+                fontSize: 14,
+                overflowY: "auto",
+            }}
+        >
+            <div style={{display: "flex", flexDirection: "column", gap: 12, padding: 16, maxWidth: 900}}>
+                <h1 style={{fontSize: 22, margin: 0}}>Players and stats</h1>
+
+                <h2 style={{fontSize: 16, margin: 0}}>Profiles</h2>
+                {profiles.map((profile) => (
+                    <div key={profile.id} style={rowStyle}>
+                        <span style={{minWidth: 160}}>{swatch(profile.colorHex)}{profile.name}</span>
+                        <button style={buttonStyle} onClick={() => setForm({editedId: profile.id, name: profile.name, colorHex: profile.colorHex})}>
+                            Edit
+                        </button>
+                        <button style={buttonStyle} onClick={() => deleteProfile(profile.id)}>Delete</button>
+                    </div>
+                ))}
+                <div style={rowStyle}>
+                    <input
+                        aria-label="Profile name"
+                        placeholder="Name"
+                        maxLength={MAX_PROFILE_NAME_LENGTH}
+                        style={fieldStyle}
+                        value={form.name}
+                        onChange={(event) => setForm({...form, name: event.target.value})}
+                    />
+                    <input
+                        type="color"
+                        aria-label="Profile color"
+                        value={form.colorHex}
+                        onChange={(event) => setForm({...form, colorHex: event.target.value})}
+                    />
+                    <button style={buttonStyle} disabled={form.name === "" || formError !== null} onClick={submitForm}>
+                        {form.editedId ? "Save profile" : "Add profile"}
+                    </button>
+                    {form.editedId && <button style={buttonStyle} onClick={() => setForm(emptyForm(profiles))}>Cancel</button>}
+                    <span style={{color: CONFIG.COLORS.powerUpOpponentsHex}}>{formError ?? ""}</span>
+                </div>
+
+                <h2 style={{fontSize: 16, margin: 0}}>Who plays where</h2>
+                <div style={rowStyle}>
+                    {CONFIG.PLAYERS.roster.slice(0, seatCount).map((setup, index) => (
+                        <label key={setup.name}>
+                            {swatch(setup.colorHex)}{setup.name}{" "}
+                            <select
+                                style={fieldStyle}
+                                value={seats[index] ?? ""}
+                                onChange={(event) => onChange(profiles, assignSeat(seats, index, event.target.value || null))}
+                            >
+                                <option value="">no profile</option>
+                                {profiles.map((profile) => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                            </select>
+                        </label>
+                    ))}
+                </div>
+
+                <h2 style={{fontSize: 16, margin: 0}}>Statistics</h2>
+                {profiles.length === 0 ? (
+                    <div style={{color: CONFIG.COLORS.hudDimHex}}>Add a profile and seat it to start collecting statistics.</div>
+                ) : (
+                    <table style={{borderCollapse: "collapse"}}>
+                        <thead>
+                            <tr>
+                                {["Player", "Matches", "Win rate", "Rounds won", "Longest survival", "Avg survival", "Recent form", "Most deaths by"].map((title) => (
+                                    <th key={title} style={headStyle}>{title}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {stats.map(({profile, stats: row}) => (
+                                <tr key={profile.id}>
+                                    <td style={cellStyle}>{swatch(profile.colorHex)}{profile.name}</td>
+                                    <td style={cellStyle}>{row.matchesWon}/{row.matchesPlayed}</td>
+                                    <td style={cellStyle}>{row.winRate === null ? "–" : `${Math.round(row.winRate * 100)}%`}</td>
+                                    <td style={cellStyle}>{row.roundsWon}/{row.roundsPlayed}</td>
+                                    <td style={cellStyle}>{row.longestSurvivalSeconds.toFixed(1)}s</td>
+                                    <td style={cellStyle}>{row.averageSurvivalSeconds.toFixed(1)}s</td>
+                                    <td style={{...cellStyle, fontFamily: "monospace"}}>{row.recentForm.join(" ") || "–"}</td>
+                                    <td style={cellStyle}>{mostCommonCause(row.deathCauses)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {headToHead.length > 0 && (
+                    <>
+                        <h2 style={{fontSize: 16, margin: 0}}>Head to head</h2>
+                        <table style={{borderCollapse: "collapse"}}>
+                            <tbody>
+                                {headToHead.map((record) => (
+                                    <tr key={`${record.profileId}/${record.opponentId}`}>
+                                        <td style={cellStyle}>{nameOf(record.profileId)} vs {nameOf(record.opponentId)}</td>
+                                        <td style={cellStyle}>{record.wins}–{record.losses}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+
+                {messageText && <div role="status">{messageText}</div>}
+
+                <div style={rowStyle}>
+                    <button
+                        style={buttonStyle}
+                        onClick={() => {
+                            const now = new Date();
+                            downloadTextFile(`kurve-stats-${now.toISOString().replace(/[:.]/g, "-")}.json`, serializeHistoryExport(profiles, history, now));
+                        }}
+                    >
+                        Export backup
+                    </button>
+                    <button style={buttonStyle} onClick={() => fileInputRef.current?.click()}>Import backup</button>
+                    <button style={buttonStyle} onClick={onClose}>Close</button>
+                </div>
+            </div>
+
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                style={{display: "none"}}
+                onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) void importFile(file);
+                }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,160 @@
+import React, {useEffect, useMemo, useRef, useState} from "react";
+import {CONFIG} from "../game/config";
+import {PlayerInput} from "../game/types";
+import {findTouchZone, layoutTouchZones, touchInputsFromZones, TouchZone, Viewport} from "../input/touch";
+
+type TouchControlsProps = {
+    players: readonly { playerIndex: number; colorHex: string }[];
+    playerCount: number;
+    isRunning: boolean;
+    onInputsChange: (inputs: PlayerInput[]) => void;
+    onTap: () => void;      // gdy runda stoi: start (jak SPACE) albo nowy mecz (jak R)
+    onPause: () => void;
+    onRestart: () => void;
+    onSettings: () => void;
+};
+
+function readViewport(): Viewport {
+    return {width: window.innerWidth, height: window.innerHeight};
+}
+
+/**
+ * Warstwa dotyku nad planszą. W trakcie rundy każdy palec trzyma swoją strefę skrętu
+ * (palec można przesunąć na drugą strefę); gdy runda stoi, stuknięcie gdziekolwiek ją startuje.
+ */
+export default function TouchControls({players, playerCount, isRunning, onInputsChange, onTap, onPause, onRestart, onSettings}: TouchControlsProps) {
+    const [viewport, setViewport] = useState(readViewport);
+    const activePointers = useRef(new Map<number, TouchZone>());
+
+    useEffect(() => {
+        const handleResize = () => setViewport(readViewport());
+        window.addEventListener("resize", handleResize);
+        window.addEventListener("orientationchange", handleResize);
+        return () => {
+            window.removeEventListener("resize", handleResize);
+            window.removeEventListener("orientationchange", handleResize);
+        };
+    }, []);
+
+    const zones = useMemo(
+        () => layoutTouchZones(viewport, players.map((player) => player.playerIndex)),
+        [viewport, players]
+    );
+    const colorOf = (playerIndex: number) =>
+        players.find((player) => player.playerIndex === playerIndex)?.colorHex ?? CONFIG.COLORS.hudDimHex;
+
+    // Po pauzie/końcu rundy puszczamy wszystkie palce – skręt nie może „zawisnąć”
+    useEffect(() => {
+        if (isRunning) return;
+        activePointers.current.clear();
+        onInputsChange(touchInputsFromZones([], playerCount));
+    }, [isRunning, playerCount, onInputsChange]);
+
+    const publish = () => onInputsChange(touchInputsFromZones(Array.from(activePointers.current.values()), playerCount));
+
+    const trackPointer = (event: React.PointerEvent) => {
+        const zone = findTouchZone(zones, event.clientX, event.clientY);
+        if (zone) activePointers.current.set(event.pointerId, zone);
+        else activePointers.current.delete(event.pointerId);
+        publish();
+    };
+
+    const releasePointer = (event: React.PointerEvent) => {
+        if (!activePointers.current.delete(event.pointerId)) return;
+        publish();
+    };
+
+    const buttonStyle: React.CSSProperties = {
+        position: "absolute",
+        top: 10,
+        background: "rgba(11, 16, 32, 0.7)",
+        color: CONFIG.COLORS.hudTextHex,
+        border: `1px solid ${CONFIG.COLORS.hudDimHex}`,
+        borderRadius: 6,
+        padding: "8px 14px",
+        font: "inherit",
+        fontSize: 16,
+    };
+
+    return (
+        <div
+            aria-hidden={!isRunning}
+            style={{position: "fixed", inset: 0, touchAction: "none", userSelect: "none"}}
+            onPointerDown={(event) => {
+                event.preventDefault();
+                if (!isRunning) {
+                    onTap();
+                    return;
+                }
+                event.currentTarget.setPointerCapture?.(event.pointerId);
+                trackPointer(event);
+            }}
+            onPointerMove={(event) => {
+                if (activePointers.current.has(event.pointerId)) trackPointer(event);
+            }}
+            onPointerUp={releasePointer}
+            onPointerCancel={releasePointer}
+            onContextMenu={(event) => event.preventDefault()}
+        >
+            {zones.map((zone) => (
+                <div
+                    key={`${zone.playerIndex}-${zone.side}`}
+                    style={{
+                        position: "absolute",
+                        left: zone.x,
+                        top: zone.y,
+                        width: zone.width,
+                        height: zone.height,
+                        boxSizing: "border-box",
+                        border: `1px dashed ${colorOf(zone.playerIndex)}`,
+                        opacity: 0.35,
+                        display: "flex",
+                        alignItems: "flex-end",
+                        justifyContent: "center",
+                        paddingBottom: 8,
+                        color: colorOf(zone.playerIndex),
+                        fontSize: 22,
+                        transform: zone.isFlipped ? "rotate(180deg)" : undefined,
+                        pointerEvents: "none",
+                    }}
+                >
+                    {zone.side === "turnLeft" ? "↺" : "↻"}
+                </div>
+            ))}
+
+            {isRunning ? (
+                <button
+                    aria-label="Pause"
+                    style={{...buttonStyle, left: "50%", transform: "translateX(-50%)"}}
+                    onPointerDown={(event) => {
+                        event.stopPropagation();
+                        onPause();
+                    }}
+                >
+                    ❚❚
+                </button>
+            ) : (
+                <>
+                    <button
+                        style={{...buttonStyle, right: 10}}
+                        onPointerDown={(event) => {
+                            event.stopPropagation();
+                            onRestart();
+                        }}
+                    >
+                        Restart round
+                    </button>
+                    <button
+                        style={{...buttonStyle, left: "50%", transform: "translateX(-50%)"}}
+                        onPointerDown={(event) => {
+                            event.stopPropagation();
+                            onSettings();
+                        }}
+                    >
+                        Settings
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}